@@ -1,18 +1,59 @@
-import React, { useState, useEffect } from 'react';
-import { Book, Message } from './types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Book, BookExtraction, Citation, Highlight, HighlightColor, LibraryEntry, LlmSettings, Message, ReadingPosition } from './types';
 import FileUpload from './components/FileUpload';
 import Reader from './components/Reader';
 import ChatInterface from './components/ChatInterface';
-import { generateAssistantResponse } from './services/geminiService';
+import RecapPanel from './components/RecapPanel';
+import PreviouslyOnCard from './components/PreviouslyOnCard';
+import EntityPanel from './components/EntityPanel';
+import { generateAssistantResponse } from './services/assistantService';
+import { loadLlmSettings, saveLlmSettings } from './services/llmProviders';
+import {
+  INITIAL_BOUNDARY, extendBoundary, formatReadingPosition, getBookProgress, getPageUnit, getRequiredDwellMs, isPeek,
+  isReflowable
+} from './services/readingPosition';
+import {
+  deleteHighlight, listHighlights, saveBookToLibrary, saveHighlight, updateLibraryEntry
+} from './services/libraryStore';
+import { TextAnchor } from './services/textAnchors';
+import { isAutoRecapEnabled, shouldOfferRecap, updateRecapSummaries } from './services/recaps';
+import { isEntityTrackingEnabled, updateEntities } from './services/entities';
 import { MessageCircle } from 'lucide-react';
 
+// Pause after the read boundary moves before summarising and tracking characters in the background
+const BACKGROUND_UPDATE_DELAY_MS = 5000;
+
 const App: React.FC = () => {
   const [book, setBook] = useState<Book | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  // Furthest scroll position reached within the current EPUB chapter
+  const [chapterProgress, setChapterProgress] = useState<ReadingPosition | null>(null);
+  // Furthest point reached by actually reading; this is all the assistant may know about
+  const [readBoundary, setReadBoundary] = useState<ReadingPosition>(INITIAL_BOUNDARY);
+  // Set once the current page has been on screen long enough to count as read
+  const [dwelledPage, setDwelledPage] = useState<number | null>(null);
+  // Pages the Reader shows at once: 2 for two-page spreads, where the current page is the later one
+  const [pagesPerView, setPagesPerView] = useState(1);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  // Passage selected in the book to ask the assistant about, quoted above the chat input
+  const [chatQuote, setChatQuote] = useState<string | null>(null);
+  // Cited passage to show in the book, set when a citation in an answer is clicked
+  const [shownCitation, setShownCitation] = useState<Citation | null>(null);
+  const [isRecapOpen, setIsRecapOpen] = useState(false);
+  // Set when a book is reopened after a while away, to greet the reader with a recap
+  const [showPreviouslyOn, setShowPreviouslyOn] = useState(false);
+  const [isEntitiesOpen, setIsEntitiesOpen] = useState(false);
+  // Name from the character list to find in the book
+  const [searchRequest, setSearchRequest] = useState<{ query: string } | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  // Cancels the in-flight answer when the book is closed
+  const responseAbortRef = useRef<AbortController | null>(null);
+  // Text extraction still running for the PDF being read; stopped when the book is closed
+  const extractionRef = useRef<{ bookId: string; controller: AbortController } | null>(null);
 
   // Initialize dark mode from system preference
   useEffect(() => {
@@ -30,101 +71,333 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
-  // Persist Page Progress
+  // Persist Page Progress and Read Boundary
   useEffect(() => {
     if (book) {
-      localStorage.setItem(`progress_${book.fileName}`, currentPage.toString());
+      updateLibraryEntry(book.id, {
+        currentPage,
+        boundary: readBoundary,
+        progress: getBookProgress(book, readBoundary),
+      }).catch(e => {
+        console.error("Could not save progress", e);
+      });
     }
-  }, [currentPage, book]);
+  }, [currentPage, readBoundary, book]);
+
+  // Start the dwell timer for every page visit. A newer copy of the same book (more of a PDF's
+  // text extracted) doesn't restart it.
+  useEffect(() => {
+    if (!book) return;
+    setDwelledPage(null);
+    const timeoutId = setTimeout(() => setDwelledPage(currentPage), getRequiredDwellMs(book, currentPage));
+    return () => clearTimeout(timeoutId);
+  }, [book?.id, currentPage]);
+
+  // Summarise finished sections and track characters in the background, so recaps, long-book answers
+  // and the character list have them ready. Only a change of page can finish a section; the delay
+  // lets quick page turns settle first. One runs after the other, to keep requests to the model few.
+  const isBoundaryPageFinished = readBoundary.charOffset === undefined;
+  useEffect(() => {
+    if (!book) return;
+    const controller = new AbortController();
+    const warnUnlessAborted = (message: string) => (e: unknown) => {
+      if (!controller.signal.aborted) console.warn(message, e);
+    };
+    const timeoutId = setTimeout(async () => {
+      if (isAutoRecapEnabled()) {
+        await updateRecapSummaries(book, readBoundary, llmSettings, { signal: controller.signal })
+          .catch(warnUnlessAborted("Could not update recap summaries"));
+      }
+      if (isEntityTrackingEnabled() && !controller.signal.aborted) {
+        await updateEntities(book, readBoundary, llmSettings, { signal: controller.signal })
+          .catch(warnUnlessAborted("Could not update characters"));
+      }
+    }, BACKGROUND_UPDATE_DELAY_MS);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [book, readBoundary.page, isBoundaryPageFinished, llmSettings]);
 
   const toggleDarkMode = () => setIsDarkMode(prev => !prev);
 
-  const handleBookLoaded = (loadedBook: Book) => {
-    setBook(loadedBook);
-    
-    // Restore progress
-    const savedPage = localStorage.getItem(`progress_${loadedBook.fileName}`);
-    if (savedPage) {
-      setCurrentPage(parseInt(savedPage, 10));
-    } else {
-      setCurrentPage(0);
+  const handleLlmSettingsChange = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    saveLlmSettings(settings);
+  };
+
+  // Where the reader is right now. A reflowable page that hasn't been measured yet counts as unread.
+  const readingPosition: ReadingPosition =
+    !book || !isReflowable(book)
+      ? { page: currentPage }
+      : chapterProgress?.page === currentPage
+        ? chapterProgress
+        : { page: currentPage, charOffset: 0 };
+
+  // Advance the boundary through sequential reading only. Pages reached by jumping ahead are
+  // peeks and stay outside the boundary until the reader confirms them.
+  useEffect(() => {
+    if (!book || dwelledPage !== currentPage) return;
+    setReadBoundary(prev => isPeek(prev, currentPage, pagesPerView) ? prev : extendBoundary(prev, readingPosition));
+  }, [book, currentPage, dwelledPage, readingPosition.charOffset]);
+
+  const isPeeking = book ? isPeek(readBoundary, currentPage, pagesPerView) : false;
+
+  const handleConfirmPeek = () => {
+    setReadBoundary(readingPosition);
+  };
+
+  const handleLowerBoundary = (page: number) => {
+    setReadBoundary(prev => page < prev.page ? { page } : prev);
+  };
+
+  const handleReadOffsetChange = useCallback((page: number, charOffset: number | undefined) => {
+    setChapterProgress(prev => {
+      if (prev?.page === page) {
+        // Scrolling back up within the chapter doesn't un-read anything
+        if (prev.charOffset === undefined) return prev;
+        if (charOffset !== undefined && charOffset <= prev.charOffset) return prev;
+      }
+      return { page, charOffset };
+    });
+  }, []);
+
+  const stopExtraction = () => {
+    extractionRef.current?.controller.abort();
+    extractionRef.current = null;
+  };
+
+  // `extraction` is set when a PDF is opened before its text extraction has finished
+  const handleBookLoaded = async (loadedBook: Book, extraction?: BookExtraction) => {
+    // The same PDF opened again keeps the extraction already under way; any other is stopped
+    const isExtracting = extractionRef.current?.bookId === loadedBook.id;
+    if (!isExtracting) stopExtraction();
+    else extraction?.controller.abort();
+
+    // Restore progress from the library (adding the book to it if it is new)
+    let entry: LibraryEntry | null = null;
+    let previousOpenedAt: number | undefined;
+    if (extraction && !isExtracting) {
+      const { completeBook, controller } = extraction;
+      extractionRef.current = { bookId: loadedBook.id, controller };
+      completeBook
+        .then(async complete => {
+          if (extractionRef.current?.controller === controller) extractionRef.current = null;
+          // Only complete books go into the library; progress is saved once the entry exists
+          await saveBookToLibrary(complete);
+          setBook(prev => prev?.id === complete.id ? complete : prev);
+        })
+        .catch(e => {
+          if (!controller.signal.aborted) console.error("Could not finish extracting text", e);
+        });
+    } else if (!isExtracting) {
+      try {
+        ({ entry, previousOpenedAt } = await saveBookToLibrary(loadedBook));
+      } catch (e) {
+        console.error("Could not save book to library", e);
+      }
     }
 
+    let bookHighlights: Highlight[] = [];
+    try {
+      bookHighlights = await listHighlights(loadedBook.id);
+    } catch (e) {
+      console.error("Could not load highlights", e);
+    }
+
+    setBook(loadedBook);
+    setHighlights(bookHighlights);
+    setChapterProgress(null);
+    setCurrentPage(entry?.currentPage ?? 0);
+    setReadBoundary(entry?.boundary ?? INITIAL_BOUNDARY);
+    setIsRecapOpen(false);
+    setIsEntitiesOpen(false);
+    setSearchRequest(null);
+    setShowPreviouslyOn(shouldOfferRecap(previousOpenedAt, entry?.boundary ?? INITIAL_BOUNDARY));
+
     setMessages([{
       id: 'welcome',
       role: 'assistant',
-      content: `Hello! I'm ready to read **${loadedBook.title}** with you. \n\nI'll track your progress page by page. Feel free to ask me questions, but remember: I only know what *you* have read so far!`,
+      content: `Hello! I'm ready to read **${loadedBook.title}**${loadedBook.metadata.author ? ` by ${loadedBook.metadata.author}` : ''} with you. \n\nI'll track your progress page by page. Feel free to ask me questions, but remember: I only know what *you* have read so far!`,
       timestamp: Date.now()
     }]);
     setIsChatOpen(false); // Start with reader focused
   };
 
+  // A PDF opened early is republished as its text is extracted, so searches and the like see it
+  const handleBookUpdated = (updatedBook: Book) => {
+    setBook(prev => prev?.id === updatedBook.id ? updatedBook : prev);
+  };
+
+  const handleAddHighlight = (page: number, anchor: TextAnchor, color: HighlightColor, note?: string) => {
+    if (!book) return;
+    const now = Date.now();
+    const highlight: Highlight = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      bookId: book.id,
+      page,
+      ...anchor,
+      color,
+      note,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setHighlights(prev => [...prev, highlight].sort((a, b) => a.page - b.page || a.start - b.start));
+    saveHighlight(highlight).catch(e => console.error("Could not save highlight", e));
+  };
+
+  const handleUpdateHighlight = (id: string, changes: { color: HighlightColor; note?: string }) => {
+    const existing = highlights.find(h => h.id === id);
+    if (!existing) return;
+    const updated: Highlight = { ...existing, ...changes, updatedAt: Date.now() };
+    setHighlights(prev => prev.map(h => h.id === id ? updated : h));
+    saveHighlight(updated).catch(e => console.error("Could not save highlight", e));
+  };
+
+  const handleDeleteHighlight = (id: string) => {
+    setHighlights(prev => prev.filter(h => h.id !== id));
+    deleteHighlight(id).catch(e => console.error("Could not delete highlight", e));
+  };
+
   const handleBackToHome = () => {
+    responseAbortRef.current?.abort();
+    stopExtraction();
     setBook(null);
+    setHighlights([]);
     setMessages([]);
+    setChatQuote(null);
+    setShownCitation(null);
+    setIsRecapOpen(false);
+    setShowPreviouslyOn(false);
+    setIsEntitiesOpen(false);
+    setSearchRequest(null);
     setIsChatOpen(false);
   };
 
-  const handleSendMessage = async (content: string) => {
+  const handleOpenRecap = () => {
+    setShowPreviouslyOn(false);
+    setIsEntitiesOpen(false);
+    setIsRecapOpen(true);
+  };
+
+  const handleOpenEntities = () => {
+    setIsRecapOpen(false);
+    setIsEntitiesOpen(true);
+  };
+
+  const handleSearchEntity = (query: string) => {
+    // The search panel opens where the character list was
+    setIsEntitiesOpen(false);
+    setSearchRequest({ query });
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    // A fresh object each time, so clicking the same citation again scrolls back to it
+    setShownCitation({ ...citation });
+    setCurrentPage(citation.page);
+    // On small screens the chat covers the book
+    if (!window.matchMedia('(min-width: 1024px)').matches) setIsChatOpen(false);
+  };
+
+  const handleAskAboutSelection = (quote: string) => {
+    setChatQuote(quote);
+    setIsChatOpen(true);
+  };
+
+  // Answers the last message of `history`, which becomes the conversation shown
+  const requestAnswer = async (history: Message[]) => {
     if (!book) return;
+    setIsAiLoading(true);
 
-    const userMsg: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content,
+    const assistantMsgId = (Date.now() + 1).toString();
+    // Placeholder for streaming
+    setMessages([...history, {
+      id: assistantMsgId,
+      role: 'assistant',
+      content: '',
       timestamp: Date.now(),
-    };
+      isStreaming: true
+    }]);
 
-    setMessages(prev => [...prev, userMsg]);
-    setIsAiLoading(true);
+    const abortController = new AbortController();
+    responseAbortRef.current = abortController;
 
     try {
-      const assistantMsgId = (Date.now() + 1).toString();
-      
-      // Placeholder for streaming
-      setMessages(prev => [...prev, {
-        id: assistantMsgId,
-        role: 'assistant',
-        content: '',
-        timestamp: Date.now(),
-        isStreaming: true
-      }]);
-
       let accumulatedText = "";
-
       await generateAssistantResponse(
-        [...messages, userMsg],
-        book.content,
-        currentPage,
-        (textChunk) => {
+        history,
+        book,
+        readBoundary,
+        llmSettings,
+        (textChunk, citations, spoilers) => {
           accumulatedText = textChunk;
           setMessages(prev => prev.map(m => 
-            m.id === assistantMsgId ? { ...m, content: accumulatedText } : m
+            m.id === assistantMsgId ? { ...m, content: accumulatedText, citations, spoilers } : m
           ));
+        },
+        {
+          onContextSelected: (retrievedPages) => {
+            setMessages(prev => prev.map(m => 
+              m.id === assistantMsgId ? { ...m, retrievedPages } : m
+            ));
+          },
+          signal: abortController.signal,
+          highlights,
         }
       );
 
       setMessages(prev => prev.map(m => 
-        m.id === assistantMsgId ? { ...m, isStreaming: false } : m
+        m.id === assistantMsgId ? { ...m, isStreaming: false, isStopped: abortController.signal.aborted } : m
       ));
 
     } catch (error) {
       console.error(error);
-      setMessages(prev => [...prev, {
+      setMessages(prev => [...prev.filter(m => m.id !== assistantMsgId), {
         id: Date.now().toString(),
         role: 'assistant',
         content: "Sorry, I encountered an error answering that.",
         timestamp: Date.now()
       }]);
     } finally {
+      if (responseAbortRef.current === abortController) responseAbortRef.current = null;
       setIsAiLoading(false);
     }
   };
 
+  const handleSendMessage = (content: string) => {
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+    };
+    requestAnswer([...messages, userMsg]);
+  };
+
+  const handleStopAnswer = () => {
+    responseAbortRef.current?.abort();
+  };
+
+  // Answers the last question again, in place of the last answer
+  const handleRegenerate = () => {
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+    requestAnswer(messages.slice(0, lastUserIndex + 1));
+  };
+
+  // Rewrites an earlier question and answers it again. The conversation after it is dropped, and
+  // carries on from the edited question.
+  const handleEditMessage = (id: string, content: string) => {
+    const index = messages.findIndex(m => m.id === id);
+    if (index === -1 || messages[index].role !== 'user') return;
+    requestAnswer([...messages.slice(0, index), { ...messages[index], content, timestamp: Date.now() }]);
+  };
+
   if (!book) {
     return (
       <FileUpload 
         onBookLoaded={handleBookLoaded} 
+        onBookUpdated={handleBookUpdated}
         isDarkMode={isDarkMode} 
         onToggleDarkMode={toggleDarkMode}
       />
@@ -139,12 +412,56 @@ const App: React.FC = () => {
           book={book}
           currentPage={currentPage}
           onPageChange={setCurrentPage}
+          onReadOffsetChange={handleReadOffsetChange}
+          onPagesPerViewChange={setPagesPerView}
+          isPeeking={isPeeking}
+          readBoundary={readBoundary}
+          boundaryLabel={formatReadingPosition(book, readBoundary)}
+          onConfirmPeek={handleConfirmPeek}
+          highlights={highlights}
+          onAddHighlight={handleAddHighlight}
+          onUpdateHighlight={handleUpdateHighlight}
+          onDeleteHighlight={handleDeleteHighlight}
+          onAskAboutSelection={handleAskAboutSelection}
+          shownCitation={shownCitation}
+          onOpenRecap={handleOpenRecap}
+          onOpenEntities={handleOpenEntities}
+          searchRequest={searchRequest}
           isDarkMode={isDarkMode}
           onToggleDarkMode={toggleDarkMode}
           onBackToHome={handleBackToHome}
         />
       </div>
 
+      <RecapPanel
+        book={book}
+        boundary={readBoundary}
+        positionLabel={formatReadingPosition(book, readBoundary)}
+        llmSettings={llmSettings}
+        isOpen={isRecapOpen}
+        onClose={() => setIsRecapOpen(false)}
+      />
+
+      <EntityPanel
+        book={book}
+        boundary={readBoundary}
+        llmSettings={llmSettings}
+        isOpen={isEntitiesOpen}
+        onClose={() => setIsEntitiesOpen(false)}
+        onSearch={handleSearchEntity}
+      />
+
+      {showPreviouslyOn && !isRecapOpen && (
+        <PreviouslyOnCard
+          book={book}
+          boundary={readBoundary}
+          positionLabel={formatReadingPosition(book, readBoundary)}
+          llmSettings={llmSettings}
+          onOpenRecap={handleOpenRecap}
+          onClose={() => setShowPreviouslyOn(false)}
+        />
+      )}
+
       {/* Floating Chat Button (Mobile/When closed) */}
       {!isChatOpen && (
         <button
@@ -166,9 +483,20 @@ const App: React.FC = () => {
         <ChatInterface
           messages={messages}
           onSendMessage={handleSendMessage}
+          onStop={handleStopAnswer}
+          onRegenerate={handleRegenerate}
+          onEditMessage={handleEditMessage}
+          quote={chatQuote}
+          onClearQuote={() => setChatQuote(null)}
+          onCitationClick={handleCitationClick}
           isLoading={isAiLoading}
           onClose={() => setIsChatOpen(false)}
-          currentPage={currentPage}
+          positionLabel={formatReadingPosition(book, readBoundary)}
+          boundaryPage={readBoundary.page}
+          pageUnit={getPageUnit(book)}
+          onLowerBoundary={handleLowerBoundary}
+          llmSettings={llmSettings}
+          onLlmSettingsChange={handleLlmSettingsChange}
         />
       </div>
       
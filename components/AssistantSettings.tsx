@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Loader2, Settings } from 'lucide-react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { DEFAULT_MODELS, LLM_PROVIDERS, getProvider } from '../services/llmProviders';
+
+interface AssistantSettingsProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const AssistantSettings: React.FC<AssistantSettingsProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+
+  const update = (changes: Partial<LlmSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleProviderChange = (provider: LlmProviderId) => {
+    update({ provider, model: DEFAULT_MODELS[provider] });
+    setModels([]);
+    setModelError(null);
+  };
+
+  const handleRefreshModels = async () => {
+    setIsLoadingModels(true);
+    setModelError(null);
+    try {
+      setModels(await getProvider(draft).listModels(draft));
+    } catch (err: any) {
+      console.error(err);
+      setModelError(err.message || 'Could not load models.');
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all";
+  const labelClass = "block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-white dark:bg-gray-900">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-800">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <Settings className="w-5 h-5" /> Assistant Settings
+        </h3>
+        <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors">
+          <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-4 space-y-5">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+            {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => handleProviderChange(id)}
+                className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-all ${draft.provider === id ? 'bg-white dark:bg-gray-700 shadow-sm text-indigo-600 dark:text-indigo-400 font-medium' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+              >
+                {LLM_PROVIDERS[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {draft.provider === 'openai' && (
+          <>
+            <div>
+              <label className={labelClass}>Endpoint</label>
+              <input
+                type="url"
+                value={draft.endpoint}
+                onChange={(e) => update({ endpoint: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                Any server exposing /v1/chat/completions, such as Ollama, llama.cpp or vLLM.
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>API Key (optional)</label>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.imageInput}
+                onChange={(e) => update({ imageInput: e.target.checked })}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                Model accepts images
+                <span className="block text-xs text-gray-400 dark:text-gray-500">
+                  Lets the assistant see the comic pages you have read, e.g. with llava or qwen2.5-vl.
+                </span>
+              </span>
+            </label>
+          </>
+        )}
+
+        <div>
+          <label className={labelClass}>Model</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              list="assistant-models"
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value })}
+              className={inputClass}
+              required
+            />
+            <button
+              type="button"
+              onClick={handleRefreshModels}
+              disabled={isLoadingModels}
+              className="p-2 shrink-0 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50 transition-colors"
+              title="Load available models"
+            >
+              {isLoadingModels ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </button>
+          </div>
+          <datalist id="assistant-models">
+            {models.map(model => <option key={model} value={model} />)}
+          </datalist>
+          {models.length > 0 && (
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{models.length} models available.</p>
+          )}
+          {modelError && <p className="text-xs text-red-500 mt-1">{modelError}</p>}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs font-medium text-gray-600 dark:text-gray-300">
+            <span>Temperature</span>
+            <span>{draft.temperature.toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="1.5"
+            step="0.1"
+            value={draft.temperature}
+            onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+            className="w-full accent-indigo-600 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <p className="text-xs text-gray-400 dark:text-gray-500">Lower values keep answers closer to the text.</p>
+        </div>
+
+        <button
+          type="submit"
+          className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-xl transition-colors shadow-sm"
+        >
+          Save
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AssistantSettings;
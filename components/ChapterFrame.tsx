@@ -0,0 +1,152 @@
+import React, { useEffect, useRef } from 'react';
+import { isExternalLink } from '../services/htmlSanitizer';
+
+interface ChapterFrameProps {
+  html: string; // Already sanitized chapter markup
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: 'serif' | 'sans' | 'mono';
+  isDarkMode: boolean;
+  stylesheet: string; // The book's scoped CSS plus the typography override rules
+  overrideTypography: boolean;
+  // Receives the frame's body once the chapter has loaded, and null while it is being replaced
+  onBodyChange: (body: HTMLElement | null) => void;
+  // Events inside the frame don't reach the Reader's own listeners, so they are passed on
+  onMouseUp: () => void;
+  onClick: (e: MouseEvent) => void;
+  onWheel: (e: WheelEvent) => void;
+  onTouchStart: (e: TouchEvent) => void;
+  onTouchMove: (e: TouchEvent) => void;
+  onTouchEnd: () => void;
+}
+
+const FONT_STACKS = {
+  serif: "Merriweather, Georgia, 'Times New Roman', serif",
+  sans: "Inter, system-ui, -apple-system, 'Segoe UI', sans-serif",
+  mono: "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+};
+
+// Nothing inside the frame may load from the network; inlined images, inline styles and the
+// book's own fonts and images (blob URLs created by the Reader) still work
+const FRAME_CSP = "default-src 'none'; img-src data: blob:; style-src 'unsafe-inline'; font-src data: blob:";
+
+const FRAME_CSS = `
+  html { color-scheme: light; }
+  html.dark { color-scheme: dark; }
+  body { margin: 0; color: #2d2d2d; background: transparent; overflow: hidden; overflow-wrap: break-word; }
+  html.dark body { color: #e5e7eb; }
+  img, svg { max-width: 100%; height: auto; }
+  p { margin: 0 0 1em; }
+  a { color: #4f46e5; }
+  html.dark a { color: #818cf8; }
+`;
+
+// Renders a chapter in an iframe sandboxed without allow-scripts, so nothing in the book can run even
+// if sanitizing missed it. allow-same-origin lets the Reader reach into the frame for highlights,
+// search marks and progress measurement. The frame grows to fit its content and never scrolls itself.
+const ChapterFrame: React.FC<ChapterFrameProps> = ({
+  html, fontSize, lineHeight, fontFamily, isDarkMode, stylesheet, overrideTypography, onBodyChange,
+  onMouseUp, onClick, onWheel, onTouchStart, onTouchMove, onTouchEnd
+}) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const loadedHtmlRef = useRef<string | null>(null);
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  // Handlers change on every render; listeners read the latest ones through this ref
+  const handlersRef = useRef({ onMouseUp, onClick, onWheel, onTouchStart, onTouchMove, onTouchEnd });
+  handlersRef.current = { onMouseUp, onClick, onWheel, onTouchStart, onTouchMove, onTouchEnd };
+
+  const srcDoc = `<!DOCTYPE html><html><head><meta charset="utf-8">`
+    + `<meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}">`
+    + `<style>${FRAME_CSS}</style><style id="book-styles"></style></head>`
+    + `<body data-chapter>${html}</body></html>`;
+
+  // Set on the root rather than the body, so the book's body rules can still change them
+  // unless the reader's settings are forced with the override
+  const applyTypography = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc?.body) return;
+    doc.documentElement.classList.toggle('dark', isDarkMode);
+    doc.documentElement.style.fontSize = `${fontSize}px`;
+    doc.documentElement.style.lineHeight = String(lineHeight);
+    doc.documentElement.style.fontFamily = FONT_STACKS[fontFamily];
+    doc.body.toggleAttribute('data-override', overrideTypography);
+  };
+
+  const applyStylesheet = () => {
+    const style = frameRef.current?.contentDocument?.getElementById('book-styles');
+    if (style) style.textContent = stylesheet;
+  };
+
+  useEffect(applyTypography, [fontSize, lineHeight, fontFamily, isDarkMode, overrideTypography]);
+  useEffect(applyStylesheet, [stylesheet]);
+
+  // The old body is going away with the old chapter
+  useEffect(() => {
+    if (loadedHtmlRef.current !== html) onBodyChange(null);
+  }, [html]);
+
+  useEffect(() => () => resizeObserverRef.current?.disconnect(), []);
+
+  // Links would otherwise navigate the frame itself. External ones open in a new tab instead;
+  // links within the book are left to the Reader's click handler.
+  const handleLinkClick = (e: MouseEvent) => {
+    const link = (e.target as Element | null)?.closest?.('a[href]');
+    if (!link) return;
+    e.preventDefault();
+    const href = link.getAttribute('href') || '';
+    if (isExternalLink(href)) window.open(href, '_blank', 'noopener,noreferrer');
+  };
+
+  const handleLoad = () => {
+    const frame = frameRef.current;
+    const doc = frame?.contentDocument;
+    if (!frame || !doc?.body) return;
+
+    // Copy the app's own stylesheets in, for highlight and search marks
+    document.head.querySelectorAll('style').forEach(style => doc.head.appendChild(style.cloneNode(true)));
+    applyStylesheet();
+    applyTypography();
+
+    const resize = () => {
+      frame.style.height = `${doc.documentElement.scrollHeight}px`;
+    };
+    resize();
+    resizeObserverRef.current?.disconnect();
+    resizeObserverRef.current = new ResizeObserver(resize);
+    resizeObserverRef.current.observe(doc.body);
+
+    doc.addEventListener('mouseup', () => handlersRef.current.onMouseUp());
+    doc.addEventListener('click', e => {
+      handleLinkClick(e);
+      handlersRef.current.onClick(e);
+    });
+    doc.addEventListener('wheel', e => handlersRef.current.onWheel(e), { passive: true });
+    doc.addEventListener('touchstart', e => handlersRef.current.onTouchStart(e), { passive: true });
+    doc.addEventListener('touchmove', e => handlersRef.current.onTouchMove(e), { passive: true });
+    doc.addEventListener('touchend', () => handlersRef.current.onTouchEnd());
+    // Keep keyboard shortcuts working while the frame has focus
+    doc.addEventListener('keydown', e => {
+      const forwarded = new KeyboardEvent('keydown', {
+        key: e.key, ctrlKey: e.ctrlKey, metaKey: e.metaKey, shiftKey: e.shiftKey, altKey: e.altKey, cancelable: true,
+      });
+      if (!window.dispatchEvent(forwarded)) e.preventDefault();
+    });
+
+    loadedHtmlRef.current = html;
+    onBodyChange(doc.body);
+  };
+
+  return (
+    <iframe
+      ref={frameRef}
+      srcDoc={srcDoc}
+      sandbox="allow-same-origin"
+      onLoad={handleLoad}
+      title="Chapter"
+      className="block w-full border-0"
+      style={{ height: '60vh' }}
+    />
+  );
+};
+
+export default ChapterFrame;
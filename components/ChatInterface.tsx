@@ -1,25 +1,58 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Message } from '../types';
-import { Send, Bot, User, X, Loader2, BookOpen } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import { Citation, LlmSettings, Message } from '../types';
+import { Send, Bot, User, X, BookOpen, ChevronDown, Settings, Quote, EyeOff, Square, RefreshCw, Pencil } from 'lucide-react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import AssistantSettings from './AssistantSettings';
+import { CITATION_LINK_PREFIX } from '../services/citations';
+import { SPOILER_LINK_PREFIX } from '../services/spoilerGuard';
 
 interface ChatInterfaceProps {
   messages: Message[];
   onSendMessage: (content: string) => void;
+  onStop: () => void; // Stops the answer being written, keeping what there is of it
+  onRegenerate: () => void; // Answers the last question again
+  onEditMessage: (id: string, content: string) => void; // Rewrites a question and answers it again
+  quote?: string | null; // Passage selected in the book, sent along with the next question
+  onClearQuote?: () => void;
+  onCitationClick?: (citation: Citation) => void; // Shows the cited passage in the book
   isLoading: boolean;
   onClose: () => void;
-  currentPage: number;
+  positionLabel: string; // e.g. "Page 12" or "Chapter 3, 40%"
+  boundaryPage: number; // 0-based page index of the read boundary
+  pageUnit: 'Page' | 'Chapter';
+  onLowerBoundary: (page: number) => void;
+  llmSettings: LlmSettings;
+  onLlmSettingsChange: (settings: LlmSettings) => void;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
+  onStop,
+  onRegenerate,
+  onEditMessage,
+  quote,
+  onClearQuote,
+  onCitationClick,
   isLoading, 
   onClose,
-  currentPage 
+  positionLabel,
+  boundaryPage,
+  pageUnit,
+  onLowerBoundary,
+  llmSettings,
+  onLlmSettingsChange
 }) => {
   const [inputValue, setInputValue] = useState('');
+  const [showBoundary, setShowBoundary] = useState(false);
+  const [boundaryInput, setBoundaryInput] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Hidden sentences the reader chose to see, as `${messageId}-${index}`
+  const [revealedSpoilers, setRevealedSpoilers] = useState<Set<string>>(new Set());
+  // Question being rewritten, in place in the conversation
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -29,14 +62,99 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages]);
 
+  // A new quote is there to be asked about
+  useEffect(() => {
+    if (quote) inputRef.current?.focus();
+  }, [quote]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim() && !isLoading) {
+    if ((!inputValue.trim() && !quote) || isLoading) return;
+    if (quote) {
+      // Quoted as a Markdown block quote, so it reads as a quote in the conversation too
+      const quoted = quote.split('\n').map(line => `> ${line}`).join('\n');
+      onSendMessage(`${quoted}\n\n${inputValue.trim() || 'What does this passage mean?'}`);
+      onClearQuote?.();
+    } else {
       onSendMessage(inputValue);
-      setInputValue('');
+    }
+    setInputValue('');
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editing.content.trim() || isLoading) return;
+    onEditMessage(editing.id, editing.content.trim());
+    setEditing(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) handleEditSubmit(e);
+    else if (e.key === 'Escape') setEditing(null);
+  };
+
+  const handleBoundarySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pageNum = parseInt(boundaryInput, 10);
+    if (!isNaN(pageNum) && pageNum >= 1 && pageNum <= boundaryPage) {
+      onLowerBoundary(pageNum - 1);
+      setBoundaryInput('');
+      setShowBoundary(false);
     }
   };
 
+  // Citations and hidden spoilers are links in an answer's Markdown, drawn as controls instead
+  const getMarkdownComponents = (msg: Message): Components => ({
+    p: ({node, ...props}) => <p className="mb-1 last:mb-0" {...props} />,
+    a: ({node, href, children, ...props}) => {
+      if (href?.startsWith(SPOILER_LINK_PREFIX)) {
+        const index = parseInt(href.slice(SPOILER_LINK_PREFIX.length), 10);
+        const spoiler = msg.spoilers?.[index];
+        if (spoiler === undefined) return null;
+        const key = `${msg.id}-${index}`;
+        if (revealedSpoilers.has(key)) {
+          return (
+            <span className="bg-amber-50 dark:bg-amber-900/20 rounded" title="Possible spoiler">
+              <ReactMarkdown components={{ ...getMarkdownComponents(msg), p: ({node, ...props}) => <span {...props} /> }}>
+                {spoiler}
+              </ReactMarkdown>
+            </span>
+          );
+        }
+        return (
+          <button
+            type="button"
+            onClick={() => setRevealedSpoilers(prev => new Set(prev).add(key))}
+            className="inline-flex items-center gap-1 align-baseline mx-0.5 px-2 py-px text-[11px] font-medium leading-4 no-underline bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border border-dashed border-amber-300 dark:border-amber-700 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors"
+            title="This sentence mentions things only found in pages you haven't read yet"
+          >
+            <EyeOff className="w-3 h-3" />
+            Possible spoiler hidden — reveal?
+          </button>
+        );
+      }
+
+      const citation = href?.startsWith(CITATION_LINK_PREFIX)
+        ? msg.citations?.[parseInt(href.slice(CITATION_LINK_PREFIX.length), 10)]
+        : undefined;
+      if (!citation) return <a href={href} {...props}>{children}</a>;
+      return (
+        <button
+          type="button"
+          onClick={() => onCitationClick?.(citation)}
+          className="inline-flex items-center align-baseline mx-0.5 px-1.5 py-px text-[11px] font-medium leading-4 no-underline bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 border border-indigo-100 dark:border-indigo-800 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900 transition-colors"
+          title={citation.quote ? `“${citation.quote}”` : `${pageUnit} ${citation.page + 1}`}
+        >
+          {pageUnit === 'Page' ? 'p.' : 'ch.'} {citation.page + 1}
+        </button>
+      );
+    },
+  });
+
+  // Only the latest answer can be written again, and only once there is a question to answer
+  const lastMessage = messages[messages.length - 1];
+  const canRegenerate = !isLoading && lastMessage?.role === 'assistant' && messages.some(m => m.role === 'user');
+
   const suggestions = [
     "Summarize what I've read so far",
     "Who is the main character?",
@@ -44,7 +162,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   ];
 
   return (
-    <div className="flex flex-col h-full bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-800 shadow-xl transition-colors duration-200">
+    <div className="relative flex flex-col h-full bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-800 shadow-xl transition-colors duration-200">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-800 bg-white dark:bg-gray-900 z-10">
         <div className="flex items-center gap-2">
@@ -53,20 +171,75 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
           <div>
             <h3 className="font-semibold text-gray-800 dark:text-gray-100">Reading Assistant</h3>
-            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+            <button
+              onClick={() => setShowBoundary(prev => !prev)}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 flex items-center gap-1 transition-colors"
+              title="View or change what the assistant knows"
+            >
               <BookOpen className="w-3 h-3" />
-              Knowing up to page {currentPage + 1}
-            </p>
+              Knowing up to {positionLabel}
+              <ChevronDown className={`w-3 h-3 transition-transform ${showBoundary ? 'rotate-180' : ''}`} />
+            </button>
           </div>
         </div>
-        <button 
-          onClick={onClose}
-          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors lg:hidden"
-        >
-          <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+            title={`Assistant settings (${llmSettings.model})`}
+          >
+            <Settings className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+          <button 
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors lg:hidden"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
       </div>
 
+      {showSettings && (
+        <AssistantSettings
+          settings={llmSettings}
+          onSave={(settings) => {
+            onLlmSettingsChange(settings);
+            setShowSettings(false);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Read Boundary */}
+      {showBoundary && (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-800 bg-indigo-50/50 dark:bg-indigo-950/30 text-xs text-gray-600 dark:text-gray-300 space-y-2">
+          <p>
+            The assistant knows everything up to <span className="font-medium">{positionLabel}</span>.
+            Pages you jump ahead to aren't counted until you confirm them.
+          </p>
+          {boundaryPage > 0 && (
+            <form onSubmit={handleBoundarySubmit} className="flex items-center gap-2">
+              <span>I only remember up to {pageUnit.toLowerCase()}</span>
+              <input
+                type="number"
+                min={1}
+                max={boundaryPage}
+                value={boundaryInput}
+                onChange={(e) => setBoundaryInput(e.target.value)}
+                className="w-16 px-2 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-center font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+              />
+              <button
+                type="submit"
+                disabled={!boundaryInput}
+                className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Update
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-gray-50/50 dark:bg-gray-950">
         {messages.length === 0 ? (
@@ -103,24 +276,82 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 )}
               </div>
               
-              <div className={`flex flex-col max-w-[85%] ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-                <div className={`px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
-                  msg.role === 'user' 
-                    ? 'bg-gray-800 dark:bg-gray-700 text-white rounded-tr-sm' 
-                    : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 border border-gray-100 dark:border-gray-700 rounded-tl-sm'
-                }`}>
-                  <ReactMarkdown 
-                    className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1"
-                    components={{
-                       p: ({node, ...props}) => <p className="mb-1 last:mb-0" {...props} />
-                    }}
+              <div className={`group flex flex-col max-w-[85%] ${msg.role === 'user' ? 'items-end' : 'items-start'} ${editing?.id === msg.id ? 'w-full' : ''}`}>
+                {editing?.id === msg.id ? (
+                  <form onSubmit={handleEditSubmit} className="w-full">
+                    <textarea
+                      value={editing.content}
+                      onChange={(e) => setEditing({ id: msg.id, content: e.target.value })}
+                      onKeyDown={handleEditKeyDown}
+                      rows={Math.min(editing.content.split('\n').length + 1, 8)}
+                      autoFocus
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-indigo-300 dark:border-indigo-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 text-sm text-gray-900 dark:text-white resize-none"
+                    />
+                    <div className="flex justify-end gap-2 mt-1">
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="px-3 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={!editing.content.trim() || isLoading}
+                        className="px-3 py-1 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Send
+                      </button>
+                    </div>
+                    <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-1 text-right">The conversation after this question will be replaced.</p>
+                  </form>
+                ) : (
+                  <div className={`px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
+                    msg.role === 'user' 
+                      ? 'bg-gray-800 dark:bg-gray-700 text-white rounded-tr-sm' 
+                      : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 border border-gray-100 dark:border-gray-700 rounded-tl-sm'
+                  }`}>
+                    {msg.isStopped && !msg.content ? (
+                      <span className="italic text-gray-400 dark:text-gray-500">Stopped before answering.</span>
+                    ) : (
+                      <ReactMarkdown 
+                        className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1"
+                        components={getMarkdownComponents(msg)}
+                      >
+                        {msg.content}
+                      </ReactMarkdown>
+                    )}
+                  </div>
+                )}
+                {msg.role === 'user' && editing?.id !== msg.id && !isLoading && (
+                  <button
+                    onClick={() => setEditing({ id: msg.id, content: msg.content })}
+                    className="flex items-center gap-1 mt-1 text-xs text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    title="Edit and ask again"
                   >
-                    {msg.content}
-                  </ReactMarkdown>
-                </div>
+                    <Pencil className="w-3 h-3" /> Edit
+                  </button>
+                )}
+                {msg.role === 'assistant' && msg.isStopped && msg.content && (
+                  <span className="text-xs text-gray-400 dark:text-gray-500 mt-1">Stopped</span>
+                )}
+                {msg.role === 'assistant' && msg.retrievedPages && msg.retrievedPages.length > 0 && (
+                  <span className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                    Looked up page{msg.retrievedPages.length > 1 ? 's' : ''} {msg.retrievedPages.map(page => page + 1).join(', ')}
+                  </span>
+                )}
                 {msg.role === 'assistant' && msg.isStreaming && (
                   <span className="text-xs text-indigo-500 mt-1 animate-pulse">Thinking...</span>
                 )}
+                {msg === lastMessage && canRegenerate && (
+                  <button
+                    onClick={onRegenerate}
+                    className="flex items-center gap-1 mt-1 text-xs text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                    title="Answer the question again"
+                  >
+                    <RefreshCw className="w-3 h-3" /> Regenerate
+                  </button>
+                )}
               </div>
             </div>
           ))
@@ -130,26 +361,47 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       {/* Input */}
       <div className="p-4 bg-white dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
+        {quote && (
+          <div className="flex items-start gap-2 mb-2 px-3 py-2 bg-indigo-50 dark:bg-indigo-900/30 border-l-2 border-indigo-400 rounded-r-lg text-xs text-gray-600 dark:text-gray-300">
+            <Quote className="w-3.5 h-3.5 mt-0.5 shrink-0 text-indigo-500" />
+            <p className="flex-1 line-clamp-3 italic">{quote}</p>
+            <button
+              onClick={onClearQuote}
+              className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+              title="Remove quote"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="relative">
           <input
+            ref={inputRef}
             type="text"
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
-            placeholder="Ask about what you've read..."
+            placeholder={quote ? "Ask about this passage..." : "Ask about what you've read..."}
             className="w-full pl-4 pr-12 py-3 bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={!inputValue.trim() || isLoading}
-            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-white dark:bg-gray-700 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-white dark:bg-gray-700 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-gray-600 transition-colors"
+              title="Stop"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!inputValue.trim() && !quote}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-white dark:bg-gray-700 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
               <Send className="w-4 h-4" />
-            )}
-          </button>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Users, User, MapPin, Building2, X, Loader2, RefreshCw, Square, Search } from 'lucide-react';
+import { Book, BookEntity, EntityIndex, EntityKind, LlmSettings, ReadingPosition } from '../types';
+import { formatReadingPosition, getPageLabel } from '../services/readingPosition';
+import {
+  EntityProgress, getTrackedEntities, isEntityTrackingEnabled, setEntityTrackingEnabled, updateEntities
+} from '../services/entities';
+
+interface EntityPanelProps {
+  book: Book;
+  boundary: ReadingPosition;
+  llmSettings: LlmSettings;
+  isOpen: boolean;
+  onClose: () => void;
+  onSearch: (query: string) => void; // Find mentions of a name in the pages read
+}
+
+const KIND_FILTERS: { id: EntityKind | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'character', label: 'People' },
+  { id: 'place', label: 'Places' },
+  { id: 'organisation', label: 'Groups' },
+];
+
+const KIND_ICONS: Record<EntityKind, React.ElementType> = {
+  character: User,
+  place: MapPin,
+  organisation: Building2,
+};
+
+const EntityPanel: React.FC<EntityPanelProps> = ({ book, boundary, llmSettings, isOpen, onClose, onSearch }) => {
+  const [index, setIndex] = useState<EntityIndex | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [progress, setProgress] = useState<EntityProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<EntityKind | 'all'>('all');
+  const [filter, setFilter] = useState('');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [isTracking, setIsTracking] = useState(isEntityTrackingEnabled);
+  const abortRef = useRef<AbortController | null>(null);
+  const entityRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  // The latest boundary, for updates started from a button
+  const boundaryRef = useRef(boundary);
+  boundaryRef.current = boundary;
+
+  const isComic = book.fileType === 'cbz';
+
+  const runUpdate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const updated = await updateEntities(book, boundaryRef.current, llmSettings, {
+        force: true,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onUpdate: setIndex,
+      });
+      if (!controller.signal.aborted) setIndex(updated);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Could not update characters", e);
+        setError("The list couldn't be updated. Check the assistant settings and try again.");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsUpdating(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  // Brought up to date whenever the panel is opened, and as pages are turned while it is open
+  useEffect(() => {
+    if (!isOpen || isComic) return;
+    let cancelled = false;
+    getTrackedEntities(book, boundaryRef.current)
+      .then(stored => {
+        if (cancelled) return;
+        setIndex(stored);
+        runUpdate();
+      })
+      .catch(e => console.warn("Could not load characters", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, book.id, boundary.page]);
+
+  // Stops with the book, or when the panel closes
+  useEffect(() => {
+    if (!isOpen) abortRef.current?.abort();
+  }, [isOpen]);
+  useEffect(() => () => abortRef.current?.abort(), [book.id]);
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsUpdating(false);
+    setProgress(null);
+  };
+
+  const handleTrackingToggle = (enabled: boolean) => {
+    setIsTracking(enabled);
+    setEntityTrackingEnabled(enabled);
+  };
+
+  const handleShowEntity = (id: string) => {
+    setKindFilter('all');
+    setFilter('');
+    setFocusedId(id);
+    // After the filters are cleared, so the entry is in the list
+    requestAnimationFrame(() => entityRefs.current.get(id)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  };
+
+  const entities = index?.entities || [];
+  const names = new Map(entities.map(entity => [entity.id, entity.name]));
+  const filterText = filter.trim().toLowerCase();
+  const shownEntities = entities
+    .filter(entity => kindFilter === 'all' || entity.kind === kindFilter)
+    .filter(entity => !filterText || [entity.name, ...entity.aliases].some(name => name.toLowerCase().includes(filterText)))
+    .sort((a, b) => a.firstPage - b.firstPage || a.name.localeCompare(b.name));
+
+  const renderEntity = (entity: BookEntity) => {
+    const Icon = KIND_ICONS[entity.kind];
+    return (
+      <div
+        key={entity.id}
+        ref={element => {
+          if (element) entityRefs.current.set(entity.id, element);
+          else entityRefs.current.delete(entity.id);
+        }}
+        className={`px-3 py-2.5 rounded-lg border transition-colors ${
+          focusedId === entity.id
+            ? 'border-indigo-300 bg-indigo-50/60 dark:border-indigo-700 dark:bg-indigo-900/20'
+            : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-800'
+        }`}
+      >
+        <button
+          onClick={() => onSearch(entity.name)}
+          className="group flex items-center gap-2 w-full text-left"
+          title={`Find "${entity.name}" in the pages you have read`}
+        >
+          <Icon className="w-4 h-4 shrink-0 text-gray-400" />
+          <span className="font-medium text-sm text-gray-800 dark:text-gray-100 group-hover:text-indigo-600 dark:group-hover:text-indigo-400 truncate">
+            {entity.name}
+          </span>
+          <Search className="w-3 h-3 shrink-0 text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity" />
+        </button>
+
+        {entity.aliases.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1 ml-6">
+            {entity.aliases.map(alias => (
+              <button
+                key={alias}
+                onClick={() => onSearch(alias)}
+                className="px-1.5 py-0.5 text-[11px] rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/40"
+                title={`Find "${alias}" in the pages you have read`}
+              >
+                {alias}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {entity.description && (
+          <p className="mt-1.5 ml-6 text-sm text-gray-600 dark:text-gray-300 leading-snug">{entity.description}</p>
+        )}
+
+        {entity.relations.length > 0 && (
+          <ul className="mt-1.5 ml-6 space-y-0.5">
+            {entity.relations.filter(relation => names.has(relation.entityId)).map(relation => (
+              <li key={relation.entityId} className="text-xs text-gray-500 dark:text-gray-400">
+                {relation.label}{' '}
+                <button
+                  onClick={() => handleShowEntity(relation.entityId)}
+                  className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {names.get(relation.entityId)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="mt-1.5 ml-6 text-[11px] text-gray-400">First appears: {getPageLabel(book, entity.firstPage)}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={`fixed inset-y-0 left-0 w-96 max-w-full bg-white dark:bg-gray-900 shadow-2xl z-40 transform transition-transform duration-300 ease-in-out border-r border-gray-200 dark:border-gray-800 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+    >
+      <div className="flex flex-col h-full">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+                <Users className="w-5 h-5" /> Dramatis Personae
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                {index ? `As of ${formatReadingPosition(book, index.through)}` : 'People, places and groups you have met'}
+              </p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {entities.length > 0 && (
+            <>
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by name"
+                className="w-full px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <div className="flex gap-1">
+                {KIND_FILTERS.map(kind => (
+                  <button
+                    key={kind.id}
+                    onClick={() => setKindFilter(kind.id)}
+                    className={`flex-1 px-2 py-1 text-xs rounded-md transition-colors ${
+                      kindFilter === kind.id
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {kind.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {isUpdating && (
+            <div className="flex items-center gap-2 text-xs text-indigo-600 dark:text-indigo-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              <span className="flex-1 truncate">
+                {progress ? `Reading ${progress.label} (${progress.done + 1} of ${progress.total})…` : 'Catching up…'}
+              </span>
+              <button
+                onClick={handleStop}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title="Stop"
+              >
+                <Square className="w-3 h-3" /> Stop
+              </button>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+              <span className="flex-1">{error}</span>
+              <button onClick={runUpdate} className="p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20" title="Try again">
+                <RefreshCw className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3">
+          {isComic ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 p-2">Characters are found in the text of a book, and this one has none.</p>
+          ) : shownEntities.length > 0 ? (
+            <div className="space-y-1">{shownEntities.map(renderEntity)}</div>
+          ) : !isUpdating && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 p-2">
+              {entities.length > 0
+                ? 'Nothing matches the filter.'
+                : 'Nobody yet. As you read, the people, places and groups you meet are listed here, with only what you know of them so far.'}
+            </p>
+          )}
+        </div>
+
+        {!isComic && (
+          <div className="p-3 border-t border-gray-100 dark:border-gray-800">
+            <label className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={isTracking}
+                onChange={(e) => handleTrackingToggle(e.target.checked)}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                <span className="block font-medium">Keep the list up to date as I read</span>
+                <span className="block text-gray-400 dark:text-gray-500">New pages are read in the background with the assistant's model, a few at a time.</span>
+              </span>
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EntityPanel;
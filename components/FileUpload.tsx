@@ -1,39 +1,175 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, Book, FileText, Loader2, AlertCircle, Moon, Sun } from 'lucide-react';
-import { parseFile } from '../services/documentUtils';
-import { Book as BookType } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, Book, FileText, Loader2, AlertCircle, Moon, Sun, BookOpen, FolderOpen } from 'lucide-react';
+import { isComicImage, parseFile, parseImageFolder } from '../services/documentUtils';
+import { getPageUnit } from '../services/readingPosition';
+import {
+  StorageEstimate, deleteFromLibrary, getStorageEstimate, getStoredBook, hashFile, listLibrary
+} from '../services/libraryStore';
+import { BookExtraction, Book as BookType, LibraryEntry, ParsePhase, ParseProgress } from '../types';
+import LibraryShelf from './LibraryShelf';
 
 interface FileUploadProps {
-  onBookLoaded: (book: BookType) => void;
+  // `extraction` is passed when a PDF is opened while its text is still being extracted; it is the
+  // reader's to finish or stop from then on
+  onBookLoaded: (book: BookType, extraction?: BookExtraction) => void;
+  // Newer copies of such a book, with more of its text, until the complete book arrives
+  onBookUpdated: (book: BookType) => void;
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onToggleDarkMode }) => {
+const PHASE_LABELS: Record<ParsePhase, { label: string; unit: string }> = {
+  loading: { label: 'Opening file', unit: '' },
+  unpacking: { label: 'Unpacking files', unit: 'files' },
+  chapters: { label: 'Reading chapters', unit: 'chapters' },
+  text: { label: 'Extracting text', unit: 'pages' },
+  ocr: { label: 'Recognising scanned pages', unit: 'pages' },
+};
+
+// Title for a comic read from loose images: the folder's name, or the first image's without its extension
+const getFolderName = (files: File[]) =>
+  files[0].webkitRelativePath.split('/')[0] || files[0].name.replace(/\.[^.]+$/, '');
+
+const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, onBookUpdated, isDarkMode, onToggleDarkMode }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Parsed book awaiting confirmation, so the user can check they picked the right file
+  const [parsedBook, setParsedBook] = useState<BookType | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  // Resolves with the complete book while a PDF's text is still being extracted
+  const pendingBookRef = useRef<Promise<BookType> | null>(null);
+
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+
+  const refreshLibrary = async () => {
+    try {
+      setLibraryEntries(await listLibrary());
+      setStorage(await getStorageEstimate());
+    } catch (err) {
+      console.error("Could not load library", err);
+    }
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+    // A parse not yet handed over to the reader isn't needed once the shelf is gone
+    return () => parseAbortRef.current?.abort();
+  }, []);
+
+  // Several images, or a folder of them, are read as the pages of one comic
+  const handleFiles = async (files: File[]) => {
+    const isImageFolder = files.some(isComicImage);
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+    const isCurrent = () => parseAbortRef.current === controller;
 
-  const handleFile = async (file: File) => {
     setError(null);
+    setParsedBook(null);
+    setProgress(null);
     setIsLoading(true);
     
     try {
-      const book = await parseFile(file);
-      onBookLoaded(book);
+      // Books already in the library open as stored, with no need to parse them again
+      const sortedFiles = [...files].sort((a, b) =>
+        (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+      const id = await hashFile(isImageFolder ? new Blob(sortedFiles) : files[0]);
+      const stored = await getStoredBook(id).catch(() => null);
+      if (stored) {
+        if (isCurrent()) setParsedBook(stored);
+        return;
+      }
+
+      const options = {
+        signal: controller.signal,
+        onProgress: update => {
+          if (isCurrent()) setProgress(update);
+        },
+        // PDFs can be previewed and opened while the rest of their text is extracted
+        onBookReady: partialBook => {
+          if (!isCurrent()) return;
+          setParsedBook(partialBook);
+          setIsLoading(false);
+        },
+        onBookUpdate: updatedBook => {
+          // Once handed over, the book being read is updated instead
+          if (isCurrent()) setParsedBook(updatedBook);
+          else onBookUpdated(updatedBook);
+        },
+      };
+      const parsing = isImageFolder
+        ? parseImageFolder(sortedFiles, id, getFolderName(sortedFiles), options)
+        : parseFile(files[0], id, options);
+      pendingBookRef.current = parsing;
+      const book = await parsing;
+      if (isCurrent()) setParsedBook(book);
     } catch (err: any) {
+      if (controller.signal.aborted || !isCurrent()) return;
       console.error(err);
-      setError(err.message || 'Failed to parse file. Please ensure it is a valid PDF or EPUB.');
+      setParsedBook(null);
+      setError(err.message || 'Failed to parse file. Please ensure it is a valid PDF, EPUB, CBZ, FB2, HTML, Markdown or text file.');
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        setIsLoading(false);
+        setProgress(null);
+        pendingBookRef.current = null;
+        parseAbortRef.current = null;
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    parseAbortRef.current?.abort();
+    parseAbortRef.current = null;
+    pendingBookRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+    setParsedBook(null);
+  };
+
+  const handleStartReading = (book: BookType) => {
+    // Hand any unfinished extraction over to the reader rather than cancelling it
+    const completeBook = pendingBookRef.current;
+    const controller = parseAbortRef.current;
+    parseAbortRef.current = null;
+    pendingBookRef.current = null;
+    onBookLoaded(book, completeBook && controller ? { completeBook, controller } : undefined);
+  };
+
+  const progressInfo = progress && PHASE_LABELS[progress.phase];
+  const progressPercent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  const handleOpenFromLibrary = async (id: string) => {
+    setError(null);
+    try {
+      const book = await getStoredBook(id);
+      if (!book) throw new Error('This book is no longer in your library.');
+      onBookLoaded(book);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to open book from library.');
+      refreshLibrary();
     }
   };
 
+  const handleDeleteFromLibrary = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Remove "${entry.title}" and its reading progress from your library?`)) return;
+    try {
+      await deleteFromLibrary(entry.id);
+    } catch (err) {
+      console.error("Could not delete book", err);
+    }
+    refreshLibrary();
+  };
+
   const onDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleFile(file);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) handleFiles(files);
   }, []);
 
   const onDragOver = useCallback((e: React.DragEvent) => {
@@ -47,12 +183,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onTog
   }, []);
 
   const onInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) handleFiles(files);
+    // Allow picking the same file again after cancelling
+    e.target.value = '';
   };
 
   return (
-    <div className="h-full flex flex-col items-center justify-center p-6 bg-gradient-to-br from-indigo-50 to-stone-50 dark:from-gray-900 dark:to-gray-800 transition-colors duration-300 relative">
+    <div className="h-full overflow-y-auto flex flex-col items-center p-6 bg-gradient-to-br from-indigo-50 to-stone-50 dark:from-gray-900 dark:to-gray-800 transition-colors duration-300 relative">
       
       <button
         onClick={onToggleDarkMode}
@@ -66,7 +204,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onTog
         )}
       </button>
 
-      <div className="max-w-xl w-full text-center space-y-8">
+      <div className="max-w-xl w-full text-center space-y-8 my-auto">
         <div>
           <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-3 tracking-tight font-serif transition-colors">
             StorySoFar Reader
@@ -92,8 +230,95 @@ const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onTog
           {isLoading ? (
             <div className="flex flex-col items-center justify-center py-4">
               <Loader2 className="w-12 h-12 text-indigo-600 dark:text-indigo-400 animate-spin mb-4" />
-              <p className="text-gray-600 dark:text-gray-300 font-medium">Processing your book...</p>
-              <p className="text-gray-400 dark:text-gray-500 text-sm mt-2">This usually takes a few seconds.</p>
+              <p className="text-gray-600 dark:text-gray-300 font-medium">
+                {progressInfo ? `${progressInfo.label}...` : 'Processing your book...'}
+              </p>
+              {progress && progress.total > 1 ? (
+                <>
+                  <div className="w-full max-w-xs h-2 mt-4 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-500 transition-all duration-200 ease-out"
+                      style={{ width: `${progressPercent}%` }}
+                    />
+                  </div>
+                  <p className="text-gray-400 dark:text-gray-500 text-sm mt-2 tabular-nums">
+                    {progress.done} of {progress.total} {progressInfo?.unit}
+                  </p>
+                </>
+              ) : (
+                <p className="text-gray-400 dark:text-gray-500 text-sm mt-2">This usually takes a few seconds.</p>
+              )}
+              <button
+                onClick={handleCancel}
+                className="mt-4 px-4 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 font-medium rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : parsedBook ? (
+            <div className="flex flex-col sm:flex-row gap-6 text-left">
+              {parsedBook.metadata.coverImage ? (
+                <img
+                  src={parsedBook.metadata.coverImage}
+                  alt={`Cover of ${parsedBook.title}`}
+                  className="w-32 self-center sm:self-start rounded-lg shadow-md border border-gray-200 dark:border-gray-700"
+                />
+              ) : (
+                <div className="w-32 h-44 shrink-0 self-center sm:self-start rounded-lg bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400">
+                  <Book className="w-10 h-10" />
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <h3 className="text-xl font-semibold text-gray-800 dark:text-white font-serif transition-colors">
+                  {parsedBook.title}
+                </h3>
+                {parsedBook.metadata.author && (
+                  <p className="text-gray-600 dark:text-gray-300 mt-1">{parsedBook.metadata.author}</p>
+                )}
+
+                <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                  {parsedBook.metadata.publisher && (<><dt className="font-medium">Publisher</dt><dd className="truncate">{parsedBook.metadata.publisher}</dd></>)}
+                  {parsedBook.metadata.publishedDate && (<><dt className="font-medium">Published</dt><dd>{parsedBook.metadata.publishedDate}</dd></>)}
+                  {parsedBook.metadata.language && (<><dt className="font-medium">Language</dt><dd>{parsedBook.metadata.language}</dd></>)}
+                  {parsedBook.metadata.isbn && (<><dt className="font-medium">ISBN</dt><dd className="font-mono">{parsedBook.metadata.isbn}</dd></>)}
+                  <dt className="font-medium">{getPageUnit(parsedBook)}s</dt><dd>{parsedBook.totalPages}</dd>
+                </dl>
+
+                {parsedBook.metadata.description && (
+                  <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 line-clamp-3">{parsedBook.metadata.description}</p>
+                )}
+
+                {(progress?.phase === 'text' || progress?.phase === 'ocr') && (
+                  <div className="mt-4">
+                    <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-indigo-500 transition-all duration-200 ease-out"
+                        style={{ width: `${progressPercent}%` }}
+                      />
+                    </div>
+                    <p className="mt-1 text-xs text-gray-400 dark:text-gray-500 tabular-nums">
+                      {progressInfo?.label}: {progress.done} of {progress.total} pages. You can start reading now.
+                    </p>
+                  </div>
+                )}
+
+                <div className="mt-6 flex flex-wrap gap-3">
+                  <button
+                    onClick={() => handleStartReading(parsedBook)}
+                    className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white font-medium rounded-xl transition-colors shadow-md hover:shadow-xl flex items-center gap-2"
+                  >
+                    <BookOpen className="w-4 h-4" />
+                    Start Reading
+                  </button>
+                  <button
+                    onClick={handleCancel}
+                    className="px-5 py-2.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 font-medium rounded-xl transition-colors"
+                  >
+                    Choose another file
+                  </button>
+                </div>
+              </div>
             </div>
           ) : (
             <>
@@ -110,21 +335,36 @@ const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onTog
                 Upload your book
               </h3>
               <p className="text-gray-500 dark:text-gray-400 mb-8 max-w-xs mx-auto transition-colors">
-                Drag and drop your PDF or EPUB file here, or click to browse.
+                Drag and drop a PDF, EPUB, CBZ, FB2, HTML, Markdown or plain text file here, or the page images of a comic, or click to browse.
               </p>
 
-              <label className="relative inline-flex cursor-pointer">
-                <input
-                  type="file"
-                  className="hidden"
-                  accept=".pdf,.epub"
-                  onChange={onInputChange}
-                />
-                <span className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white font-medium rounded-xl transition-colors shadow-md hover:shadow-xl flex items-center gap-2">
-                  <Upload className="w-4 h-4" />
-                  Select File
-                </span>
-              </label>
+              <div className="flex flex-wrap justify-center gap-3">
+                <label className="relative inline-flex cursor-pointer">
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept=".pdf,.epub,.cbz,.fb2,.html,.htm,.xhtml,.md,.markdown,.txt,image/*"
+                    multiple
+                    onChange={onInputChange}
+                  />
+                  <span className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white font-medium rounded-xl transition-colors shadow-md hover:shadow-xl flex items-center gap-2">
+                    <Upload className="w-4 h-4" />
+                    Select File
+                  </span>
+                </label>
+                <label className="relative inline-flex cursor-pointer" title="Read a folder of page images as a comic">
+                  <input
+                    type="file"
+                    className="hidden"
+                    ref={input => { if (input) input.webkitdirectory = true; }}
+                    onChange={onInputChange}
+                  />
+                  <span className="px-6 py-3 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 font-medium rounded-xl transition-colors flex items-center gap-2">
+                    <FolderOpen className="w-4 h-4" />
+                    Select Folder
+                  </span>
+                </label>
+              </div>
             </>
           )}
 
@@ -136,20 +376,31 @@ const FileUpload: React.FC<FileUploadProps> = ({ onBookLoaded, isDarkMode, onTog
           )}
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-left">
-          <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
-            <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Spoiler-Free</h4>
-            <p className="text-xs text-gray-500 dark:text-gray-400">The AI strictly tracks your reading progress page by page.</p>
-          </div>
-          <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
-            <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Page Aware</h4>
-            <p className="text-xs text-gray-500 dark:text-gray-400">Ask specific questions about the context you just read.</p>
+        {libraryEntries.length > 0 ? (
+          <div className="pt-8">
+            <LibraryShelf
+              entries={libraryEntries}
+              storage={storage}
+              onOpen={handleOpenFromLibrary}
+              onDelete={handleDeleteFromLibrary}
+            />
           </div>
-          <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
-            <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Summarization</h4>
-            <p className="text-xs text-gray-500 dark:text-gray-400">Get recaps of the story solely based on read pages.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-left">
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
+              <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Spoiler-Free</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">The AI strictly tracks your reading progress page by page.</p>
+            </div>
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
+              <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Page Aware</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Ask specific questions about the context you just read.</p>
+            </div>
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
+              <h4 className="font-semibold text-gray-800 dark:text-white mb-1">Summarization</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Get recaps of the story solely based on read pages.</p>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Copy, MessageCircleQuestion, StickyNote, Trash2, X } from 'lucide-react';
+import { HighlightColor } from '../types';
+import { HIGHLIGHT_COLORS } from '../services/highlights';
+
+interface HighlightPopoverProps {
+  anchorRect: DOMRect; // Viewport rect of the selection or highlight to attach to
+  color?: HighlightColor; // Set when editing an existing highlight
+  note?: string;
+  onSave: (color: HighlightColor, note?: string) => void;
+  onDelete?: () => void;
+  onCopy?: () => void; // Set for a fresh selection
+  onAsk?: () => void; // Quotes the text in the chat, to ask the assistant about it
+  onClose: () => void;
+}
+
+export const HIGHLIGHT_SWATCH_CLASSES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300',
+  green: 'bg-green-300',
+  blue: 'bg-sky-300',
+  pink: 'bg-pink-300',
+};
+
+const POPOVER_WIDTH = 280;
+
+const HighlightPopover: React.FC<HighlightPopoverProps> = ({ anchorRect, color, note, onSave, onDelete, onCopy, onAsk, onClose }) => {
+  const [selectedColor, setSelectedColor] = useState<HighlightColor>(color || 'yellow');
+  const [noteText, setNoteText] = useState(note || '');
+  const [isEditingNote, setIsEditingNote] = useState(!!note);
+
+  // Sit above the anchor, or below it when there is no room at the top of the viewport
+  const left = Math.min(Math.max(anchorRect.left + anchorRect.width / 2 - POPOVER_WIDTH / 2, 8), window.innerWidth - POPOVER_WIDTH - 8);
+  const placeBelow = anchorRect.top < 160;
+  const style: React.CSSProperties = placeBelow
+    ? { left, top: anchorRect.bottom + 8, width: POPOVER_WIDTH }
+    : { left, bottom: window.innerHeight - anchorRect.top + 8, width: POPOVER_WIDTH };
+
+  const handleColorClick = (newColor: HighlightColor) => {
+    setSelectedColor(newColor);
+    // Without a note, picking a colour is all it takes
+    if (!isEditingNote) onSave(newColor, note);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} />
+      <div
+        className="fixed z-50 bg-white dark:bg-gray-800 border border-stone-200 dark:border-gray-700 rounded-xl shadow-xl p-2 animate-in fade-in zoom-in-95 duration-100"
+        style={style}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-1">
+          {HIGHLIGHT_COLORS.map(option => (
+            <button
+              key={option}
+              onClick={() => handleColorClick(option)}
+              className={`w-6 h-6 rounded-full ${HIGHLIGHT_SWATCH_CLASSES[option]} transition-transform hover:scale-110 ${selectedColor === option && (color || isEditingNote) ? 'ring-2 ring-offset-1 ring-indigo-500 dark:ring-offset-gray-800' : ''}`}
+              title={`Highlight ${option}`}
+            />
+          ))}
+          <div className="w-px h-5 bg-stone-200 dark:bg-gray-700 mx-1" />
+          <button
+            onClick={() => setIsEditingNote(prev => !prev)}
+            className={`p-1.5 rounded-md transition-colors ${isEditingNote ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-600 dark:text-indigo-400' : 'text-stone-500 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-gray-700'}`}
+            title="Add note"
+          >
+            <StickyNote className="w-4 h-4" />
+          </button>
+          {onCopy && (
+            <button
+              onClick={onCopy}
+              className="p-1.5 rounded-md text-stone-500 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-gray-700 transition-colors"
+              title="Copy"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          )}
+          {onAsk && (
+            <button
+              onClick={onAsk}
+              className="p-1.5 rounded-md text-stone-500 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-gray-700 transition-colors"
+              title="Ask about this"
+            >
+              <MessageCircleQuestion className="w-4 h-4" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="p-1.5 rounded-md text-stone-500 dark:text-stone-300 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 transition-colors"
+              title="Remove highlight"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto p-1.5 rounded-md text-stone-400 hover:bg-stone-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {isEditingNote && (
+          <div className="mt-2 space-y-2">
+            <textarea
+              value={noteText}
+              onChange={e => setNoteText(e.target.value)}
+              placeholder="Write a note..."
+              rows={3}
+              autoFocus
+              className="w-full px-2 py-1.5 text-sm bg-stone-50 dark:bg-gray-900 border border-stone-200 dark:border-gray-700 rounded-lg text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 resize-none"
+            />
+            <button
+              onClick={() => onSave(selectedColor, noteText.trim() || undefined)}
+              className="w-full py-1.5 text-xs font-medium bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default HighlightPopover;
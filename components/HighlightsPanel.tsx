@@ -0,0 +1,89 @@
+import React from 'react';
+import { Highlighter, X, FileDown, Braces } from 'lucide-react';
+import { Book, Highlight } from '../types';
+import { getPageLabel } from '../services/readingPosition';
+import {
+  downloadTextFile, exportHighlightsJson, exportHighlightsMarkdown
+} from '../services/highlights';
+import { HIGHLIGHT_SWATCH_CLASSES } from './HighlightPopover';
+
+interface HighlightsPanelProps {
+  book: Book;
+  highlights: Highlight[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (highlight: Highlight) => void;
+}
+
+const HighlightsPanel: React.FC<HighlightsPanelProps> = ({ book, highlights, isOpen, onClose, onSelect }) => {
+  const baseName = book.title.replace(/[^\w\- ]+/g, '').trim() || 'highlights';
+
+  return (
+    <>
+      <div
+        className={`fixed inset-y-0 left-0 w-80 bg-white dark:bg-gray-900 shadow-2xl z-40 transform transition-transform duration-300 ease-in-out border-r border-gray-200 dark:border-gray-800 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+      >
+        <div className="flex flex-col h-full">
+          <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+              <Highlighter className="w-5 h-5" /> Highlights & Notes
+            </h3>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2">
+            {highlights.length > 0 ? (
+              <div className="space-y-1">
+                {highlights.map(highlight => (
+                  <button
+                    key={highlight.id}
+                    onClick={() => onSelect(highlight)}
+                    className="w-full text-left px-3 py-2 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex gap-3"
+                  >
+                    <span className={`w-1 shrink-0 rounded-full ${HIGHLIGHT_SWATCH_CLASSES[highlight.color]}`} />
+                    <span className="min-w-0 flex-1">
+                      <span className="block text-xs text-gray-400 mb-0.5">{getPageLabel(book, highlight.page)}</span>
+                      <span className="block text-sm text-gray-700 dark:text-gray-300 line-clamp-3 font-serif">{highlight.quote}</span>
+                      {highlight.note && (
+                        <span className="block mt-1 text-xs text-indigo-700 dark:text-indigo-300 line-clamp-3">{highlight.note}</span>
+                      )}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center p-8 text-gray-500 dark:text-gray-400 text-sm">
+                Select text on the page to highlight it or add a note.
+              </div>
+            )}
+          </div>
+
+          {highlights.length > 0 && (
+            <div className="p-3 border-t border-gray-100 dark:border-gray-800 flex gap-2">
+              <button
+                onClick={() => downloadTextFile(`${baseName}.md`, exportHighlightsMarkdown(book, highlights), 'text/markdown')}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2 text-xs font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <FileDown className="w-4 h-4" /> Markdown
+              </button>
+              <button
+                onClick={() => downloadTextFile(`${baseName}.json`, exportHighlightsJson(book, highlights), 'application/json')}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2 text-xs font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <Braces className="w-4 h-4" /> JSON
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-30" onClick={onClose} />
+      )}
+    </>
+  );
+};
+
+export default HighlightsPanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Book, Trash2, HardDrive } from 'lucide-react';
+import { LibraryEntry } from '../types';
+import { StorageEstimate } from '../services/libraryStore';
+
+interface LibraryShelfProps {
+  entries: LibraryEntry[];
+  storage: StorageEstimate | null;
+  onOpen: (id: string) => void;
+  onDelete: (entry: LibraryEntry) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const formatLastOpened = (timestamp: number) => {
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days < 7) return `${days} days ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const LibraryShelf: React.FC<LibraryShelfProps> = ({ entries, storage, onOpen, onDelete }) => {
+  return (
+    <div className="text-left">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-white font-serif">Your Library</h2>
+        {storage && storage.quota > 0 && (
+          <span className="text-xs text-gray-400 dark:text-gray-500 flex items-center gap-1" title="Browser storage used by this app">
+            <HardDrive className="w-3 h-3" />
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+        {entries.map(entry => {
+          const percent = Math.round(entry.progress * 100);
+          return (
+            <div key={entry.id} className="group relative flex flex-col">
+              <button
+                onClick={() => onOpen(entry.id)}
+                className="relative aspect-[2/3] rounded-lg overflow-hidden shadow-sm border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:shadow-lg hover:-translate-y-0.5 transition-all"
+                title={`Open ${entry.title}`}
+              >
+                {entry.coverImage ? (
+                  <img src={entry.coverImage} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400">
+                    <Book className="w-8 h-8" />
+                    <span className="text-xs font-serif text-center line-clamp-3">{entry.title}</span>
+                  </div>
+                )}
+                <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/10">
+                  <div className="h-full bg-indigo-500" style={{ width: `${percent}%` }} />
+                </div>
+              </button>
+
+              <button
+                onClick={() => onDelete(entry)}
+                className="absolute top-1.5 right-1.5 p-1.5 rounded-md bg-white/90 dark:bg-gray-900/90 text-gray-500 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity shadow-sm"
+                title="Remove from library"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+
+              <div className="mt-2 min-w-0">
+                <p className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate" title={entry.title}>{entry.title}</p>
+                {entry.author && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{entry.author}</p>
+                )}
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                  {percent}% · {formatLastOpened(entry.lastOpenedAt)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryShelf;
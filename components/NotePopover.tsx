@@ -0,0 +1,75 @@
+import React, { useEffect } from 'react';
+import { ArrowRight, X } from 'lucide-react';
+
+interface NotePopoverProps {
+  anchorRect: DOMRect; // Viewport rect of the note reference
+  html: string; // Sanitized note markup
+  pageLabel: string; // Where the note lives, e.g. "Page 212"
+  onGoToNote: () => void;
+  onLinkClick: (href: string) => void; // Links inside the note, e.g. "see chapter 3"
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 340;
+
+const NotePopover: React.FC<NotePopoverProps> = ({ anchorRect, html, pageLabel, onGoToNote, onLinkClick, onClose }) => {
+  // Sit below the reference, or above it when it is near the bottom of the viewport
+  const left = Math.min(Math.max(anchorRect.left + anchorRect.width / 2 - POPOVER_WIDTH / 2, 8), window.innerWidth - POPOVER_WIDTH - 8);
+  const placeAbove = anchorRect.bottom > window.innerHeight - 240;
+  const style: React.CSSProperties = placeAbove
+    ? { left, bottom: window.innerHeight - anchorRect.top + 8, width: POPOVER_WIDTH }
+    : { left, top: anchorRect.bottom + 8, width: POPOVER_WIDTH };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleContentClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest('a[href]');
+    const href = link?.getAttribute('href');
+    if (!href || !href.startsWith('#')) return;
+    e.preventDefault();
+    onLinkClick(href);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} />
+      <div
+        className="fixed z-50 bg-white dark:bg-gray-800 border border-stone-200 dark:border-gray-700 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100"
+        style={style}
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Note"
+      >
+        <div
+          className="max-h-60 overflow-y-auto px-4 pt-3 pb-2 text-sm leading-relaxed text-gray-800 dark:text-gray-200 [&_a]:text-indigo-600 dark:[&_a]:text-indigo-400 [&_p]:mb-2 [&_img]:max-w-full"
+          onClick={handleContentClick}
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+        <div className="flex items-center justify-between gap-2 px-2 py-1.5 border-t border-stone-100 dark:border-gray-700">
+          <button
+            onClick={onGoToNote}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-stone-500 dark:text-stone-300 hover:text-indigo-600 dark:hover:text-indigo-400 rounded-md hover:bg-stone-100 dark:hover:bg-gray-700 transition-colors"
+            title="Open the page this note is on"
+          >
+            {pageLabel} <ArrowRight className="w-3 h-3" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-md text-stone-400 hover:bg-stone-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default NotePopover;
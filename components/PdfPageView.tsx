@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { OcrWord, PageSize } from '../types';
+import { getCachedPdfPage, getPdfTextContent, loadPdfPageText, renderPdfPage } from '../services/pdfDocument';
+import { PdfPageText } from '../services/pdfLayout';
+
+interface PdfPageViewProps {
+  pdf: any;
+  pageIndex: number;
+  size: PageSize; // Unscaled, so the page takes its place before it has rendered
+  scale: number;
+  ocrWords?: OcrWord[]; // Text layer for a scanned page
+  // Receives the page's text layer once it is built, and null while it is being rebuilt or removed.
+  // Layers drawn from the PDF's own text come with the page text they were laid out into.
+  onTextLayerChange: (pageIndex: number, textLayer: HTMLElement | null, pageText?: PdfPageText) => void;
+  onRendered?: (pageIndex: number) => void;
+}
+
+interface TextSpan {
+  span: HTMLElement;
+  width: number; // Width the text takes up on the page, in CSS pixels
+  angle: number; // Rotation in radians, clockwise
+}
+
+// Stretches each span to the width of its text on the page, so selections and highlights cover
+// exactly what is drawn underneath. They are measured after they have all been added, so the layout
+// is only worked out once, and before they are rotated, so the measurement is along the text.
+const fitSpans = (spans: TextSpan[]) => {
+  const measured = spans.map(({ span }) => span.getBoundingClientRect().width);
+  spans.forEach(({ span, width, angle }, i) => {
+    const transforms: string[] = [];
+    if (angle !== 0) transforms.push(`rotate(${angle}rad)`);
+    if (measured[i] > 0 && width > 0) transforms.push(`scaleX(${width / measured[i]})`);
+    if (transforms.length > 0) span.style.transform = transforms.join(' ');
+  });
+};
+
+// Text layer for a scanned PDF page: each recognised word sits over its image
+const appendOcrWordSpans = (container: HTMLElement, words: OcrWord[], scale: number) => {
+  const spans = words.map(word => {
+    const span = document.createElement('span');
+    span.textContent = word.text;
+    span.style.left = `${word.x0 * scale}px`;
+    span.style.top = `${word.y0 * scale}px`;
+    span.style.fontSize = `${(word.y1 - word.y0) * scale}px`;
+    span.style.fontFamily = 'sans-serif';
+    container.appendChild(span);
+    return { span, width: (word.x1 - word.x0) * scale, angle: 0 };
+  });
+  fitSpans(spans);
+};
+
+// Text layer from the PDF's own text, laid out the way PDF.js lays out its text layer: each item
+// is placed by its transform in the viewport (which takes care of page rotation and flipping the y
+// axis), with its top at the font's ascent above the baseline. Each span is marked with the index of
+// its item, which is how the page's text (see pdfLayout.ts) refers to it.
+const appendTextContentSpans = (container: HTMLElement, textContent: any, viewport: any) => {
+  const spans: TextSpan[] = [];
+  textContent.items.forEach((item: any, index: number) => {
+    // Line ends become line breaks, so copied text keeps its lines
+    if (item.hasEOL && !item.str) {
+      container.appendChild(document.createElement('br'));
+      return;
+    }
+    if (!item.str) return;
+
+    const style = textContent.styles[item.fontName] || {};
+    // Item transform: [scaleX, skewY, skewX, scaleY, x, y], from text space to PDF space
+    const tx = window.pdfjsLib.Util.transform(viewport.transform, item.transform);
+    let angle = Math.atan2(tx[1], tx[0]);
+    if (style.vertical) angle += Math.PI / 2;
+    const fontHeight = Math.hypot(tx[2], tx[3]);
+    // Share of the font size above the baseline; fonts that don't say are assumed to be typical
+    const ascent = fontHeight * (style.ascent || (style.descent ? 1 + style.descent : 0.8));
+    const left = angle === 0 ? tx[4] : tx[4] + ascent * Math.sin(angle);
+    const top = angle === 0 ? tx[5] - ascent : tx[5] - ascent * Math.cos(angle);
+
+    const span = document.createElement('span');
+    span.textContent = item.str;
+    span.dataset.item = String(index);
+    span.style.left = `${left}px`;
+    span.style.top = `${top}px`;
+    span.style.fontSize = `${fontHeight}px`;
+    // PDF.js maps the embedded font to the closest generic family
+    span.style.fontFamily = style.fontFamily || 'sans-serif';
+    container.appendChild(span);
+    if (item.hasEOL) container.appendChild(document.createElement('br'));
+    spans.push({ span, width: (style.vertical ? item.height : item.width) * viewport.scale, angle });
+  });
+  fitSpans(spans);
+};
+
+// One PDF page: drawn from the shared render cache, with its text layer on top.
+// Moving to another page or scale cancels a render still in progress.
+const PdfPageView: React.FC<PdfPageViewProps> = ({
+  pdf, pageIndex, size, scale, ocrWords, onTextLayerChange, onRendered
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  // Callbacks change on every render of the Reader; the render reads the latest ones through this ref
+  const handlersRef = useRef({ onTextLayerChange, onRendered });
+  handlersRef.current = { onTextLayerChange, onRendered };
+
+  const width = Math.floor(size.width * scale);
+  const height = Math.floor(size.height * scale);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const pixelScale = scale * (window.devicePixelRatio || 1);
+    const cached = getCachedPdfPage(pdf, pageIndex, pixelScale);
+    setIsRendering(!cached);
+
+    const render = async () => {
+      try {
+        // A page already being rendered ahead is joined rather than started again
+        const bitmap = cached || await renderPdfPage(pdf, pageIndex, pixelScale, signal);
+        const canvas = canvasRef.current;
+        if (signal.aborted || !canvas) return;
+        // Drawn before anything else is awaited: the cache closes bitmaps it evicts to make room for
+        // other pages, so this one may not outlast the wait for the text
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        setIsRendering(false);
+
+        const textContent = ocrWords ? null : await getPdfTextContent(pdf, pageIndex);
+        // Without it the text layer is still usable, just matched to the page's text less closely
+        const pageText = ocrWords ? undefined : await loadPdfPageText(pdf, pageIndex).catch(e => {
+          console.warn("Could not lay out the page's text", e);
+          return undefined;
+        });
+        const viewport = (await pdf.getPage(pageIndex + 1)).getViewport({ scale });
+        const textLayer = textLayerRef.current;
+        if (signal.aborted || !textLayer) return;
+
+        textLayer.innerHTML = '';
+        if (ocrWords) appendOcrWordSpans(textLayer, ocrWords, scale);
+        else appendTextContentSpans(textLayer, textContent, viewport);
+        // Stretches under the pointer while selecting, so dragging across a gap between lines
+        // doesn't jump the selection to the end of the page
+        const endOfContent = document.createElement('div');
+        endOfContent.className = 'endOfContent';
+        textLayer.appendChild(endOfContent);
+
+        handlersRef.current.onTextLayerChange(pageIndex, textLayer, pageText);
+        handlersRef.current.onRendered?.(pageIndex);
+      } catch (e) {
+        if (signal.aborted) return;
+        console.error("Error rendering PDF page", e);
+        setIsRendering(false);
+      }
+    };
+    render();
+    return () => {
+      controller.abort();
+      handlersRef.current.onTextLayerChange(pageIndex, null);
+    };
+  }, [pdf, pageIndex, scale, ocrWords]);
+
+  useEffect(() => {
+    const textLayer = textLayerRef.current;
+    if (!textLayer) return;
+    const startSelecting = () => textLayer.classList.add('selecting');
+    const stopSelecting = () => textLayer.classList.remove('selecting');
+    textLayer.addEventListener('mousedown', startSelecting);
+    document.addEventListener('mouseup', stopSelecting);
+    return () => {
+      textLayer.removeEventListener('mousedown', startSelecting);
+      document.removeEventListener('mouseup', stopSelecting);
+    };
+  }, []);
+
+  return (
+    <div className="relative bg-white" style={{ width, height }}>
+      <canvas ref={canvasRef} className="block" style={{ width, height }} />
+      {/* Text Layer Overlay */}
+      <div ref={textLayerRef} className="textLayer" style={{ width, height }} />
+
+      {isRendering && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/80 z-10">
+          <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfPageView;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, X, Loader2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Book, LlmSettings, ReadingPosition } from '../types';
+import { RecapProgress, composeBookRecap } from '../services/recaps';
+
+interface PreviouslyOnCardProps {
+  book: Book;
+  boundary: ReadingPosition;
+  positionLabel: string;
+  llmSettings: LlmSettings;
+  onOpenRecap: () => void;
+  onClose: () => void;
+}
+
+// Shown when a book is reopened after a while away: a recap of the story up to where the reader stopped
+const PreviouslyOnCard: React.FC<PreviouslyOnCardProps> = ({ book, boundary, positionLabel, llmSettings, onOpenRecap, onClose }) => {
+  const [recap, setRecap] = useState('');
+  const [progress, setProgress] = useState<RecapProgress | null>(null);
+  const [isWriting, setIsWriting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Written once, for where the reader was when the book opened
+  useEffect(() => {
+    const controller = new AbortController();
+    composeBookRecap(book, boundary, llmSettings, {
+      signal: controller.signal,
+      onChunk: setRecap,
+      onProgress: setProgress,
+    })
+      .then(text => {
+        if (!text) setError("There isn't enough read yet to recap.");
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error("Could not write the recap", e);
+        setError("The recap couldn't be written. Check the assistant settings and try again.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsWriting(false);
+      });
+    return () => controller.abort();
+  }, [book.id]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 z-30 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-start justify-between px-4 pt-4">
+        <div>
+          <h3 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+            <ScrollText className="w-4 h-4 text-indigo-600 dark:text-indigo-400" /> Previously in {book.title}…
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">Welcome back. You stopped at {positionLabel}.</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 max-h-64 overflow-y-auto">
+        {recap ? (
+          <div className="prose prose-sm dark:prose-invert max-w-none font-serif text-gray-700 dark:text-gray-300">
+            <ReactMarkdown>{recap}</ReactMarkdown>
+          </div>
+        ) : isWriting ? (
+          <div className="flex items-center gap-2 text-xs text-indigo-600 dark:text-indigo-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {progress && progress.total > 0
+              ? `Catching up: ${progress.label} (${progress.done + 1} of ${progress.total})…`
+              : 'Catching up on what you have read…'}
+          </div>
+        ) : error && (
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 px-4 pb-4">
+        <button
+          onClick={onOpenRecap}
+          className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Open in Story So Far
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+        >
+          Keep reading
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PreviouslyOnCard;
@@ -1,45 +1,182 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { 
   ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut, Minimize, Maximize, 
-  MoveHorizontal, Sun, Moon, Type, Keyboard, X, List, Menu, Home
+  MoveHorizontal, Sun, Moon, Type, Keyboard, X, List, Menu, Home, Eye, Highlighter, Search, ChevronUp, ChevronDown,
+  ShieldCheck, File, Rows3, BookOpen, ScrollText, Users
 } from 'lucide-react';
-import { Book, TocItem } from '../types';
+import { Book, Citation, Highlight, HighlightColor, PageSize, ReadingPosition, SearchHit, TocItem, ViewMode } from '../types';
+import {
+  TextAnchor, TextMap, buildPdfTextMap, buildTextMap, createAnchor, offsetsToRanges, rangeToOffsets, resolveAnchor, unwrapAll, wrapRange
+} from '../services/textAnchors';
+import HighlightPopover from './HighlightPopover';
+import HighlightsPanel from './HighlightsPanel';
+import SearchPanel from './SearchPanel';
+import ChapterFrame from './ChapterFrame';
+import PdfPageView from './PdfPageView';
+import NotePopover from './NotePopover';
+import { searchBook } from '../services/bookSearch';
+import { sanitizeHtml } from '../services/htmlSanitizer';
+import { TYPOGRAPHY_OVERRIDE_CSS, createBookStylesheet, parseInternalHref } from '../services/epubContent';
+import { extractNote, isNoteReference } from '../services/footnotes';
+import { getPageLabel, isReflowable } from '../services/readingPosition';
+import { acquirePdfDocument, getPdfPageSize, prerenderPdfPages, releasePdfDocument } from '../services/pdfDocument';
+import { PdfPageText } from '../services/pdfLayout';
 
 interface ReaderProps {
   book: Book;
   currentPage: number;
   onPageChange: (page: number) => void;
+  // EPUB only: characters of the current chapter scrolled past (undefined once the whole chapter was seen)
+  onReadOffsetChange?: (page: number, charOffset: number | undefined) => void;
+  // How many pages are on screen at once; in a two-page spread the current page is the later one
+  onPagesPerViewChange?: (pagesPerView: number) => void;
+  // True when the current page lies beyond the read boundary (reached by jumping ahead)
+  isPeeking?: boolean;
+  readBoundary: ReadingPosition; // Search results past this point stay hidden unless asked for
+  boundaryLabel?: string;
+  onConfirmPeek?: () => void;
+  highlights: Highlight[]; // All highlights for this book
+  onAddHighlight: (page: number, anchor: TextAnchor, color: HighlightColor, note?: string) => void;
+  onUpdateHighlight: (id: string, changes: { color: HighlightColor; note?: string }) => void;
+  onDeleteHighlight: (id: string) => void;
+  onAskAboutSelection?: (quote: string) => void;
+  shownCitation?: Citation | null; // Passage cited by an answer, marked and scrolled to once its page is on screen
+  onOpenRecap?: () => void;
+  onOpenEntities?: () => void;
+  searchRequest?: { query: string } | null; // Opens search for this query, e.g. a name from the character list
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
   onBackToHome: () => void;
 }
 
-const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+const HIGHLIGHT_SELECTOR = 'mark[data-highlight-id]';
+const SEARCH_SELECTOR = 'mark.search-hit';
+const CITATION_SELECTOR = 'mark.citation-passage';
+const SANDBOX_SETTING_KEY = 'sandbox_chapters';
+const TYPOGRAPHY_OVERRIDE_SETTING_KEY = 'override_book_typography';
+const VIEW_MODE_SETTING_KEY = 'reader_view_mode';
+const COVER_ALONE_SETTING_KEY = 'spread_cover_alone';
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: typeof File }[] = [
+  { mode: 'single', label: 'Single page', icon: File },
+  { mode: 'continuous', label: 'Continuous scroll', icon: Rows3 },
+  { mode: 'spread', label: 'Two-page spread', icon: BookOpen },
+];
+
+// US Letter, in PDF points; stands in for pages whose size isn't known yet
+const DEFAULT_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+// In continuous mode, pages within this many screen heights of the viewport are kept rendered
+const CONTINUOUS_OVERSCAN = 1;
+// PDF page sizes are stored as they arrive, but at most this often, so a long book doesn't re-render
+// the Reader for every page
+const PAGE_SIZE_FLUSH_MS = 250;
+
+const loadViewMode = (): ViewMode => {
+  const saved = localStorage.getItem(VIEW_MODE_SETTING_KEY);
+  return VIEW_MODES.some(option => option.mode === saved) ? saved as ViewMode : 'single';
+};
+
+// The pages shown together with `page` in a two-page spread, in reading order. With the cover on
+// its own, spreads pair pages 1-2, 3-4 and so on, as in a printed book.
+const getSpreadPages = (page: number, totalPages: number, coverAlone: boolean): number[] => {
+  if (coverAlone && page === 0) return [0];
+  const first = coverAlone ? page - ((page - 1) % 2) : page - (page % 2);
+  return first + 1 < totalPages ? [first, first + 1] : [first];
+};
+
+// Rects measured inside a chapter frame are relative to the frame; shift them into the Reader's viewport
+const toReaderRect = (rect: DOMRect, node: Node): DOMRect => {
+  const frame = node.ownerDocument?.defaultView?.frameElement;
+  if (!frame) return rect;
+  const offset = frame.getBoundingClientRect();
+  return new DOMRect(rect.left + offset.left, rect.top + offset.top, rect.width, rect.height);
+};
+
+// Counts the whitespace-normalised characters of the container's text that sit above `viewportBottom`,
+// so the result lines up with the offsets in Book.content.
+const measureReadOffset = (container: HTMLElement, viewportBottom: number): number => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let rawText = '';
+  let node: Node | null;
+  while ((node = walker.nextNode())) {
+    const text = node.textContent || '';
+    range.selectNodeContents(node);
+    const rect = range.getBoundingClientRect();
+    // Collapsed whitespace and hidden nodes have no box; they don't affect the count after normalising
+    if (rect.width === 0 && rect.height === 0) {
+      rawText += text;
+      continue;
+    }
+    if (rect.top >= viewportBottom) break;
+    if (rect.bottom <= viewportBottom) {
+      rawText += text;
+      continue;
+    }
+    // The node straddles the fold: estimate by the share of its height that is visible
+    const visibleShare = (viewportBottom - rect.top) / rect.height;
+    rawText += text.slice(0, Math.floor(text.length * visibleShare));
+    break;
+  }
+  return rawText.replace(/\s+/g, ' ').trimStart().length;
+};
 
 const Reader: React.FC<ReaderProps> = ({ 
   book,
   currentPage, 
   onPageChange,
+  onReadOffsetChange,
+  onPagesPerViewChange,
+  isPeeking,
+  readBoundary,
+  boundaryLabel,
+  onConfirmPeek,
+  highlights,
+  onAddHighlight,
+  onUpdateHighlight,
+  onDeleteHighlight,
+  onAskAboutSelection,
+  shownCitation,
+  onOpenRecap,
+  onOpenEntities,
+  searchRequest,
   isDarkMode,
   onToggleDarkMode,
   onBackToHome
 }) => {
   const contentRef = useRef<HTMLDivElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const textLayerRef = useRef<HTMLDivElement>(null);
+  const slotsRef = useRef<HTMLDivElement>(null); // Continuous mode: one child per page, in order
+  const measureFrameRef = useRef<number | null>(null);
   
   const [pdfDoc, setPdfDoc] = useState<any>(null);
-  const [isRendering, setIsRendering] = useState(false);
+  const prerenderRef = useRef<AbortController | null>(null); // Neighbouring pages being rendered ahead
   
   // View State
+  const [viewMode, setViewMode] = useState<ViewMode>(loadViewMode);
+  const [coverAlone, setCoverAlone] = useState(() => localStorage.getItem(COVER_ALONE_SETTING_KEY) !== 'false');
+  const [rightToLeft, setRightToLeft] = useState(book.pageDirection === 'rtl');
   const [scaleMode, setScaleMode] = useState<'width' | 'page' | 'manual'>('width');
   const [manualScale, setManualScale] = useState(1.0);
-  const [renderedScale, setRenderedScale] = useState(1.0);
+  const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({}); // Fixed-layout pages, once known
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  // Continuous mode: the pages rendered around the viewport; the rest are placeholders of the same size
+  const [renderRange, setRenderRange] = useState({ first: currentPage, last: currentPage });
+  const slotHeightsRef = useRef(new Map<number, number>()); // Last measured height of each chapter shown
+  // Continuous mode: the page last reported from the viewport, so reporting it doesn't scroll back to its top
+  const reportedPageRef = useRef<number | null>(null);
+  // Continuous mode: the viewport decides the current page once the reader scrolls, but not after a jump
+  // to a page, which might be short enough for the next one to reach the reading line
+  const followViewportRef = useRef(false);
   
   // EPUB Typography State
   const [fontSize, setFontSize] = useState(18); // px
   const [lineHeight, setLineHeight] = useState(1.6);
   const [fontFamily, setFontFamily] = useState<'serif' | 'sans' | 'mono'>('serif');
+  // Render chapters in a sandboxed iframe instead of inline
+  const [sandboxChapters, setSandboxChapters] = useState(() => localStorage.getItem(SANDBOX_SETTING_KEY) === 'true');
+  // Force the settings above onto the whole chapter, over the book's own CSS
+  const [overrideTypography, setOverrideTypography] = useState(() => localStorage.getItem(TYPOGRAPHY_OVERRIDE_SETTING_KEY) === 'true');
+  const [bookCss, setBookCss] = useState('');
 
   // UI State
   const [showSettings, setShowSettings] = useState(false);
@@ -47,6 +184,30 @@ const Reader: React.FC<ReaderProps> = ({
   const [showToc, setShowToc] = useState(false);
   const [pageInput, setPageInput] = useState((currentPage + 1).toString());
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [dismissedPeekPage, setDismissedPeekPage] = useState<number | null>(null);
+  const [showHighlights, setShowHighlights] = useState(false);
+  const [showViewMenu, setShowViewMenu] = useState(false);
+
+  // Highlight State
+  const [renderVersion, setRenderVersion] = useState(0); // Bumped whenever page DOM is rebuilt outside React (PDF text layer, chapter frame)
+  // Where the annotations of each page on screen live: its PDF text layer, chapter container, or
+  // the body of its sandboxed frame
+  const containersRef = useRef(new Map<number, HTMLElement>());
+  // The rebuilt text of the PDF pages on screen, which their text layers are mapped through
+  const pdfPageTextsRef = useRef(new Map<number, PdfPageText>());
+  const refCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const [selectionDraft, setSelectionDraft] = useState<{ page: number; anchor: TextAnchor; rect: DOMRect } | null>(null);
+  const [editingHighlight, setEditingHighlight] = useState<{ highlight: Highlight; rect: DOMRect } | null>(null);
+  // Footnote shown in place; where it lives is kept for "go to note"
+  const [openNote, setOpenNote] = useState<{ html: string; rect: DOMRect; page: number; anchor: string } | null>(null);
+  const pendingHighlightRef = useRef<string | null>(null); // Highlight to reveal once its page has rendered
+
+  // Search State
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchUnread, setSearchUnread] = useState(false);
+  const [activeHit, setActiveHit] = useState<SearchHit | null>(null);
+  const pendingSearchScrollRef = useRef(false); // Scroll the active hit into view once its page has rendered
 
   // Navigation Logic State
   const lastNavigationTime = useRef(0);
@@ -54,192 +215,642 @@ const Reader: React.FC<ReaderProps> = ({
   
   // Tracks where to scroll on the new page ('top' | 'bottom')
   const scrollTargetRef = useRef<'top' | 'bottom'>('top');
+  // Element to reveal once its page has rendered (EPUB TOC fragments)
+  const pendingAnchorRef = useRef<{ page: number; anchor: string } | null>(null);
 
   // Sync page input with current page
   useEffect(() => {
     setPageInput((currentPage + 1).toString());
   }, [currentPage]);
 
-  // Initialize PDF Doc
+  // Initialize PDF Doc (shared with the parser while a new book is still being read in)
   useEffect(() => {
-    if (book.fileType === 'pdf' && book.renderData instanceof ArrayBuffer) {
-      const loadPdf = async () => {
-        setIsRendering(true);
-        try {
-          if (!window.pdfjsLib) return;
-          window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
-          const loadingTask = window.pdfjsLib.getDocument({ data: book.renderData as ArrayBuffer });
-          const doc = await loadingTask.promise;
-          setPdfDoc(doc);
-        } catch (e) {
-          console.error("Error loading PDF for rendering", e);
-        } finally {
-          setIsRendering(false);
-        }
-      };
-      loadPdf();
-    } else {
+    if (book.fileType !== 'pdf' || !(book.renderData instanceof ArrayBuffer)) {
       setPdfDoc(null);
+      return;
     }
-  }, [book]);
+    const data = book.renderData;
+    let cancelled = false;
+    acquirePdfDocument(data)
+      .then(doc => {
+        if (!cancelled) setPdfDoc(doc);
+      })
+      .catch(e => console.error("Error loading PDF for rendering", e));
+    return () => {
+      cancelled = true;
+      setPdfDoc(null);
+      releasePdfDocument(data);
+    };
+    // Not the whole book: a PDF whose text finished extracting arrives as a new object with the same file
+  }, [book.fileType, book.renderData]);
 
-  // Render PDF Page
-  const renderPage = useCallback(async () => {
-    if (!book.fileType || book.fileType !== 'pdf' || !pdfDoc || !canvasRef.current || !contentRef.current) return;
+  useEffect(() => {
+    setPageSizes({});
+    setRightToLeft(book.pageDirection === 'rtl');
+  }, [book.id, book.pageDirection]);
 
-    setIsRendering(true);
-    try {
-      const page = await pdfDoc.getPage(currentPage + 1);
-      const viewportUnscaled = page.getViewport({ scale: 1.0 });
+  // The reading area's size, which pages are fitted to. It changes with the window, fullscreen and the chat panel.
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element) return;
+    const measure = () => setContainerSize(prev =>
+      prev.width === element.clientWidth && prev.height === element.clientHeight
+        ? prev
+        : { width: element.clientWidth, height: element.clientHeight }
+    );
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
 
-      // Determine scale based on mode and container size
-      const containerWidth = contentRef.current.clientWidth;
-      const containerHeight = contentRef.current.clientHeight;
-      
-      let finalScale = 1.0;
-      
-      if (scaleMode === 'width') {
-        const targetWidth = Math.min(containerWidth - 48, 1000); 
-        finalScale = targetWidth / viewportUnscaled.width;
-      } else if (scaleMode === 'page') {
-        const hScale = (containerHeight - 48) / viewportUnscaled.height;
-        const wScale = (containerWidth - 48) / viewportUnscaled.width;
-        finalScale = Math.min(hScale, wScale);
-      } else {
-        finalScale = manualScale;
+  // Spreads only make sense for fixed pages; reflowable chapters are shown one at a time instead
+  const layout: ViewMode = viewMode === 'spread' && isReflowable(book) ? 'single' : viewMode;
+  const readsRightToLeft = rightToLeft && !isReflowable(book);
+  const getViewPages = (page: number) =>
+    layout === 'spread' ? getSpreadPages(page, book.totalPages, coverAlone) : [page];
+  const viewPages = getViewPages(currentPage);
+
+  // Scale at which a fixed-layout page of the given natural size fits the current mode.
+  // `pagesAcross` is 2 for spreads, which may grow twice as wide as a single page.
+  const getFitScale = useCallback((width: number, height: number, pagesAcross = 1) => {
+    if (scaleMode === 'manual' || containerSize.width === 0) return manualScale;
+    if (scaleMode === 'width') return Math.min(containerSize.width - 48, 1000 * pagesAcross) / width;
+    return Math.min((containerSize.height - 48) / height, (containerSize.width - 48) / width);
+  }, [scaleMode, manualScale, containerSize]);
+
+  // Pages not yet measured are taken to match the current page or, when scrolling through them all,
+  // the first, so their placeholders don't change size as the current page moves
+  const getPageSize = (page: number): PageSize =>
+    pageSizes[page] || (layout === 'continuous' && pageSizes[0]) || pageSizes[currentPage] || DEFAULT_PAGE_SIZE;
+
+  // Pages in a spread share one scale. A page on its own (the cover) is sized as half of a spread.
+  const getViewScale = (sizes: PageSize[]) => {
+    if (layout !== 'spread') return getFitScale(sizes[0].width, sizes[0].height);
+    const width = sizes.length === 1 ? sizes[0].width * 2 : sizes[0].width + sizes[1].width;
+    return getFitScale(width, Math.max(...sizes.map(size => size.height)), 2);
+  };
+
+  const getPageScale = (page: number) => getViewScale(getViewPages(page).map(getPageSize));
+  const renderedScale = getPageScale(currentPage);
+
+  // The page a step forward or back lands on, or null at either end. In a spread that is the
+  // later page of the next or previous spread.
+  const getStepTarget = (step: 1 | -1): number | null => {
+    const edge = step === 1 ? viewPages[viewPages.length - 1] + 1 : viewPages[0] - 1;
+    if (edge < 0 || edge >= book.totalPages) return null;
+    const target = getViewPages(edge);
+    return layout === 'spread' ? target[target.length - 1] : edge;
+  };
+
+  useEffect(() => {
+    onPagesPerViewChange?.(layout === 'spread' ? 2 : 1);
+  }, [layout, onPagesPerViewChange]);
+
+  // In a spread the current page is its later page, so the read boundary takes in both
+  useEffect(() => {
+    if (layout !== 'spread') return;
+    const lastPage = viewPages[viewPages.length - 1];
+    if (lastPage !== currentPage) onPageChange(lastPage);
+  }, [layout, currentPage, coverAlone, book.totalPages]);
+
+  // PDF pages take their place before they render, so their sizes are fetched first: all of them for
+  // continuous scrolling, starting from the first (which stands in for the rest until they arrive)
+  // and the current page, otherwise the pages on show and either side. Continuous scrolling fetches
+  // them once, rather than starting over at every page turned.
+  const sizeLoaderPage = layout === 'continuous' ? null : currentPage;
+  useEffect(() => {
+    if (!pdfDoc) return;
+    const wanted = sizeLoaderPage === null
+      ? [0, ...Array.from({ length: book.totalPages }, (_, i) => (currentPage + i) % book.totalPages)]
+      : [...viewPages, ...[1, -1, 2].flatMap(step => getViewPages(currentPage + step * viewPages.length))];
+    const missing = [...new Set(wanted)].filter(page => page >= 0 && page < book.totalPages && !pageSizes[page]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    let found: Record<number, PageSize> = {};
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+      const batch = found;
+      found = {};
+      if (Object.keys(batch).length > 0) setPageSizes(prev => ({ ...prev, ...batch }));
+    };
+    const loadSizes = async () => {
+      for (const page of missing) {
+        const size = await getPdfPageSize(pdfDoc, page);
+        if (cancelled) return;
+        found[page] = size;
+        flushTimer ??= setTimeout(flush, PAGE_SIZE_FLUSH_MS);
       }
+      flush();
+    };
+    loadSizes().catch(e => console.warn("Could not read PDF page sizes", e));
+    return () => {
+      cancelled = true;
+      // Sizes already fetched are kept, so a restart doesn't wait for them again
+      flush();
+    };
+  }, [pdfDoc, layout, sizeLoaderPage, coverAlone, book.totalPages]);
 
-      setRenderedScale(finalScale);
+  // Comic pages are plain images, sized once they have loaded
+  const recordPageSize = useCallback((page: number, size: PageSize) => {
+    setPageSizes(prev => prev[page]?.width === size.width && prev[page]?.height === size.height
+      ? prev
+      : { ...prev, [page]: size });
+  }, []);
 
-      const outputScale = window.devicePixelRatio || 1;
-      const viewport = page.getViewport({ scale: finalScale });
-      
-      const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
+  // Once the current page has rendered, the pages (or spreads) either side are rendered ahead so
+  // turning to them is instant. Continuous scrolling keeps its neighbours rendered anyway.
+  const handlePdfPageRendered = async (page: number) => {
+    // If we need to scroll to bottom (e.g. came from next page scrolling up), do it after render
+    if (scrollTargetRef.current === 'bottom' && contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+    if (!pdfDoc || layout === 'continuous' || page !== currentPage) return;
 
-      canvas.width = Math.floor(viewport.width * outputScale);
-      canvas.height = Math.floor(viewport.height * outputScale);
-      
-      // Match style dimensions to viewport (CSS pixels)
-      canvas.style.width = `${Math.floor(viewport.width)}px`;
-      canvas.style.height = `${Math.floor(viewport.height)}px`;
-
-      const transform = outputScale !== 1 
-        ? [outputScale, 0, 0, outputScale, 0, 0] 
-        : null;
-
-      // Render Canvas
-      if (context) {
-        context.clearRect(0, 0, canvas.width, canvas.height);
-        await page.render({
-          canvasContext: context,
-          transform: transform,
-          viewport: viewport
-        }).promise;
+    prerenderRef.current?.abort();
+    const prerender = new AbortController();
+    prerenderRef.current = prerender;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const pages: { pageIndex: number; pixelScale: number }[] = [];
+    try {
+      for (const step of [1, -1, 2] as const) {
+        const target = step === 2 ? (getStepTarget(1) ?? book.totalPages) + 1 : getStepTarget(step);
+        if (target === null || target >= book.totalPages) continue;
+        const view = getViewPages(target);
+        const scale = getViewScale(await Promise.all(view.map(pageIndex => getPdfPageSize(pdfDoc, pageIndex))));
+        view.forEach(pageIndex => pages.push({ pageIndex, pixelScale: scale * pixelRatio }));
       }
+    } catch (e) {
+      console.warn("Could not prepare pages ahead", e);
+    }
+    if (!prerender.signal.aborted) prerenderPdfPages(pdfDoc, pages, prerender.signal);
+  };
+
+  // Moving on stops pages being rendered ahead for the old position. This runs after the new page
+  // has asked for its render, so a page that was being rendered ahead carries on.
+  useEffect(() => {
+    prerenderRef.current?.abort();
+  }, [currentPage, layout]);
+
+  // Pages rendered ahead are only wanted while the book is open
+  useEffect(() => () => prerenderRef.current?.abort(), [pdfDoc]);
+
+  const setAnnotationContainer = useCallback((page: number, element: HTMLElement | null, pageText?: PdfPageText) => {
+    const containers = containersRef.current;
+    if (element && pageText) pdfPageTextsRef.current.set(page, pageText);
+    else pdfPageTextsRef.current.delete(page);
+    if ((containers.get(page) || null) === element) return;
+    if (element) containers.set(page, element);
+    else containers.delete(page);
+    setRenderVersion(v => v + 1);
+  }, []);
 
-      // Render Text Layer
-      if (textLayerRef.current) {
-        textLayerRef.current.innerHTML = '';
-        textLayerRef.current.style.width = canvas.style.width;
-        textLayerRef.current.style.height = canvas.style.height;
+  // Offsets in the map are offsets into Book.content[page]. A PDF text layer is read through the
+  // layout that built the page's text, so quotes that cross a mended hyphen, a line joined into its
+  // paragraph or a column break are found on it too.
+  const getTextMap = (page: number, container: HTMLElement) => {
+    const pageText = pdfPageTextsRef.current.get(page);
+    return pageText ? buildPdfTextMap(container, pageText) : buildTextMap(container, book.fileType === 'pdf');
+  };
+
+  // Marks the characters between two offsets, one mark per text node they cover
+  const markOffsets = (map: TextMap, start: number, end: number, createMark: () => HTMLElement) =>
+    offsetsToRanges(map, start, end).flatMap(range => wrapRange(range, createMark));
+
+  // Ref callbacks have to keep their identity across renders, or React detaches and reattaches them
+  const getStableRef = (key: string, callback: (element: HTMLElement | null) => void) => {
+    const callbacks = refCallbacksRef.current;
+    if (!callbacks.has(key)) callbacks.set(key, callback);
+    return callbacks.get(key)!;
+  };
 
-        const textContent = await page.getTextContent();
+  const scrollToAnchor = (page: number, anchor: string): boolean => {
+    const target = (containersRef.current.get(page) || contentRef.current)?.querySelector(`[id="${CSS.escape(anchor)}"]`);
+    target?.scrollIntoView({ block: 'start' });
+    return !!target;
+  };
+
+  const revealPendingAnchor = () => {
+    const pending = pendingAnchorRef.current;
+    if (pending && scrollToAnchor(pending.page, pending.anchor)) pendingAnchorRef.current = null;
+  };
+
+  // Scroll Position Management on Page Change
+  useEffect(() => {
+    if (!contentRef.current) return;
+
+    if (layout === 'continuous') {
+      // A page reached by scrolling is already where the reader put it
+      if (reportedPageRef.current === currentPage) return;
+      followViewportRef.current = false;
+      setRenderRange({ first: Math.max(currentPage - 1, 0), last: Math.min(currentPage + 1, book.totalPages - 1) });
+      slotsRef.current?.children[currentPage]?.scrollIntoView({ block: 'start' });
+      const timeoutId = setTimeout(revealPendingAnchor, 50);
+      return () => clearTimeout(timeoutId);
+    }
+
+    // Temporarily hide overflow to kill any scroll momentum from previous page
+    const originalOverflow = contentRef.current.style.overflow;
+    contentRef.current.style.overflow = 'hidden';
+    
+    const target = scrollTargetRef.current;
+
+    // For Non-PDF (EPUB/HTML), content is ready immediately, so we set scroll now.
+    // For PDF, we set it here too as a best effort, but the page handles it after render if size changes.
+    if (target === 'bottom') {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    } else {
+      contentRef.current.scrollTop = 0;
+    }
+    
+    // Restore overflow after a brief delay
+    const timeoutId = setTimeout(() => {
+      if (contentRef.current) {
+        contentRef.current.style.overflow = 'auto'; // or originalOverflow if complex
         
-        textContent.items.forEach((item: any) => {
-           if (!item.str || !item.str.trim()) return;
-
-           const span = document.createElement('span');
-           span.textContent = item.str;
-           
-           // Item transform: [scaleX, skewY, skewX, scaleY, x, y]
-           // PDF coordinates: (0,0) is bottom-left. Canvas/CSS: (0,0) is top-left.
-           const tx = item.transform; 
-           
-           // Approximate font size from transform matrix (usually element 0 or 3)
-           const fontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
-           
-           // Calculate CSS position
-           // x is straightforward
-           const x = tx[4] * finalScale;
-           
-           // y needs to be flipped relative to viewport height. 
-           // NOTE: tx[5] is the baseline y-coordinate in PDF space.
-           // CSS top is usually top-left of the box. 
-           // We subtract fontSize (scaled) to move from baseline to top-ish.
-           // This is an approximation as actual font metrics are complex.
-           const y = viewport.height - (tx[5] * finalScale) - (fontSize * finalScale * 0.8);
-
-           span.style.left = `${x}px`;
-           span.style.top = `${y}px`;
-           span.style.fontSize = `${fontSize * finalScale}px`;
-           // Use sans-serif to match generic PDF fonts, or try to map fontName if possible
-           span.style.fontFamily = 'sans-serif'; 
-           
-           // Optional: Apply width scaling if horizontal scale differs significantly
-           // span.style.transform = `scaleX(${...})`
-
-           textLayerRef.current?.appendChild(span);
-        });
+        // Re-apply bottom scroll for safety (layout shifts)
+        if (target === 'bottom') {
+           contentRef.current.scrollTop = contentRef.current.scrollHeight;
+        }
+
+        revealPendingAnchor();
+        
+        // Reset target to default 'top' for subsequent interactions (like resize)
+        scrollTargetRef.current = 'top';
       }
-      
-      // If we need to scroll to bottom (e.g. came from next page scrolling up), do it after render
-      if (scrollTargetRef.current === 'bottom' && contentRef.current) {
-        contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }, 50);
+
+    return () => clearTimeout(timeoutId);
+  }, [currentPage, layout]);
+
+  // Continuous mode: keeps the pages near the viewport rendered, and makes the page under the
+  // reading line (a third of the way down, or the last one in view at the very end) the current page
+  const updateContinuousView = () => {
+    const container = contentRef.current;
+    const slots = slotsRef.current?.children;
+    if (!container || !slots || slots.length === 0) return;
+    const top = container.getBoundingClientRect().top;
+    const height = container.clientHeight;
+
+    // Index of the first page whose bottom is below y; pages are stacked in order
+    const pageAt = (y: number) => {
+      let low = 0;
+      let high = slots.length - 1;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (slots[middle].getBoundingClientRect().bottom > y) high = middle;
+        else low = middle + 1;
       }
+      return low;
+    };
 
-    } catch (e) {
-      console.error("Error rendering PDF page", e);
-    } finally {
-      setIsRendering(false);
+    // Chapters leaving the range keep their height as placeholders
+    if (isReflowable(book)) {
+      for (let page = renderRange.first; page <= renderRange.last; page++) {
+        const slot = slots[page];
+        if (slot) slotHeightsRef.current.set(page, slot.getBoundingClientRect().height);
+      }
+    }
+    const first = pageAt(top - height * CONTINUOUS_OVERSCAN);
+    const last = pageAt(top + height * (1 + CONTINUOUS_OVERSCAN));
+    setRenderRange(prev => prev.first === first && prev.last === last ? prev : { first, last });
+
+    if (!followViewportRef.current) return;
+    const atEnd = container.scrollTop + height >= container.scrollHeight - 2;
+    const page = pageAt(atEnd ? top + height - 1 : top + height / 3);
+    if (page !== currentPage) {
+      reportedPageRef.current = page;
+      onPageChange(page);
     }
-  }, [pdfDoc, currentPage, scaleMode, manualScale, book.fileType]);
+  };
 
-  // Effect to trigger render
+  // Page sizes and the viewport affect which pages are near it
   useEffect(() => {
-    renderPage();
-    const handleResize = () => {
-      if (scaleMode !== 'manual') renderPage();
-    };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [renderPage, scaleMode]);
+    if (layout === 'continuous') updateContinuousView();
+  }, [layout, containerSize, pageSizes]);
 
-  // Scroll Position Management on Page Change
+  // Typography reflows every chapter, so old measurements no longer hold
   useEffect(() => {
-    if (contentRef.current) {
-      // Temporarily hide overflow to kill any scroll momentum from previous page
-      const originalOverflow = contentRef.current.style.overflow;
-      contentRef.current.style.overflow = 'hidden';
-      
-      const target = scrollTargetRef.current;
-
-      // For Non-PDF (EPUB/HTML), content is ready immediately, so we set scroll now.
-      // For PDF, we set it here too as a best effort, but renderPage will handle it after render if size changes.
-      if (target === 'bottom') {
-        contentRef.current.scrollTop = contentRef.current.scrollHeight;
-      } else {
-        contentRef.current.scrollTop = 0;
+    slotHeightsRef.current.clear();
+  }, [book.id, fontSize, lineHeight, fontFamily]);
+
+  // Sub-chapter progress for EPUB: report how far into the chapter text the viewport reaches
+  const reportReadOffset = useCallback(() => {
+    const chapter = containersRef.current.get(currentPage);
+    if (!isReflowable(book) || !onReadOffsetChange || !contentRef.current || !chapter) return;
+    const frameTop = chapter.ownerDocument.defaultView?.frameElement?.getBoundingClientRect().top ?? 0;
+    const viewportBottom = contentRef.current.getBoundingClientRect().bottom - frameTop;
+    const offset = measureReadOffset(chapter, viewportBottom);
+    const pageLength = book.content[currentPage]?.length || 0;
+    onReadOffsetChange(currentPage, offset >= pageLength ? undefined : offset);
+  }, [book, currentPage, onReadOffsetChange]);
+
+  const handleScroll = () => {
+    if ((layout !== 'continuous' && !isReflowable(book)) || measureFrameRef.current !== null) return;
+    measureFrameRef.current = requestAnimationFrame(() => {
+      measureFrameRef.current = null;
+      if (layout === 'continuous') updateContinuousView();
+      reportReadOffset();
+    });
+  };
+
+  // Re-measure once a chapter has laid out, and whenever typography reflows it
+  useEffect(() => {
+    const timeoutId = setTimeout(reportReadOffset, 100);
+    return () => clearTimeout(timeoutId);
+  }, [reportReadOffset, fontSize, lineHeight, fontFamily, renderVersion]);
+
+  useEffect(() => () => {
+    if (measureFrameRef.current !== null) cancelAnimationFrame(measureFrameRef.current);
+  }, []);
+
+  // Stored books may predate sanitizing at parse time, so chapters are cleaned again before display.
+  // Cleaned chapters are kept, since continuous scrolling shows several and revisits them.
+  const chapterHtmlCache = useMemo(() => new Map<number, string>(), [book.renderData]);
+  const getChapterHtml = (page: number) => {
+    let html = chapterHtmlCache.get(page);
+    if (html === undefined) {
+      html = sanitizeHtml((book.renderData as string[])[page] || '');
+      chapterHtmlCache.set(page, html);
+    }
+    return html;
+  };
+
+  // The book's stylesheet, with its embedded fonts and images turned into blob URLs for as long as it's open
+  useEffect(() => {
+    if (book.fileType !== 'epub' || !book.stylesheet) {
+      setBookCss('');
+      return;
+    }
+    const { css, revoke } = createBookStylesheet(book);
+    setBookCss(css);
+    return revoke;
+  }, [book.fileType, book.stylesheet, book.resources]);
+
+  const chapterCss = bookCss + TYPOGRAPHY_OVERRIDE_CSS;
+
+  const handleFrameBodyChange = (page: number, body: HTMLElement | null) => {
+    setAnnotationContainer(page, body);
+    if (body && pendingAnchorRef.current?.page === page) revealPendingAnchor();
+  };
+
+  const handleSandboxToggle = (enabled: boolean) => {
+    setSandboxChapters(enabled);
+    setRenderVersion(v => v + 1);
+    localStorage.setItem(SANDBOX_SETTING_KEY, String(enabled));
+  };
+
+  const handleOverrideTypographyToggle = (enabled: boolean) => {
+    setOverrideTypography(enabled);
+    localStorage.setItem(TYPOGRAPHY_OVERRIDE_SETTING_KEY, String(enabled));
+  };
+
+  // Re-draw the highlights of the pages on screen whenever they change or the page DOM is rebuilt.
+  // A PDF text layer only counts once it holds its page, and comic pages have no text.
+  useEffect(() => {
+    containersRef.current.forEach((container, page) => {
+      unwrapAll(container, HIGHLIGHT_SELECTOR);
+      const pageHighlights = highlights.filter(h => h.page === page);
+      if (pageHighlights.length === 0) return;
+      const map = getTextMap(page, container);
+      pageHighlights.forEach(highlight => {
+        const resolved = resolveAnchor(map.text, highlight);
+        if (!resolved) return;
+        markOffsets(map, resolved.start, resolved.end, () => {
+          const mark = document.createElement('mark');
+          mark.className = `highlight highlight-${highlight.color}${highlight.note ? ' highlight-note' : ''}`;
+          mark.dataset.highlightId = highlight.id;
+          if (highlight.note) mark.title = highlight.note;
+          return mark;
+        });
+      });
+    });
+
+    const pending = highlights.find(h => h.id === pendingHighlightRef.current);
+    const pendingContainer = pending && containersRef.current.get(pending.page);
+    if (pendingContainer) {
+      pendingContainer.querySelector(`[data-highlight-id="${pending.id}"]`)?.scrollIntoView({ block: 'center' });
+      pendingHighlightRef.current = null;
+    }
+  }, [highlights, renderVersion, book]);
+
+  useEffect(() => {
+    setSelectionDraft(null);
+    setEditingHighlight(null);
+    setOpenNote(null);
+  }, [currentPage]);
+
+  // Stable, since the popover's Escape listener depends on it
+  const closeNote = useCallback(() => setOpenNote(null), []);
+
+  const searchResults = useMemo(
+    () => searchBook(book, searchQuery, { boundary: readBoundary, includeUnread: searchUnread }),
+    [book, searchQuery, readBoundary, searchUnread]
+  );
+
+  // Searches asked for from outside the reader look in the pages read, like a search typed in
+  useEffect(() => {
+    if (!searchRequest) return;
+    setSearchQuery(searchRequest.query);
+    setSearchUnread(false);
+    setActiveHit(null);
+    setShowSearch(true);
+  }, [searchRequest]);
+
+  // The active hit is tracked by position, so it survives results being recomputed as the boundary moves
+  const activeHitIndex = activeHit
+    ? searchResults.hits.findIndex(hit => hit.page === activeHit.page && hit.start === activeHit.start)
+    : -1;
+
+  // Mark the search hits on the pages on screen, in the same way as highlights
+  useEffect(() => {
+    containersRef.current.forEach((container, page) => {
+      unwrapAll(container, SEARCH_SELECTOR);
+      const pageHits = searchResults.hits.filter(hit => hit.page === page);
+      if (pageHits.length === 0) return;
+      const map = getTextMap(page, container);
+      const pageText = book.content[page] || '';
+      pageHits.forEach(hit => {
+        const resolved = resolveAnchor(map.text, createAnchor(pageText, hit.start, hit.end));
+        if (!resolved) return;
+        const isActive = hit === searchResults.hits[activeHitIndex];
+        markOffsets(map, resolved.start, resolved.end, () => {
+          const mark = document.createElement('mark');
+          mark.className = `search-hit${isActive ? ' search-hit-active' : ''}`;
+          return mark;
+        });
+      });
+    });
+
+    if (pendingSearchScrollRef.current) {
+      for (const container of containersRef.current.values()) {
+        const activeMark = container.querySelector('mark.search-hit-active');
+        if (activeMark) {
+          activeMark.scrollIntoView({ block: 'center' });
+          pendingSearchScrollRef.current = false;
+          break;
+        }
       }
-      
-      // Restore overflow after a brief delay
-      const timeoutId = setTimeout(() => {
-        if (contentRef.current) {
-          contentRef.current.style.overflow = 'auto'; // or originalOverflow if complex
-          
-          // Re-apply bottom scroll for safety (layout shifts)
-          if (target === 'bottom') {
-             contentRef.current.scrollTop = contentRef.current.scrollHeight;
-          }
-          
-          // Reset target to default 'top' for subsequent interactions (like resize)
-          scrollTargetRef.current = 'top';
+    }
+  }, [searchResults, activeHitIndex, renderVersion, book]);
+
+  // A cited passage is scrolled to once, when it is first marked
+  const pendingCitationScrollRef = useRef(false);
+  useEffect(() => {
+    pendingCitationScrollRef.current = !!shownCitation;
+  }, [shownCitation]);
+
+  // Mark the passage an answer cited, in the same way as search hits
+  useEffect(() => {
+    containersRef.current.forEach(container => unwrapAll(container, CITATION_SELECTOR));
+    if (!shownCitation || shownCitation.start === undefined || shownCitation.end === undefined) return;
+    const container = containersRef.current.get(shownCitation.page);
+    if (!container) return;
+    const map = getTextMap(shownCitation.page, container);
+    const pageText = book.content[shownCitation.page] || '';
+    const resolved = resolveAnchor(map.text, createAnchor(pageText, shownCitation.start, shownCitation.end));
+    if (!resolved) return;
+    const marks = markOffsets(map, resolved.start, resolved.end, () => {
+      const mark = document.createElement('mark');
+      mark.className = 'citation-passage';
+      return mark;
+    });
+    if (pendingCitationScrollRef.current && marks.length > 0) {
+      marks[0].scrollIntoView({ block: 'center' });
+      pendingCitationScrollRef.current = false;
+    }
+  }, [shownCitation, renderVersion, book]);
+
+  // Offer the highlight toolbar when text inside the page is selected
+  const handleSelectionEnd = () => {
+    // Let the browser finish updating the selection first
+    setTimeout(() => {
+      for (const [page, container] of containersRef.current) {
+        const selection = container.ownerDocument.getSelection();
+        if (!selection || selection.isCollapsed || selection.rangeCount === 0) continue;
+
+        const range = selection.getRangeAt(0);
+        if (!container.contains(range.commonAncestorContainer)) continue;
+
+        const map = getTextMap(page, container);
+        const offsets = rangeToOffsets(map, range);
+        if (!offsets || offsets.end <= offsets.start) return;
+
+        setEditingHighlight(null);
+        setSelectionDraft({
+          page,
+          anchor: createAnchor(map.text, offsets.start, offsets.end),
+          rect: toReaderRect(range.getBoundingClientRect(), container),
+        });
+        return;
+      }
+    }, 0);
+  };
+
+  // The page whose content holds the node, for links in continuous mode
+  const getPageOf = (node: Node): number => {
+    for (const [page, container] of containersRef.current) {
+      if (container.contains(node)) return page;
+    }
+    return currentPage;
+  };
+
+  const handleContentClick = (e: { target: EventTarget | null; preventDefault: () => void }) => {
+    // Footnote references and cross-chapter links are routed through the Reader's own navigation
+    const link = (e.target as HTMLElement).closest?.('a[href]');
+    const linkTarget = link && parseInternalHref(link.getAttribute('href') || '', getPageOf(link));
+    if (linkTarget) {
+      e.preventDefault();
+      // Notes open in a popover so reading one doesn't leave the page or count as reading ahead
+      if (linkTarget.anchor && isNoteReference(link)) {
+        const noteHtml = extractNote(
+          sanitizeHtml((book.renderData as string[])[linkTarget.page] || ''), linkTarget.anchor, link.getAttribute('id')
+        );
+        if (noteHtml) {
+          setOpenNote({
+            html: noteHtml,
+            rect: toReaderRect(link.getBoundingClientRect(), link),
+            page: linkTarget.page,
+            anchor: linkTarget.anchor,
+          });
+          return;
         }
-      }, 50);
+      }
+      goToLocation(linkTarget.page, linkTarget.anchor);
+      return;
+    }
 
-      return () => clearTimeout(timeoutId);
+    const mark = (e.target as HTMLElement).closest?.(HIGHLIGHT_SELECTOR) as HTMLElement | null;
+    if (!mark || !mark.ownerDocument.getSelection()?.isCollapsed) return;
+    const highlight = highlights.find(h => h.id === mark.dataset.highlightId);
+    if (highlight) {
+      setSelectionDraft(null);
+      setEditingHighlight({ highlight, rect: toReaderRect(mark.getBoundingClientRect(), mark) });
     }
-  }, [currentPage]);
+  };
+
+  const clearSelection = (page: number) => {
+    (containersRef.current.get(page)?.ownerDocument || document).getSelection()?.removeAllRanges();
+  };
+
+  const handleCreateHighlight = (color: HighlightColor, note?: string) => {
+    if (!selectionDraft) return;
+    onAddHighlight(selectionDraft.page, selectionDraft.anchor, color, note);
+    setSelectionDraft(null);
+    clearSelection(selectionDraft.page);
+  };
+
+  const handleCopySelection = () => {
+    if (!selectionDraft) return;
+    // The selection's own text keeps its line breaks, which the anchor's quote collapses
+    const selection = (containersRef.current.get(selectionDraft.page)?.ownerDocument || document).getSelection();
+    const text = selection && !selection.isCollapsed ? selection.toString() : selectionDraft.anchor.quote;
+    navigator.clipboard.writeText(text).catch(e => console.error("Could not copy the selection", e));
+    setSelectionDraft(null);
+  };
+
+  const handleAskAboutSelection = () => {
+    if (!selectionDraft || !onAskAboutSelection) return;
+    onAskAboutSelection(selectionDraft.anchor.quote);
+    setSelectionDraft(null);
+    clearSelection(selectionDraft.page);
+  };
+
+  const handleHighlightSelect = (highlight: Highlight) => {
+    setShowHighlights(false);
+    const container = containersRef.current.get(highlight.page);
+    if (container) {
+      container.querySelector(`[data-highlight-id="${highlight.id}"]`)?.scrollIntoView({ block: 'center' });
+    } else {
+      pendingHighlightRef.current = highlight.id;
+      navigateToPage(highlight.page, 'top');
+    }
+  };
+
+  const handleSearchSelect = (index: number) => {
+    const hit = searchResults.hits[index];
+    if (!hit) return;
+    setShowSearch(false);
+    setActiveHit(hit);
+    pendingSearchScrollRef.current = true;
+    // Hits on a page already on screen are scrolled to by the marking effect
+    if (!containersRef.current.has(hit.page)) navigateToPage(hit.page, 'top');
+  };
+
+  const handleSearchStep = (step: 1 | -1) => {
+    const count = searchResults.hits.length;
+    if (count === 0) return;
+    const from = activeHitIndex === -1 ? (step === 1 ? -1 : 0) : activeHitIndex;
+    handleSearchSelect((from + step + count) % count);
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setActiveHit(null);
+  };
 
   // Navigation Helpers
   const navigateToPage = useCallback((newPage: number, target: 'top' | 'bottom' = 'top') => {
@@ -248,30 +859,33 @@ const Reader: React.FC<ReaderProps> = ({
   }, [onPageChange]);
 
   const handleZoomIn = useCallback(() => {
-    if (book.fileType === 'pdf') {
+    if (!isReflowable(book)) {
       setManualScale(prev => renderedScale * 1.2);
       setScaleMode('manual');
     } else {
       setFontSize(prev => Math.min(prev + 2, 32));
     }
-  }, [renderedScale, book.fileType]);
+  }, [renderedScale, book]);
 
   const handleZoomOut = useCallback(() => {
-    if (book.fileType === 'pdf') {
+    if (!isReflowable(book)) {
       setManualScale(prev => renderedScale * 0.8);
       setScaleMode('manual');
     } else {
       setFontSize(prev => Math.max(prev - 2, 12));
     }
-  }, [renderedScale, book.fileType]);
+  }, [renderedScale, book]);
+
+  const prevTarget = getStepTarget(-1);
+  const nextTarget = getStepTarget(1);
 
   const handlePrev = useCallback(() => {
-    if (currentPage > 0) navigateToPage(currentPage - 1, 'top');
-  }, [currentPage, navigateToPage]);
+    if (prevTarget !== null) navigateToPage(prevTarget, 'top');
+  }, [prevTarget, navigateToPage]);
 
   const handleNext = useCallback(() => {
-    if (currentPage < book.totalPages - 1) navigateToPage(currentPage + 1, 'top');
-  }, [currentPage, book.totalPages, navigateToPage]);
+    if (nextTarget !== null) navigateToPage(nextTarget, 'top');
+  }, [nextTarget, navigateToPage]);
 
   const handlePageSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -287,25 +901,50 @@ const Reader: React.FC<ReaderProps> = ({
     setPageInput(e.target.value);
   };
 
-  const handleTocClick = (page: number) => {
-    navigateToPage(page, 'top');
+  // Goes to a page, and to the element with the given id on it once it has rendered
+  const goToLocation = (page: number, anchor?: string) => {
+    if (page === currentPage) {
+      if (anchor) scrollToAnchor(page, anchor);
+      else if (layout === 'continuous') slotsRef.current?.children[page]?.scrollIntoView({ block: 'start' });
+      else if (contentRef.current) contentRef.current.scrollTop = 0;
+    } else {
+      pendingAnchorRef.current = anchor ? { page, anchor } : null;
+      navigateToPage(page, 'top');
+    }
+  };
+
+  const handleTocClick = (item: TocItem) => {
+    goToLocation(item.page, item.anchor);
     setShowToc(false);
   };
 
   // Keyboard Navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+        e.preventDefault();
+        setShowSearch(true);
+        return;
+      }
       if (document.activeElement instanceof HTMLInputElement || document.activeElement instanceof HTMLTextAreaElement) return;
+      // Scrolling by keyboard counts as reading on, like the wheel
+      followViewportRef.current = true;
 
       switch (e.key) {
-        case 'ArrowRight':
         case ' ': 
           e.preventDefault();
           handleNext();
           break;
+        // Right-to-left books turn forward with the left arrow
+        case 'ArrowRight':
+          e.preventDefault();
+          if (readsRightToLeft) handlePrev();
+          else handleNext();
+          break;
         case 'ArrowLeft':
           e.preventDefault();
-          handlePrev();
+          if (readsRightToLeft) handleNext();
+          else handlePrev();
           break;
         case '+':
         case '=': 
@@ -318,7 +957,7 @@ const Reader: React.FC<ReaderProps> = ({
           break;
         case '0':
           e.preventDefault();
-          if(book.fileType === 'pdf') setScaleMode('width');
+          if(!isReflowable(book)) setScaleMode('width');
           else setFontSize(18);
           break;
         case 'f':
@@ -329,7 +968,7 @@ const Reader: React.FC<ReaderProps> = ({
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleNext, handlePrev, handleZoomIn, handleZoomOut, book.fileType]);
+  }, [handleNext, handlePrev, handleZoomIn, handleZoomOut, book, readsRightToLeft]);
 
   // Fullscreen Logic
   const toggleFullscreen = async () => {
@@ -348,9 +987,11 @@ const Reader: React.FC<ReaderProps> = ({
   }, []);
 
   // Navigation Logic (Wheel/Touch)
-  const handleWheel = (e: React.WheelEvent) => {
+  // Continuous mode just scrolls; the other modes turn the page at either end
+  const handleWheel = (e: { deltaY: number }) => {
+    followViewportRef.current = true;
     const element = contentRef.current;
-    if (!element) return;
+    if (!element || layout === 'continuous') return;
     const { scrollTop, scrollHeight, clientHeight } = element;
     const isAtBottom = Math.abs(scrollHeight - clientHeight - scrollTop) < 5;
     const isAtTop = scrollTop === 0;
@@ -362,22 +1003,23 @@ const Reader: React.FC<ReaderProps> = ({
     // Increased threshold for deltaY to prevent accidental triggers (was 30)
     const threshold = 50;
 
-    if (isAtBottom && e.deltaY > threshold && currentPage < book.totalPages - 1) {
+    if (isAtBottom && e.deltaY > threshold && nextTarget !== null) {
       lastNavigationTime.current = now;
-      navigateToPage(currentPage + 1, 'top');
-    } else if (isAtTop && e.deltaY < -threshold && currentPage > 0) {
+      navigateToPage(nextTarget, 'top');
+    } else if (isAtTop && e.deltaY < -threshold && prevTarget !== null) {
       lastNavigationTime.current = now;
-      navigateToPage(currentPage - 1, 'bottom'); // Go to bottom of previous page
+      navigateToPage(prevTarget, 'bottom'); // Go to bottom of previous page
     }
   };
 
-  const handleTouchStart = (e: React.TouchEvent) => {
+  const handleTouchStart = (e: { touches: ArrayLike<{ clientY: number }> }) => {
+    followViewportRef.current = true;
     touchStartY.current = e.touches[0].clientY;
   };
 
-  const handleTouchMove = (e: React.TouchEvent) => {
+  const handleTouchMove = (e: { touches: ArrayLike<{ clientY: number }> }) => {
     const element = contentRef.current;
-    if (!element || touchStartY.current === null) return;
+    if (!element || touchStartY.current === null || layout === 'continuous') return;
     const { scrollTop, scrollHeight, clientHeight } = element;
     const isAtBottom = Math.abs(scrollHeight - clientHeight - scrollTop) < 5;
     const isAtTop = scrollTop === 0;
@@ -388,18 +1030,33 @@ const Reader: React.FC<ReaderProps> = ({
     if (now - lastNavigationTime.current <= 1200) return;
 
     // Increased touch threshold (was 80)
-    if (isAtBottom && deltaY > 100 && currentPage < book.totalPages - 1) {
+    if (isAtBottom && deltaY > 100 && nextTarget !== null) {
        lastNavigationTime.current = now;
-       navigateToPage(currentPage + 1, 'top');
+       navigateToPage(nextTarget, 'top');
        touchStartY.current = null;
-    } else if (isAtTop && deltaY < -100 && currentPage > 0) {
+    } else if (isAtTop && deltaY < -100 && prevTarget !== null) {
        lastNavigationTime.current = now;
-       navigateToPage(currentPage - 1, 'bottom'); // Go to bottom of previous page
+       navigateToPage(prevTarget, 'bottom'); // Go to bottom of previous page
        touchStartY.current = null;
     }
   };
 
-  const handleTouchEnd = () => { touchStartY.current = null; };
+  const handleTouchEnd = () => {
+    touchStartY.current = null;
+    handleSelectionEnd();
+  };
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    // The page last reported from the viewport says nothing about where a new layout is scrolled to
+    reportedPageRef.current = null;
+    setViewMode(mode);
+    localStorage.setItem(VIEW_MODE_SETTING_KEY, mode);
+  };
+
+  const handleCoverAloneToggle = (enabled: boolean) => {
+    setCoverAlone(enabled);
+    localStorage.setItem(COVER_ALONE_SETTING_KEY, String(enabled));
+  };
 
   const progress = ((currentPage + 1) / book.totalPages) * 100;
 
@@ -410,6 +1067,112 @@ const Reader: React.FC<ReaderProps> = ({
     'mono': 'font-mono'
   };
 
+  // Chapters and fixed pages that aren't rendered keep their place at their last known height
+  const measuredChapters = [...slotHeightsRef.current.entries()];
+  const measuredChars = measuredChapters.reduce((sum, [page]) => sum + (book.content[page]?.length || 0), 0);
+  const measuredHeight = measuredChapters.reduce((sum, [, height]) => sum + height, 0);
+  const getPlaceholderHeight = (page: number) => {
+    if (!isReflowable(book)) return Math.floor(getPageSize(page).height * getPageScale(page));
+    const measured = slotHeightsRef.current.get(page);
+    if (measured !== undefined) return measured;
+    // Estimated from the text length, at the height per character of the chapters seen so far
+    const estimate = measuredChars > 0 ? (book.content[page]?.length || 0) * measuredHeight / measuredChars : 0;
+    return Math.max(estimate, containerSize.height / 2);
+  };
+
+  const renderFixedPage = (page: number) => {
+    const size = pageSizes[page];
+    const scale = getPageScale(page);
+    if (book.fileType === 'cbz') {
+      return (
+        <img
+          src={(book.renderData as string[])[page]}
+          alt={`Page ${page + 1}`}
+          onLoad={e => recordPageSize(page, { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          style={size ? { width: size.width * scale, height: size.height * scale } : undefined}
+          className="block max-w-none select-none"
+          draggable={false}
+        />
+      );
+    }
+    if (!pdfDoc || !size) {
+      const placeholder = getPageSize(page);
+      return (
+        <div
+          className="flex items-center justify-center bg-white"
+          style={{ width: Math.floor(placeholder.width * scale), height: Math.floor(placeholder.height * scale) }}
+        >
+          <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+        </div>
+      );
+    }
+    return (
+      <PdfPageView
+        pdf={pdfDoc}
+        pageIndex={page}
+        size={size}
+        scale={scale}
+        ocrWords={book.ocrWords?.[page]}
+        onTextLayerChange={setAnnotationContainer}
+        onRendered={handlePdfPageRendered}
+      />
+    );
+  };
+
+  const renderChapter = (page: number) => (
+    /* EPUB / HTML Content */
+    <div 
+      ref={getStableRef(`card-${page}`, element => {
+        if (!element) setAnnotationContainer(page, null);
+      })}
+      className={`w-full max-w-3xl bg-white dark:bg-gray-900 shadow-sm border border-stone-200 dark:border-gray-800 min-h-[60vh] p-8 md:p-12 transition-colors duration-200 ${fontFamilyClass[fontFamily]}`}
+      style={{ fontSize: `${fontSize}px`, lineHeight: lineHeight }}
+    >
+       {sandboxChapters ? (
+         <ChapterFrame
+           html={getChapterHtml(page) || "<p>No content</p>"}
+           fontSize={fontSize}
+           lineHeight={lineHeight}
+           fontFamily={fontFamily}
+           isDarkMode={isDarkMode}
+           stylesheet={chapterCss}
+           overrideTypography={overrideTypography}
+           onBodyChange={body => handleFrameBodyChange(page, body)}
+           onMouseUp={handleSelectionEnd}
+           onClick={handleContentClick}
+           onWheel={handleWheel}
+           onTouchStart={handleTouchStart}
+           onTouchMove={handleTouchMove}
+           onTouchEnd={handleTouchEnd}
+         />
+       ) : (
+         <>
+           <style>{chapterCss}</style>
+           <div 
+             ref={getStableRef(`chapter-${page}`, element => setAnnotationContainer(page, element))}
+             data-chapter=""
+             data-override={overrideTypography ? '' : undefined}
+             className="prose dark:prose-invert max-w-none prose-img:rounded-lg prose-img:shadow-sm prose-img:mx-auto prose-p:mb-4 prose-headings:font-serif prose-headings:text-ink dark:prose-headings:text-gray-100 text-ink dark:text-gray-200"
+             dangerouslySetInnerHTML={{ __html: getChapterHtml(page) || "<p>No content</p>" }}
+           />
+         </>
+       )}
+    </div>
+  );
+
+  const renderPage = (page: number) => {
+    if (isReflowable(book)) return renderChapter(page);
+    return book.fileType === 'pdf' ? (
+      <div className="relative shadow-lg transition-transform duration-200 ease-out origin-center bg-white">
+        {renderFixedPage(page)}
+      </div>
+    ) : (
+      <div className="relative shadow-lg bg-white transition-all duration-200 ease-out">
+        {renderFixedPage(page)}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-paper dark:bg-gray-950 relative transition-colors duration-200 group">
       
@@ -430,6 +1193,7 @@ const Reader: React.FC<ReaderProps> = ({
               <div className="flex justify-between"><span>Zoom Out / Font Down</span> <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">-</kbd></div>
               <div className="flex justify-between"><span>Reset View</span> <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">0</kbd></div>
               <div className="flex justify-between"><span>Fullscreen</span> <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">F</kbd></div>
+              <div className="flex justify-between"><span>Search</span> <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">Ctrl / Cmd + F</kbd></div>
             </div>
           </div>
         </div>
@@ -454,7 +1218,7 @@ const Reader: React.FC<ReaderProps> = ({
                  {book.toc.map((item, idx) => (
                    <button
                      key={idx}
-                     onClick={() => handleTocClick(item.page)}
+                     onClick={() => handleTocClick(item)}
                      className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
                        currentPage === item.page 
                          ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 font-medium' 
@@ -478,6 +1242,76 @@ const Reader: React.FC<ReaderProps> = ({
         </div>
       </div>
       
+      <HighlightsPanel
+        book={book}
+        highlights={highlights}
+        isOpen={showHighlights}
+        onClose={() => setShowHighlights(false)}
+        onSelect={handleHighlightSelect}
+      />
+
+      <SearchPanel
+        book={book}
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        query={searchQuery}
+        onQueryChange={query => {
+          setSearchQuery(query);
+          setActiveHit(null);
+        }}
+        includeUnread={searchUnread}
+        onIncludeUnreadChange={setSearchUnread}
+        results={searchResults}
+        activeIndex={activeHitIndex}
+        onSelect={handleSearchSelect}
+        boundaryLabel={boundaryLabel || 'where you are'}
+      />
+
+      {selectionDraft && (
+        <HighlightPopover
+          anchorRect={selectionDraft.rect}
+          onSave={handleCreateHighlight}
+          onCopy={handleCopySelection}
+          onAsk={onAskAboutSelection ? handleAskAboutSelection : undefined}
+          onClose={() => setSelectionDraft(null)}
+        />
+      )}
+
+      {openNote && (
+        <NotePopover
+          anchorRect={openNote.rect}
+          html={openNote.html}
+          pageLabel={openNote.page === currentPage ? 'Show in chapter' : getPageLabel(book, openNote.page)}
+          onGoToNote={() => {
+            setOpenNote(null);
+            goToLocation(openNote.page, openNote.anchor);
+          }}
+          onLinkClick={href => {
+            const target = parseInternalHref(href, openNote.page);
+            setOpenNote(null);
+            if (target) goToLocation(target.page, target.anchor);
+          }}
+          onClose={closeNote}
+        />
+      )}
+
+      {editingHighlight && (
+        <HighlightPopover
+          anchorRect={editingHighlight.rect}
+          color={editingHighlight.highlight.color}
+          note={editingHighlight.highlight.note}
+          onSave={(color, note) => {
+            onUpdateHighlight(editingHighlight.highlight.id, { color, note });
+            setEditingHighlight(null);
+          }}
+          onDelete={() => {
+            onDeleteHighlight(editingHighlight.highlight.id);
+            setEditingHighlight(null);
+          }}
+          onClose={() => setEditingHighlight(null)}
+        />
+      )}
+
       {/* TOC Overlay backdrop */}
       {showToc && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-30" onClick={() => setShowToc(false)} />
@@ -504,11 +1338,64 @@ const Reader: React.FC<ReaderProps> = ({
             >
               <Menu className="w-5 h-5" />
             </button>
+
+            {/* Highlights Toggle Button */}
+            <button 
+              onClick={() => setShowHighlights(true)}
+              className="p-1.5 hover:bg-stone-100 dark:hover:bg-gray-700 rounded-md text-stone-600 dark:text-stone-300 transition-all"
+              title="Highlights & Notes"
+            >
+              <Highlighter className="w-5 h-5" />
+            </button>
+
+            {/* Story So Far Button */}
+            {onOpenRecap && (
+              <button 
+                onClick={onOpenRecap}
+                className="p-1.5 hover:bg-stone-100 dark:hover:bg-gray-700 rounded-md text-stone-600 dark:text-stone-300 transition-all"
+                title="Story So Far"
+              >
+                <ScrollText className="w-5 h-5" />
+              </button>
+            )}
+
+            {/* Dramatis Personae Button */}
+            {onOpenEntities && (
+              <button 
+                onClick={onOpenEntities}
+                className="p-1.5 hover:bg-stone-100 dark:hover:bg-gray-700 rounded-md text-stone-600 dark:text-stone-300 transition-all"
+                title="Characters & Places"
+              >
+                <Users className="w-5 h-5" />
+              </button>
+            )}
+
+            {/* Search Toggle Button */}
+            <button 
+              onClick={() => setShowSearch(true)}
+              className="p-1.5 hover:bg-stone-100 dark:hover:bg-gray-700 rounded-md text-stone-600 dark:text-stone-300 transition-all"
+              title="Search (Ctrl+F)"
+            >
+              <Search className="w-5 h-5" />
+            </button>
             
+            {book.metadata.coverImage && (
+              <img
+                src={book.metadata.coverImage}
+                alt=""
+                className="hidden sm:block h-9 w-auto rounded-sm shadow-sm border border-stone-200 dark:border-gray-700"
+              />
+            )}
+
             <div className="flex flex-col min-w-0">
               <h2 className="text-sm font-semibold text-stone-700 dark:text-stone-200 truncate max-w-[150px] md:max-w-xs" title={book.title}>
                 {book.title}
               </h2>
+              {book.metadata.author && (
+                <p className="text-xs text-stone-500 dark:text-stone-400 truncate max-w-[150px] md:max-w-xs" title={book.metadata.author}>
+                  {book.metadata.author}
+                </p>
+              )}
             </div>
           </div>
           
@@ -516,9 +1403,75 @@ const Reader: React.FC<ReaderProps> = ({
 
         {/* Toolbar */}
         <div className="flex items-center gap-2">
-          
+
+          {/* View Mode Dropdown */}
+          <div className="relative">
+            <button
+              onClick={() => setShowViewMenu(!showViewMenu)}
+              className={`p-1.5 rounded-md transition-all ${showViewMenu ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-600 dark:text-indigo-400' : 'hover:bg-stone-100 dark:hover:bg-gray-700 text-stone-600 dark:text-stone-300'}`}
+              title="Page Layout"
+            >
+              {React.createElement(VIEW_MODES.find(option => option.mode === layout)!.icon, { className: 'w-4 h-4' })}
+            </button>
+
+            {showViewMenu && (
+              <>
+                <div className="fixed inset-0 z-10" onClick={() => setShowViewMenu(false)} />
+                <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-gray-900 border border-stone-200 dark:border-gray-700 rounded-xl shadow-xl z-20 p-4 animate-in fade-in zoom-in-95 duration-100">
+                  <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">Page Layout</h4>
+
+                  <div className="space-y-4">
+                    <div className="space-y-1">
+                      {VIEW_MODES.filter(option => option.mode !== 'spread' || !isReflowable(book)).map(({ mode, label, icon: Icon }) => (
+                        <button
+                          key={mode}
+                          onClick={() => handleViewModeChange(mode)}
+                          className={`w-full flex items-center gap-2 py-1.5 px-2 text-xs rounded-md transition-all ${layout === mode ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 font-medium' : 'text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-gray-800'}`}
+                        >
+                          <Icon className="w-4 h-4" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {!isReflowable(book) && (
+                      <div className="space-y-3">
+                        {layout === 'spread' && (
+                          <label className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={coverAlone}
+                              onChange={(e) => handleCoverAloneToggle(e.target.checked)}
+                              className="mt-0.5 accent-indigo-600"
+                            />
+                            <span>
+                              <span className="block font-medium">Cover page on its own</span>
+                              <span className="block text-stone-400 dark:text-stone-500">Show the first page alone, so facing pages pair up as in the printed book.</span>
+                            </span>
+                          </label>
+                        )}
+                        <label className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300 cursor-pointer select-none">
+                          <input
+                            type="checkbox"
+                            checked={rightToLeft}
+                            onChange={(e) => setRightToLeft(e.target.checked)}
+                            className="mt-0.5 accent-indigo-600"
+                          />
+                          <span>
+                            <span className="block font-medium">Right to left</span>
+                            <span className="block text-stone-400 dark:text-stone-500">Turn pages the way manga and right-to-left books read.</span>
+                          </span>
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
            {/* Settings Dropdown Trigger */}
-           {book.fileType !== 'pdf' && (
+           {isReflowable(book) && (
             <div className="relative">
               <button 
                 onClick={() => setShowSettings(!showSettings)}
@@ -565,6 +1518,34 @@ const Reader: React.FC<ReaderProps> = ({
                         />
                       </div>
 
+                      {/* Sandboxed Rendering */}
+                      <label className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300 cursor-pointer select-none">
+                        <input
+                          type="checkbox"
+                          checked={sandboxChapters}
+                          onChange={(e) => handleSandboxToggle(e.target.checked)}
+                          className="mt-0.5 accent-indigo-600"
+                        />
+                        <span>
+                          <span className="flex items-center gap-1 font-medium"><ShieldCheck className="w-3.5 h-3.5" /> Isolated chapters</span>
+                          <span className="block text-stone-400 dark:text-stone-500">Render chapters in a sandboxed frame that blocks scripts and remote content.</span>
+                        </span>
+                      </label>
+
+                      {/* Book Styles */}
+                      <label className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300 cursor-pointer select-none">
+                        <input
+                          type="checkbox"
+                          checked={overrideTypography}
+                          onChange={(e) => handleOverrideTypographyToggle(e.target.checked)}
+                          className="mt-0.5 accent-indigo-600"
+                        />
+                        <span>
+                          <span className="block font-medium">Override book styles</span>
+                          <span className="block text-stone-400 dark:text-stone-500">Use these font, size and spacing settings everywhere, even where the book sets its own.</span>
+                        </span>
+                      </label>
+
                       {/* Line Height */}
                       <div className="space-y-1">
                         <div className="flex justify-between text-xs text-stone-600 dark:text-stone-300">
@@ -594,24 +1575,24 @@ const Reader: React.FC<ReaderProps> = ({
             <button 
               onClick={handleZoomOut}
               className="p-1.5 hover:bg-white dark:hover:bg-gray-700 hover:shadow-sm rounded-md text-stone-600 dark:text-stone-300 transition-all"
-              title={book.fileType === 'pdf' ? "Zoom Out" : "Decrease Font Size"}
+              title={!isReflowable(book) ? "Zoom Out" : "Decrease Font Size"}
             >
               <ZoomOut className="w-4 h-4" />
             </button>
             <span className="text-xs font-medium w-12 text-center tabular-nums text-stone-600 dark:text-stone-300 select-none">
-              {book.fileType === 'pdf' ? `${Math.round(renderedScale * 100)}%` : `${fontSize}px`}
+              {!isReflowable(book) ? `${Math.round(renderedScale * 100)}%` : `${fontSize}px`}
             </span>
             <button 
               onClick={handleZoomIn}
               className="p-1.5 hover:bg-white dark:hover:bg-gray-700 hover:shadow-sm rounded-md text-stone-600 dark:text-stone-300 transition-all"
-              title={book.fileType === 'pdf' ? "Zoom In" : "Increase Font Size"}
+              title={!isReflowable(book) ? "Zoom In" : "Increase Font Size"}
             >
               <ZoomIn className="w-4 h-4" />
             </button>
           </div>
 
-           {/* PDF Specific Scale Options */}
-           {book.fileType === 'pdf' && (
+           {/* Fixed-layout (PDF and comic) Scale Options */}
+           {!isReflowable(book) && (
              <div className="hidden md:flex items-center gap-1 bg-stone-100 dark:bg-gray-800 rounded-lg p-1 ml-2 transition-colors duration-200">
               <button 
                 onClick={() => setScaleMode('width')}
@@ -658,42 +1639,115 @@ const Reader: React.FC<ReaderProps> = ({
         </div>
       </div>
 
+      {/* Peek Notice */}
+      {isPeeking && dismissedPeekPage !== currentPage && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200 z-10">
+          <Eye className="w-4 h-4 shrink-0" />
+          <span className="flex-1 min-w-0">
+            You jumped ahead. The assistant still only knows up to {boundaryLabel}.
+          </span>
+          <button
+            onClick={onConfirmPeek}
+            className="px-3 py-1 rounded-md bg-amber-100 dark:bg-amber-800/50 hover:bg-amber-200 dark:hover:bg-amber-800 font-medium transition-colors shrink-0"
+          >
+            I've read up to here
+          </button>
+          <button
+            onClick={() => setDismissedPeekPage(currentPage)}
+            className="p-1 rounded hover:bg-amber-100 dark:hover:bg-amber-800/50 transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Search Navigation */}
+      {searchQuery.trim().length >= 2 && !showSearch && (
+        <div className="flex items-center gap-2 px-4 py-1.5 bg-stone-50 dark:bg-gray-900 border-b border-stone-200 dark:border-gray-800 text-sm text-stone-600 dark:text-stone-300 z-10">
+          <button
+            onClick={() => setShowSearch(true)}
+            className="flex items-center gap-2 min-w-0 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+            title="Show all results"
+          >
+            <Search className="w-4 h-4 shrink-0" />
+            <span className="truncate font-medium">"{searchQuery.trim()}"</span>
+          </button>
+          <span className="text-xs text-stone-400 dark:text-stone-500 tabular-nums shrink-0">
+            {searchResults.hits.length === 0
+              ? 'No matches'
+              : activeHitIndex === -1
+                ? `${searchResults.hits.length} matches`
+                : `${activeHitIndex + 1} of ${searchResults.hits.length}`}
+            {searchResults.hiddenCount > 0 && ` · ${searchResults.hiddenCount} later`}
+          </span>
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => handleSearchStep(-1)}
+              disabled={searchResults.hits.length === 0}
+              className="p-1 rounded hover:bg-stone-200 dark:hover:bg-gray-800 disabled:opacity-30 transition-colors"
+              title="Previous match"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleSearchStep(1)}
+              disabled={searchResults.hits.length === 0}
+              className="p-1 rounded hover:bg-stone-200 dark:hover:bg-gray-800 disabled:opacity-30 transition-colors"
+              title="Next match"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={clearSearch}
+              className="p-1 rounded hover:bg-stone-200 dark:hover:bg-gray-800 transition-colors"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Content Area */}
       <div 
         ref={contentRef}
         className="flex-1 overflow-auto bg-stone-100/50 dark:bg-gray-950 relative transition-colors duration-200 overscroll-y-none"
         onWheel={handleWheel}
+        onScroll={handleScroll}
+        onMouseDown={() => { followViewportRef.current = true; }}
+        onMouseUp={handleSelectionEnd}
+        onClick={handleContentClick}
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
         tabIndex={0}
       >
-        <div className="min-h-full flex items-center justify-center p-4 md:p-8">
-          {book.fileType === 'pdf' ? (
-             <div className="relative shadow-lg transition-transform duration-200 ease-out origin-center bg-white">
-               <canvas ref={canvasRef} className="block" />
-               {/* Text Layer Overlay */}
-               <div ref={textLayerRef} className="textLayer" />
-               
-               {isRendering && (
-                 <div className="absolute inset-0 flex items-center justify-center bg-white/80 z-10">
-                   <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
-                 </div>
-               )}
-            </div>
-          ) : (
-            /* EPUB / HTML Content */
-            <div 
-              className={`w-full max-w-3xl bg-white dark:bg-gray-900 shadow-sm border border-stone-200 dark:border-gray-800 min-h-[60vh] p-8 md:p-12 transition-colors duration-200 ${fontFamilyClass[fontFamily]}`}
-              style={{ fontSize: `${fontSize}px`, lineHeight: lineHeight }}
-            >
-               <div 
-                 className="prose dark:prose-invert max-w-none prose-img:rounded-lg prose-img:shadow-sm prose-img:mx-auto prose-p:mb-4 prose-headings:font-serif prose-headings:text-ink dark:prose-headings:text-gray-100 text-ink dark:text-gray-200"
-                 dangerouslySetInnerHTML={{ __html: (book.renderData as string[])[currentPage] || "<p>No content</p>" }}
-               />
-            </div>
-          )}
-        </div>
+        {layout === 'continuous' ? (
+          <div ref={slotsRef} className="flex flex-col items-center gap-4 md:gap-6 p-4 md:p-8">
+            {Array.from({ length: book.totalPages }, (_, page) => {
+              const isRendered = page >= renderRange.first && page <= renderRange.last;
+              return (
+                <div
+                  key={page}
+                  className="w-full flex justify-center"
+                  style={isRendered ? undefined : { height: getPlaceholderHeight(page) }}
+                >
+                  {isRendered && renderPage(page)}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="min-h-full flex items-center justify-center p-4 md:p-8">
+            {layout === 'spread' ? (
+              <div className={`flex ${readsRightToLeft ? 'flex-row-reverse' : ''} shadow-lg bg-white transition-all duration-200 ease-out`}>
+                {/* By position, so turning the page redraws the same canvases instead of blank new ones */}
+                {viewPages.map((page, i) => <React.Fragment key={i}>{renderFixedPage(page)}</React.Fragment>)}
+              </div>
+            ) : renderPage(currentPage)}
+          </div>
+        )}
       </div>
 
       {/* Navigation Footer */}
@@ -708,7 +1762,7 @@ const Reader: React.FC<ReaderProps> = ({
         <div className="flex items-center justify-between sm:justify-center gap-2 sm:gap-8">
           <button
             onClick={handlePrev}
-            disabled={currentPage === 0}
+            disabled={prevTarget === null}
             className="flex items-center gap-1 sm:gap-2 px-2 sm:px-6 py-2 rounded-full hover:bg-stone-100 dark:hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-stone-700 dark:text-stone-300 font-medium"
             title="Previous Page (Left Arrow)"
           >
@@ -732,7 +1786,7 @@ const Reader: React.FC<ReaderProps> = ({
 
           <button
             onClick={handleNext}
-            disabled={currentPage === book.totalPages - 1}
+            disabled={nextTarget === null}
             className="flex items-center gap-1 sm:gap-2 px-2 sm:px-6 py-2 rounded-full hover:bg-stone-100 dark:hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-stone-700 dark:text-stone-300 font-medium"
             title="Next Page (Right Arrow)"
           >
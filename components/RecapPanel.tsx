@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollText, X, RefreshCw, Loader2, Square } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { Book, LlmSettings, ReadingPosition, RecapSummary } from '../types';
+import { listRecaps } from '../services/libraryStore';
+import {
+  RecapProgress, composeBookRecap, formatSectionLabel, getCachedBookRecap, isAutoRecapEnabled, setAutoRecapEnabled
+} from '../services/recaps';
+
+interface RecapPanelProps {
+  book: Book;
+  boundary: ReadingPosition;
+  positionLabel: string; // e.g. "Page 12" or "Chapter 3, 40%"
+  llmSettings: LlmSettings;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RecapPanel: React.FC<RecapPanelProps> = ({ book, boundary, positionLabel, llmSettings, isOpen, onClose }) => {
+  const [recap, setRecap] = useState('');
+  const [summaries, setSummaries] = useState<RecapSummary[]>([]);
+  const [progress, setProgress] = useState<RecapProgress | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [autoRecap, setAutoRecap] = useState(isAutoRecapEnabled);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The recap shown is the one written at the current boundary; an older one would be out of date
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([listRecaps(book.id), getCachedBookRecap(book, boundary)])
+      .then(([stored, cached]) => {
+        if (cancelled) return;
+        setSummaries(stored);
+        if (!abortRef.current) setRecap(cached?.text || '');
+      })
+      .catch(e => console.warn("Could not load recaps", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, book, boundary.page, boundary.charOffset]);
+
+  // Writing stops with the book
+  useEffect(() => () => abortRef.current?.abort(), [book.id]);
+
+  const handleWrite = async (refresh: boolean) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setError(null);
+    setRecap('');
+    try {
+      await composeBookRecap(book, boundary, llmSettings, {
+        refresh,
+        signal: controller.signal,
+        onChunk: setRecap,
+        onProgress: setProgress,
+        onSummary: summary => setSummaries(prev => [...prev.filter(s => s.key !== summary.key), summary]),
+      });
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Could not write the recap", e);
+        setError("The recap couldn't be written. Check the assistant settings and try again.");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsWriting(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsWriting(false);
+    setProgress(null);
+  };
+
+  const handleAutoRecapToggle = (enabled: boolean) => {
+    setAutoRecap(enabled);
+    setAutoRecapEnabled(enabled);
+  };
+
+  // Section summaries in reading order; parts repeat what their sections say
+  const sectionSummaries = summaries
+    .filter(summary => summary.key.startsWith('section:') && summary.last <= boundary.page)
+    .sort((a, b) => a.first - b.first);
+
+  return (
+    <div
+      className={`fixed inset-y-0 left-0 w-96 max-w-full bg-white dark:bg-gray-900 shadow-2xl z-40 transform transition-transform duration-300 ease-in-out border-r border-gray-200 dark:border-gray-800 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+    >
+      <div className="flex flex-col h-full">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+              <ScrollText className="w-5 h-5" /> Story So Far
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">Up to {positionLabel}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section>
+            {recap ? (
+              <div className="prose prose-sm dark:prose-invert max-w-none font-serif text-gray-700 dark:text-gray-300">
+                <ReactMarkdown>{recap}</ReactMarkdown>
+              </div>
+            ) : !isWriting && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                A recap of everything you have read, written from summaries kept as you go. Nothing past where you are is used.
+              </p>
+            )}
+
+            {isWriting && (
+              <div className="flex items-center gap-2 mt-3 text-xs text-indigo-600 dark:text-indigo-400">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                <span className="flex-1">
+                  {progress && progress.total > 0
+                    ? `Summarising ${progress.label} (${progress.done + 1} of ${progress.total})…`
+                    : 'Writing the recap…'}
+                </span>
+                <button
+                  onClick={handleStop}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  title="Stop"
+                >
+                  <Square className="w-3 h-3" /> Stop
+                </button>
+              </div>
+            )}
+            {error && <p className="mt-3 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+            {!isWriting && (
+              <button
+                onClick={() => handleWrite(!!recap)}
+                className="mt-3 w-full flex items-center justify-center gap-1.5 py-2 text-xs font-medium rounded-md bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+              >
+                {recap ? <><RefreshCw className="w-3.5 h-3.5" /> Write again</> : <><ScrollText className="w-3.5 h-3.5" /> Write recap</>}
+              </button>
+            )}
+          </section>
+
+          {sectionSummaries.length > 0 && (
+            <section>
+              <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Summaries</h4>
+              <div className="space-y-1">
+                {sectionSummaries.map(summary => (
+                  <button
+                    key={summary.key}
+                    onClick={() => setExpandedKey(expandedKey === summary.key ? null : summary.key)}
+                    className="w-full text-left px-3 py-2 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <span className="block text-xs text-gray-400 mb-0.5">{formatSectionLabel(book, summary)}</span>
+                    <span className={`block text-sm text-gray-700 dark:text-gray-300 ${expandedKey === summary.key ? '' : 'line-clamp-2'}`}>
+                      {summary.text}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="p-3 border-t border-gray-100 dark:border-gray-800">
+          <label className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={autoRecap}
+              onChange={(e) => handleAutoRecapToggle(e.target.checked)}
+              className="mt-0.5 accent-indigo-600"
+            />
+            <span>
+              <span className="block font-medium">Summarise as I read</span>
+              <span className="block text-gray-400 dark:text-gray-500">Each finished {book.fileType === 'epub' ? 'chapter' : 'run of pages'} is summarised in the background with the assistant's model, so recaps are quick.</span>
+            </span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecapPanel;
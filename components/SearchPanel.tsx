@@ -0,0 +1,131 @@
+import React, { useEffect, useRef } from 'react';
+import { Search, X, EyeOff } from 'lucide-react';
+import { Book, SearchResults } from '../types';
+import { getPageLabel } from '../services/readingPosition';
+
+interface SearchPanelProps {
+  book: Book;
+  isOpen: boolean;
+  onClose: () => void;
+  query: string;
+  onQueryChange: (query: string) => void;
+  includeUnread: boolean;
+  onIncludeUnreadChange: (includeUnread: boolean) => void;
+  results: SearchResults;
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  boundaryLabel: string;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  book, isOpen, onClose, query, onQueryChange, includeUnread, onIncludeUnreadChange,
+  results, activeIndex, onSelect, boundaryLabel
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  const hasQuery = query.trim().length >= 2;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && results.hits.length > 0) {
+      e.preventDefault();
+      const step = e.shiftKey ? -1 : 1;
+      onSelect((activeIndex + step + results.hits.length) % results.hits.length);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div
+        className={`fixed inset-y-0 left-0 w-80 bg-white dark:bg-gray-900 shadow-2xl z-40 transform transition-transform duration-300 ease-in-out border-r border-gray-200 dark:border-gray-800 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+      >
+        <div className="flex flex-col h-full">
+          <div className="p-4 border-b border-gray-100 dark:border-gray-800 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+                <Search className="w-5 h-5" /> Search
+              </h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <input
+              ref={inputRef}
+              type="search"
+              value={query}
+              onChange={e => onQueryChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search this book..."
+              className="w-full px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+
+            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeUnread}
+                onChange={e => onIncludeUnreadChange(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              Include pages I haven't read yet (may show spoilers)
+            </label>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2">
+            {results.hits.length > 0 ? (
+              <div className="space-y-1">
+                {results.hits.map((hit, index) => (
+                  <button
+                    key={`${hit.page}-${hit.start}`}
+                    onClick={() => onSelect(index)}
+                    className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                      index === activeIndex
+                        ? 'bg-indigo-50 dark:bg-indigo-900/30'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <span className="block text-xs text-gray-400 mb-0.5">{getPageLabel(book, hit.page)}</span>
+                    <span className="block text-sm text-gray-700 dark:text-gray-300 font-serif line-clamp-3">
+                      {hit.before}
+                      <mark className="search-hit rounded-sm">{hit.match}</mark>
+                      {hit.after}
+                    </span>
+                  </button>
+                ))}
+                {results.truncated && (
+                  <p className="px-3 py-2 text-xs text-gray-400">Showing the first {results.hits.length} matches.</p>
+                )}
+              </div>
+            ) : hasQuery ? (
+              <div className="text-center p-8 text-gray-500 dark:text-gray-400 text-sm">
+                No matches {includeUnread ? 'in this book' : `up to ${boundaryLabel}`}.
+              </div>
+            ) : (
+              <div className="text-center p-8 text-gray-500 dark:text-gray-400 text-sm">
+                Type at least two characters to search.
+              </div>
+            )}
+          </div>
+
+          {hasQuery && results.hiddenCount > 0 && (
+            <div className="p-3 border-t border-gray-100 dark:border-gray-800 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <EyeOff className="w-4 h-4 shrink-0" />
+              {results.hiddenCount} more {results.hiddenCount === 1 ? 'match' : 'matches'} later in the book
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-30" onClick={onClose} />
+      )}
+    </>
+  );
+};
+
+export default SearchPanel;
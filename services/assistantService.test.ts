@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Book, Citation, LlmSettings, Message } from '../types';
+import { generateAssistantResponse } from './assistantService';
+import { DEFAULT_LLM_SETTINGS, DEFAULT_MODELS, MOCK_FAILING_MODEL } from './llmProviders';
+
+const createBook = (content: string[]): Book => ({
+  id: 'book',
+  title: 'The Lighthouse',
+  fileType: 'epub',
+  content,
+  renderData: content,
+  totalPages: content.length,
+  fileName: 'lighthouse.epub',
+  toc: [],
+  metadata: {},
+});
+
+const book = createBook([
+  'The keeper climbed the stairs at dusk and lit the lamp above the rocks.',
+  'A boat came in with letters from the mainland and a new pair of boots.',
+  'Marguerite drowned in the winter storm before the relief boat came.',
+]);
+
+const MOCK_SETTINGS: LlmSettings = { ...DEFAULT_LLM_SETTINGS, provider: 'mock', model: DEFAULT_MODELS.mock };
+
+const createHistory = (question: string): Message[] => [
+  { id: 'welcome', role: 'assistant', content: 'Hello!', timestamp: 0 },
+  { id: 'question', role: 'user', content: question, timestamp: 1 },
+];
+
+// Runs a question through the mock model, recording every update sent to the chat
+const ask = async (settings: LlmSettings, signal?: AbortSignal, onUpdate?: (count: number) => void) => {
+  const chunks: { text: string; citations: Citation[] }[] = [];
+  const result = await generateAssistantResponse(
+    createHistory('What does the keeper do?'), book, { page: 1 }, settings,
+    (text, citations) => {
+      chunks.push({ text, citations });
+      onUpdate?.(chunks.length);
+    },
+    { signal }
+  );
+  return { result, chunks };
+};
+
+describe('generateAssistantResponse', () => {
+  it('streams the answer with its citations checked', async () => {
+    const { result, chunks } = await ask(MOCK_SETTINGS);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1].text).toBe(result);
+    expect(result).toContain('Mock answer to "What does the keeper do?"');
+    // The citation marker became a link to a passage on the first page
+    expect(result).toContain('[1](#citation-0)');
+    expect(chunks[chunks.length - 1].citations[0]).toMatchObject({ page: 0, start: 0 });
+    // The answer never shows an unfinished citation while it streams
+    chunks.forEach(chunk => expect(chunk.text).not.toContain('[['));
+  });
+
+  it('keeps what was written when stopped', async () => {
+    const controller = new AbortController();
+    const { result: full } = await ask(MOCK_SETTINGS);
+    const { result, chunks } = await ask(MOCK_SETTINGS, controller.signal, count => {
+      if (count === 3) controller.abort();
+    });
+
+    expect(result).not.toBe('');
+    expect(full.startsWith(result.trim())).toBe(true);
+    expect(result.length).toBeLessThan(full.length);
+    expect(chunks[chunks.length - 1].text).toBe(result);
+  });
+
+  it.each([
+    ['an empty conversation', []],
+    ['an answer', [...createHistory('Who is the keeper?'), { id: 'answer', role: 'assistant', content: 'A man.', timestamp: 2 }]],
+    ['an empty question', createHistory('  ')],
+  ] as [string, Message[]][])('refuses a conversation ending with %s', async (_, history) => {
+    const onChunk = vi.fn();
+    await expect(generateAssistantResponse(history, book, { page: 1 }, MOCK_SETTINGS, onChunk)).rejects.toThrow();
+    expect(onChunk).not.toHaveBeenCalled();
+  });
+
+  it('tells the chat when an answer is cut off', async () => {
+    const { result, chunks } = await ask({ ...MOCK_SETTINGS, model: MOCK_FAILING_MODEL });
+
+    expect(result).toMatch(/^Mock answer to .+\n\n_\(The response was cut off\.\)_$/s);
+    expect(chunks[chunks.length - 1].text).toBe(result);
+  });
+});
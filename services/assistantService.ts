@@ -0,0 +1,221 @@
+import { Book, ChatImage, ChatTurn, Citation, Highlight, LlmSettings, Message, ReadingPosition } from '../types';
+import { formatReadingPosition } from './readingPosition';
+import { buildReadingContext } from './retrieval';
+import { getProvider } from './llmProviders';
+import { formatHighlightsForPrompt, getReadHighlights } from './highlights';
+import { downscaleImage, parseDataUrl } from './imageUtils';
+import { CITATION_INSTRUCTIONS, extractCitations, stripCitationLinks } from './citations';
+import { hideSpoilers, stripSpoilerLinks } from './spoilerGuard';
+import { getRecapContext } from './recaps';
+
+interface AssistantResponseOptions {
+  onContextSelected?: (retrievedPages: number[]) => void;
+  signal?: AbortSignal; // Aborting keeps the text streamed so far
+  highlights?: Highlight[]; // The user's highlights and notes; those past the boundary are left out
+}
+
+// Comic pages have no text, so multimodal models are shown the latest pages read as images instead
+const COMIC_PAGES_IN_PROMPT = 8;
+const COMIC_IMAGE_MAX_WIDTH = 768;
+const COMIC_IMAGE_MAX_HEIGHT = 1152;
+
+// Earlier messages sent with each question, newest first until this many tokens (roughly) are used
+const HISTORY_TOKEN_BUDGET = 4000;
+const CHARS_PER_TOKEN = 4;
+
+// Downscaled page images per book, so follow-up questions don't re-encode the same pages
+const comicImageCache = new WeakMap<Book, Map<number, Promise<ChatImage | null>>>();
+
+const getComicPageImage = (book: Book, page: number): Promise<ChatImage | null> => {
+  let cache = comicImageCache.get(book);
+  if (!cache) {
+    cache = new Map();
+    comicImageCache.set(book, cache);
+  }
+  let image = cache.get(page);
+  if (!image) {
+    image = downscaleImage((book.renderData as string[])[page], COMIC_IMAGE_MAX_WIDTH, COMIC_IMAGE_MAX_HEIGHT)
+      .then(parseDataUrl)
+      .catch(e => {
+        console.warn(`Could not prepare page ${page + 1} for the assistant`, e);
+        return null;
+      });
+    cache.set(page, image);
+  }
+  return image;
+};
+
+// The last few pages up to and including the boundary page, oldest first
+const getRecentComicPages = async (book: Book, position: ReadingPosition) => {
+  const last = Math.min(position.page, book.totalPages - 1);
+  const first = Math.max(last - COMIC_PAGES_IN_PROMPT + 1, 0);
+  const pages: number[] = [];
+  const images: ChatImage[] = [];
+  for (let page = first; page <= last; page++) {
+    const image = await getComicPageImage(book, page);
+    if (image) {
+      pages.push(page);
+      images.push(image);
+    }
+  }
+  return { pages, images };
+};
+
+// The conversation as turns for the model, ending with the question being asked. Older messages are
+// left out once the budget is used up; the question itself is always sent.
+const buildHistoryTurns = (history: Message[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  let budget = HISTORY_TOKEN_BUDGET * CHARS_PER_TOKEN;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    // Answers stopped before they began have nothing to send
+    if (message.role === 'system' || !message.content.trim()) continue;
+    const content = stripSpoilerLinks(stripCitationLinks(message.content));
+    if (turns.length > 0 && content.length > budget) break;
+    budget -= content.length;
+    const turn: ChatTurn = { role: message.role, content };
+    // Two messages in a row from the same side (after an answer failed, say) become one turn
+    if (turns[0]?.role === turn.role) turns[0] = { ...turn, content: `${turn.content}\n\n${turns[0].content}` };
+    else turns.unshift(turn);
+  }
+  // Conversations start with the user; the greeting before the first question isn't sent
+  while (turns[0]?.role === 'assistant') turns.shift();
+  return turns;
+};
+
+export const generateAssistantResponse = async (
+  currentHistory: Message[],
+  book: Book,
+  position: ReadingPosition,
+  settings: LlmSettings,
+  // Receives the answer so far, with its citations checked against the pages read and turned into
+  // links, and sentences that may give away unread pages hidden behind links of their own
+  onChunk: (text: string, citations: Citation[], spoilers: string[]) => void,
+  options: AssistantResponseOptions = {}
+): Promise<string> => {
+  const provider = getProvider(settings);
+
+  // The conversation has to end with the question, which becomes the last turn sent
+  const question = currentHistory[currentHistory.length - 1];
+  if (question?.role !== 'user' || !question.content.trim()) {
+    throw new Error('The conversation does not end with a question to answer.');
+  }
+
+  // Construct the "Read So Far" context
+  // Only pages within the read boundary are eligible, with the boundary page cut where the reader
+  // stopped. Long books get the passages most relevant to the question plus the latest pages.
+  const lastUserMessage = question.content;
+  const context = buildReadingContext(book, position, lastUserMessage);
+  const contextText = context.text;
+  options.onContextSelected?.(context.retrievedPages);
+
+  // Excerpts of a long book leave gaps; summaries of the sections read (written earlier, see
+  // services/recaps) fill them in compactly
+  const recapText = context.isComplete ? '' : await getRecapContext(book, position).catch(e => {
+    console.warn("Could not load recap summaries", e);
+    return '';
+  });
+
+  const isComic = book.fileType === 'cbz';
+  const comicPages = isComic && provider.supportsImages(settings)
+    ? await getRecentComicPages(book, position)
+    : { pages: [], images: [] };
+
+  const readSoFarSection = !isComic
+    ? `
+    Here is ${context.retrievedPages.length > 0 ? 'the relevant content' : 'the content'} they have read so far:
+    """
+    ${contextText}
+    """${recapText ? `
+
+    Summaries of the parts they have read, oldest first, for the story as a whole:
+    """
+    ${recapText}
+    """` : ''}`
+    : comicPages.images.length > 0
+      ? `
+    This is a comic. The most recent pages they have read (${comicPages.pages.map(page => page + 1).join(', ')}) are attached as images, in order.
+    Earlier pages were read too but are not shown; say so if a question needs them.`
+      : `
+    This is a comic, and the current model cannot see its pages.
+    If asked what happens in it, explain that a model that accepts images is needed to see the pages.`;
+
+  const readHighlights = getReadHighlights(options.highlights || [], position);
+  const highlightsSection = readHighlights.length > 0
+    ? `
+    The user's own highlights and notes (written by the user, not part of the book):
+    ${formatHighlightsForPrompt(readHighlights)}
+    `
+    : '';
+
+  const bookLabel = book.metadata.author
+    ? `"${book.title}" by ${book.metadata.author}`
+    : `"${book.title}"`;
+
+  const systemInstruction = `
+    You are a strict "No-Spoiler" Reading Assistant. 
+    The user is reading ${bookLabel} and has strictly read ONLY up to ${formatReadingPosition(book, position)}.
+    The text of the last page stops exactly where the user stopped reading.
+    Refer to the book by its title and author where natural.
+    ${readSoFarSection}
+    ${highlightsSection}
+
+    YOUR RULES:
+    1. Answer ONLY using the information provided in the context above. Pages not shown were still read, but aren't relevant to this question.
+    2. Do NOT use outside knowledge about the book's plot, ending, or future characters.
+    3. If the user asks about an event, character, or detail NOT present in the pages read so far, respond: "I don't have information about that yet based on the pages you've read."
+    4. If asked to summarize, summarize ONLY the pages provided.
+    5. If asked for a prediction, politely decline and redirect to current events.
+    6. Be helpful with definitions, clarifications, and summaries of past events.
+    ${isComic ? '' : CITATION_INSTRUCTIONS}
+    
+    Maintain a helpful, literary tone.
+  `;
+
+  // The comic pages go with the question, the last turn
+  const turns = buildHistoryTurns(currentHistory);
+  turns[turns.length - 1] = { ...turns[turns.length - 1], images: comicPages.images };
+
+  let fullText = "";
+  // Checked again as each chunk arrives, so a spoiler is hidden before it is ever shown. While the
+  // answer streams, a word still being written is held back until it can be checked whole.
+  const checkAnswer = (isComplete: boolean) => {
+    const text = isComplete ? fullText : fullText.slice(0, fullText.search(/\S*$/));
+    const cited = extractCitations(text, book, position, isComplete);
+    const guarded = hideSpoilers(cited.text, book, position, lastUserMessage);
+    return { text: guarded.text, citations: cited.citations, spoilers: guarded.spoilers };
+  };
+
+  try {
+    const stream = provider.streamChat({
+      systemInstruction,
+      turns,
+      signal: options.signal,
+    }, settings);
+
+    for await (const text of stream) {
+      fullText += text;
+      const answer = checkAnswer(false);
+      onChunk(answer.text, answer.citations, answer.spoilers);
+    }
+
+    const answer = checkAnswer(true);
+    onChunk(answer.text, answer.citations, answer.spoilers);
+    return answer.text;
+
+  } catch (error) {
+    // However the answer ends, the chat hears of it through onChunk, like the rest of the answer
+    const answer = fullText ? checkAnswer(true) : { text: '', citations: [], spoilers: [] };
+    if (options.signal?.aborted) {
+      // Stopped by the reader: what was written so far stands, and the message is marked as stopped
+      onChunk(answer.text, answer.citations, answer.spoilers);
+      return answer.text;
+    }
+    console.error(`${provider.label} API Error:`, error);
+    const text = fullText
+      ? `${answer.text}\n\n_(The response was cut off.)_`
+      : "I'm having trouble connecting to my knowledge base right now. Please try again.";
+    onChunk(text, answer.citations, answer.spoilers);
+    return text;
+  }
+};
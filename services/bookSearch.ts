@@ -0,0 +1,94 @@
+import { Book, ReadingPosition, SearchHit, SearchResults } from '../types';
+
+const SNIPPET_CONTEXT = 48;
+const MAX_HITS = 500;
+
+interface SearchOptions {
+  boundary: ReadingPosition;
+  includeUnread?: boolean; // Search past the boundary too; otherwise those matches are only counted
+}
+
+// Lowercases one character at a time so offsets into the folded text still line up with the original
+const foldCase = (text: string) =>
+  Array.from(text, char => {
+    const lower = char.toLowerCase();
+    return lower.length === char.length ? lower : char;
+  }).join('');
+
+// Folded page text is kept per book so searching as you type doesn't redo it for every keystroke
+const foldedPagesCache = new WeakMap<Book, string[]>();
+
+const getFoldedPages = (book: Book) => {
+  let pages = foldedPagesCache.get(book);
+  if (!pages) {
+    pages = book.content.map(text => foldCase(text));
+    foldedPagesCache.set(book, pages);
+  }
+  return pages;
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+// Where the text read on a page ends: the boundary on the boundary page, the whole page before it
+const getReadLength = (text: string, page: number, boundary: ReadingPosition) =>
+  page === boundary.page && boundary.charOffset !== undefined ? Math.min(boundary.charOffset, text.length) : text.length;
+
+// True when any of the match lies past the point the reader stopped
+const isPastBoundary = (text: string, page: number, end: number, boundary: ReadingPosition) =>
+  page > boundary.page || end > getReadLength(text, page, boundary);
+
+// `limit` is where the snippet must stop, so it can't show text past the boundary
+const buildSnippet = (text: string, start: number, end: number, limit = text.length) => {
+  let from = Math.max(start - SNIPPET_CONTEXT, 0);
+  let to = Math.min(end + SNIPPET_CONTEXT, limit);
+  // Don't cut words in half at the snippet edges
+  if (from > 0) from = text.indexOf(' ', from) + 1 || from;
+  if (to < text.length) to = text.lastIndexOf(' ', to) > end ? text.lastIndexOf(' ', to) : to;
+
+  return {
+    before: (from > 0 ? '…' : '') + text.slice(from, start),
+    match: text.slice(start, end),
+    after: text.slice(end, to) + (to < text.length ? '…' : ''),
+  };
+};
+
+// Case-insensitive phrase search over the extracted page text.
+// Whole-word matches rank above matches inside longer words; ties keep reading order.
+export const searchBook = (book: Book, query: string, options: SearchOptions): SearchResults => {
+  const needle = foldCase(query.replace(/\s+/g, ' ').trim());
+  const results: SearchResults = { hits: [], hiddenCount: 0, truncated: false };
+  if (needle.length < 2) return results;
+
+  const hits: SearchHit[] = [];
+
+  const foldedPages = getFoldedPages(book);
+  book.content.forEach((text, page) => {
+    const folded = foldedPages[page];
+    let index = folded.indexOf(needle);
+    while (index !== -1) {
+      const end = index + needle.length;
+      if (!options.includeUnread && isPastBoundary(text, page, end, options.boundary)) {
+        results.hiddenCount++;
+      } else if (hits.length >= MAX_HITS) {
+        results.truncated = true;
+      } else {
+        const wordStart = !isWordChar(text[index - 1]);
+        const wordEnd = !isWordChar(text[end]);
+        hits.push({
+          page,
+          start: index,
+          end,
+          score: (wordStart ? 1 : 0) + (wordEnd ? 1 : 0),
+          ...buildSnippet(
+            text, index, end, options.includeUnread ? text.length : getReadLength(text, page, options.boundary)
+          ),
+        });
+      }
+      index = folded.indexOf(needle, index + 1);
+    }
+  });
+
+  // Array.prototype.sort is stable, so equal scores stay in reading order
+  results.hits = hits.sort((a, b) => b.score - a.score);
+  return results;
+};
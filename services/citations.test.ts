@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '../types';
+import { extractCitations, stripCitationLinks } from './citations';
+
+const createBook = (content: string[]): Book => ({
+  id: 'book',
+  title: 'Book',
+  fileType: 'epub',
+  content,
+  renderData: content,
+  totalPages: content.length,
+  fileName: 'book.epub',
+  toc: [],
+  metadata: {},
+});
+
+const book = createBook([
+  'The keeper climbed the stairs at dusk and lit the lamp.',
+  'A boat came in with letters. Later that night the lamp went out for good.',
+  'The relief boat never came.',
+]);
+// Part way through the second page, before "Later that night"
+const boundary = { page: 1, charOffset: book.content[1].indexOf('Later') };
+
+describe('extractCitations', () => {
+  it('links citations to the quoted passage', () => {
+    const { text, citations } = extractCitations('He lit it [[Page 1: "climbed the stairs at dusk"]].', book, boundary);
+    expect(text).toBe('He lit it [1](#citation-0).');
+    expect(citations).toEqual([{ page: 0, start: 11, end: 37, quote: 'climbed the stairs at dusk' }]);
+  });
+
+  it('finds quotes whatever their case, spacing and quote marks', () => {
+    const { citations } = extractCitations('[[Page 1: “The  KEEPER climbed”]]', book, boundary);
+    expect(citations).toEqual([{ page: 0, start: 0, end: 18, quote: 'The keeper climbed' }]);
+  });
+
+  it('cites the page alone when the quote is not on it', () => {
+    const { text, citations } = extractCitations('A boat [[Page 2: "a ship sailed in"]]', book, boundary);
+    expect(text).toBe('A boat [2](#citation-0)');
+    expect(citations).toEqual([{ page: 1 }]);
+  });
+
+  it('links repeated citations of a passage to the same citation', () => {
+    const { text, citations } = extractCitations(
+      'One [[Page 1: "lit the lamp"]] and two [[Page 1: "lit the lamp"]]', book, boundary
+    );
+    expect(text).toBe('One [1](#citation-0) and two [1](#citation-0)');
+    expect(citations).toHaveLength(1);
+  });
+
+  it('drops citations of pages past the boundary', () => {
+    const { text, citations } = extractCitations('It never came [[Page 3: "never came"]].', book, boundary);
+    expect(text).toBe('It never came.');
+    expect(citations).toEqual([]);
+  });
+
+  it('drops citations of the unread part of the boundary page', () => {
+    const { text, citations } = extractCitations('It went out [[Page 2: "the lamp went out"]].', book, boundary);
+    expect(text).toBe('It went out.');
+    expect(citations).toEqual([]);
+  });
+
+  it('holds back a citation still being streamed', () => {
+    expect(extractCitations('He lit it [[Page 1: "climbed the', book, boundary, false).text).toBe('He lit it ');
+    expect(extractCitations('He lit it [[Page 1: "climbed the', book, boundary).text).toBe('He lit it [[Page 1: "climbed the');
+  });
+});
+
+describe('stripCitationLinks', () => {
+  it('removes the links an answer was given', () => {
+    const { text } = extractCitations('He lit it [[Page 1: "lit the lamp"]].', book, boundary);
+    expect(stripCitationLinks(text)).toBe('He lit it.');
+  });
+});
@@ -0,0 +1,68 @@
+import { Book, Citation, ReadingPosition } from '../types';
+import { getReadPages } from './readingPosition';
+
+// The assistant cites the pages its answer rests on inline, as [[Page 12: "a few exact words"]].
+// Citations are checked against what has been read and turned into links the chat renders as chips.
+
+export const CITATION_INSTRUCTIONS = `
+    CITATIONS:
+    After each claim about the book, cite the page it comes from as [[Page N: "exact words"]], where N is the number in the [Page N] label of the passage and "exact words" are copied word for word from it (a short phrase of 3 to 12 words).
+    Only cite pages from the context above. Don't cite the user's notes, and don't add citations for general knowledge.`;
+
+const CITATION_PATTERN = /[ \t]*\[\[\s*Page\s+(\d+)\s*(?::\s*["“]([^"”\]]*)["”]?)?\s*\]\]/gi;
+// A citation still being streamed in, at the end of the text
+const PARTIAL_CITATION_PATTERN = /\[\[[^\]]*\]?$/;
+// Longer quotes are rarely copied exactly; they are searched for by their first words only
+const MAX_QUOTE_WORDS = 24;
+
+export const CITATION_LINK_PREFIX = '#citation-';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds a quote in the page text, ignoring case, spacing and the style of quote marks and apostrophes
+const findQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const words = quote.split(/\s+/).filter(Boolean).slice(0, MAX_QUOTE_WORDS);
+  if (words.length === 0) return null;
+  const pattern = words
+    .map(word => escapeRegExp(word).replace(/['‘’]/g, "['‘’]").replace(/["“”]/g, '["“”]'))
+    .join('\\s+');
+  const match = new RegExp(pattern, 'iu').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// Replaces the citation markers in an answer with links to its citations. Citations of pages past
+// the read boundary (or of the unread end of the boundary page) are dropped, so an answer can't point
+// the reader ahead. A quote that can't be found still cites its page, without a passage to show.
+export const extractCitations = (
+  answer: string,
+  book: Book,
+  boundary: ReadingPosition,
+  isComplete = true
+): { text: string; citations: Citation[] } => {
+  const readPages = getReadPages(book, boundary);
+  const citations: Citation[] = [];
+  let text = answer.replace(CITATION_PATTERN, (_, pageNumber: string, quote?: string) => {
+    const page = parseInt(pageNumber, 10) - 1;
+    const pageText = readPages[page];
+    if (pageText === undefined) return '';
+
+    const passage = quote ? findQuote(pageText, quote) : null;
+    // A quote found only past where the reader stopped comes from the unread part of the page
+    if (quote && !passage && page === boundary.page && findQuote(book.content[page] || '', quote)) return '';
+
+    let index = citations.findIndex(c => c.page === page && c.start === passage?.start);
+    if (index === -1) {
+      index = citations.length;
+      citations.push(passage
+        ? { page, start: passage.start, end: passage.end, quote: pageText.slice(passage.start, passage.end) }
+        : { page });
+    }
+    return ` [${page + 1}](${CITATION_LINK_PREFIX}${index})`;
+  });
+  if (!isComplete) text = text.replace(PARTIAL_CITATION_PATTERN, '');
+  return { text, citations };
+};
+
+// Earlier answers go back to the model without their links, which it would otherwise imitate
+export const stripCitationLinks = (text: string) =>
+  text.replace(new RegExp(` \\[\\d+\\]\\(${CITATION_LINK_PREFIX}\\d+\\)`, 'g'), '');
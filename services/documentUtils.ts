@@ -1,53 +1,244 @@
-import { Book, TocItem } from '../types';
+import {
+  Book, BookMetadata, BookResource, ArchiveFiles, OcrWord, ParseProgress, ParserWorkerMessage, ParserWorkerRequest, TocItem
+} from '../types';
+import { createRetrievalIndex, indexPage, registerBookIndex } from './retrieval';
+import { hashFile } from './libraryStore';
+import { isExternalLink, sanitizeChapter } from './htmlSanitizer';
+import { downscaleImage } from './imageUtils';
+import { markNoteReferences } from './footnotes';
+import {
+  TextFormat, decodeText, fb2ToDocument, getTextFormat, htmlToDocument, markdownToDocument, splitIntoPages, textToDocument
+} from './textFormats';
+import { StylesheetUrlResolver, buildInternalHref, scopeStylesheet, toResourceUrl } from './epubContent';
+import { HEADER_FOOTER_WINDOW, PdfPageLayout, getPdfPageText, lacksTextLayer, layoutPdfPage } from './pdfLayout';
+import { acquirePdfDocument, releasePdfDocument } from './pdfDocument';
 
 declare global {
   interface Window {
     pdfjsLib: any;
-    JSZip: any;
   }
 }
 
-const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+const THUMBNAIL_WIDTH = 300; // px, for cover previews
+// How often a PDF opened early is republished as its text fills in
+const BOOK_UPDATE_INTERVAL_MS = 2000;
 
-export const parseFile = async (file: File): Promise<Book> => {
+// Removes undefined/empty fields so spreads and display checks stay simple
+const compactMetadata = (metadata: BookMetadata): BookMetadata => {
+  const result: BookMetadata = {};
+  (Object.keys(metadata) as (keyof BookMetadata)[]).forEach(key => {
+    const value = metadata[key]?.trim();
+    if (value) result[key] = value;
+  });
+  return result;
+};
+
+const ISBN_PATTERN = /^(?:urn:isbn:)?((?:97[89][- ]?)?(?:\d[- ]?){9}[\dXx])$/i;
+const UUID_PATTERN = /^(?:urn:uuid:)?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export interface ParseOptions {
+  signal?: AbortSignal; // Aborting stops the parser worker and rejects with the signal's reason
+  onProgress?: (progress: ParseProgress) => void;
+  // PDF only: receives a readable book as soon as the document has loaded, then a new copy of it
+  // (with a new content array) every so often as more pages' text is extracted, so anything cached
+  // against the book is rebuilt. parseFile resolves once it is complete.
+  onBookReady?: (book: Book) => void;
+  onBookUpdate?: (book: Book) => void;
+}
+
+// `id` can be passed when the caller has already hashed the file (e.g. to check the library first)
+export const parseFile = async (file: File, id?: string, options: ParseOptions = {}): Promise<Book> => {
   const fileType = file.type;
+  const textFormat = getTextFormat(file);
+  const bookId = id || await hashFile(file);
   
   if (fileType === 'application/pdf') {
-    return parsePdf(file);
+    return parsePdf(file, bookId, options);
   } else if (fileType === 'application/epub+zip' || file.name.endsWith('.epub')) {
-    return parseEpub(file);
+    return parseEpub(file, bookId, options);
+  } else if (fileType === 'application/vnd.comicbook+zip' || /\.cbz$/i.test(file.name)) {
+    return parseComicArchive(file, bookId, options);
+  } else if (textFormat) {
+    return parseTextDocument(file, bookId, textFormat, options);
   } else {
-    throw new Error('Unsupported file type. Please upload PDF or EPUB.');
+    throw new Error('Unsupported file type. Please upload a PDF, EPUB, CBZ, FB2, HTML, Markdown or plain text file.');
   }
 };
 
-const parsePdf = async (file: File): Promise<Book> => {
-  if (!window.pdfjsLib) {
-    throw new Error('PDF.js library not loaded');
+// Runs one request on a fresh parser worker, passing its messages to `onMessage` until it is done.
+// Terminating the worker is how parsing is cancelled.
+const runParserWorker = (
+  request: ParserWorkerRequest,
+  onMessage: (message: ParserWorkerMessage) => void,
+  signal?: AbortSignal,
+  transfer: Transferable[] = []
+): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
   }
 
-  window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url));
+  const finish = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', handleAbort);
+  };
+  const handleAbort = () => {
+    finish();
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', handleAbort);
 
-  const arrayBuffer = await file.arrayBuffer();
-  // We keep the original buffer for rendering
-  const renderData = arrayBuffer.slice(0); 
+  worker.onmessage = (event: MessageEvent) => {
+    // PDF.js's worker code announces itself on the same channel; only our messages have a `type`
+    const message = event.data as ParserWorkerMessage;
+    if (!message || typeof message !== 'object' || !('type' in message)) return;
 
-  const loadingTask = window.pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
+    if (message.type === 'done') {
+      finish();
+      resolve();
+    } else if (message.type === 'error') {
+      finish();
+      reject(new Error(message.message));
+    } else {
+      onMessage(message);
+    }
+  };
+  worker.onerror = (event) => {
+    finish();
+    reject(new Error(event.message || 'The parser worker failed to start.'));
+  };
+  worker.postMessage(request, transfer);
+});
 
-  const pages: string[] = [];
-  
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    
-    pages.push(pageText.replace(/\s+/g, ' ').trim());
+// Lets the browser paint and handle input between chunks of main-thread parsing
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const parsePdf = async (file: File, id: string, options: ParseOptions): Promise<Book> => {
+  options.onProgress?.({ phase: 'loading', done: 0, total: 1 });
+
+  const renderData = await file.arrayBuffer();
+  // The text extraction worker gets a copy of its own
+  const textData = renderData.slice(0);
+
+  // The document opened here is the one the Reader renders from, and OCR reuses it
+  const pdf = await acquirePdfDocument(renderData);
+  try {
+    return await extractPdfBook(file, id, options, pdf, renderData, textData);
+  } finally {
+    releasePdfDocument(renderData);
+  }
+};
+
+const extractPdfBook = async (
+  file: File,
+  id: string,
+  options: ParseOptions,
+  pdf: any,
+  renderData: ArrayBuffer,
+  textData: ArrayBuffer
+): Promise<Book> => {
+  const numPages: number = pdf.numPages;
+
+  const toc = await extractPdfOutline(pdf);
+  const metadata = await extractPdfMetadata(pdf);
+  const pageDirection = await extractPdfPageDirection(pdf);
+  const title = metadata.title || file.name.replace(/\.pdf$/i, '');
+  delete metadata.title;
+  options.signal?.throwIfAborted();
+
+  // Pages fill in as the worker extracts them, so the book is readable (and searchable so far) right away
+  const pages: string[] = new Array(numPages).fill('');
+  const searchIndex = createRetrievalIndex();
+  const book: Book = {
+    id,
+    title,
+    fileType: 'pdf',
+    content: pages,
+    renderData: renderData,
+    totalPages: numPages,
+    fileName: file.name,
+    toc: toc,
+    metadata,
+    ...(pageDirection ? { pageDirection } : {}),
+  };
+  registerBookIndex(book, searchIndex);
+  options.onBookReady?.(book);
+
+  // Copies share the search index, which is filled in as pages arrive
+  let publishedAt = Date.now();
+  const publishPages = () => {
+    if (!options.onBookUpdate || Date.now() - publishedAt < BOOK_UPDATE_INTERVAL_MS) return;
+    const updatedBook: Book = { ...book, content: [...pages] };
+    registerBookIndex(updatedBook, searchIndex);
+    publishedAt = Date.now();
+    options.onBookUpdate(updatedBook);
+  };
+
+  // A page's text is settled once the pages after it that are compared for running headers and
+  // footers have arrived; the worker sends pages in order.
+  const layouts: PdfPageLayout[] = [];
+  let pagesSettled = 0;
+  const settlePagesBefore = (end: number) => {
+    if (pagesSettled >= end) return;
+    for (; pagesSettled < end; pagesSettled++) {
+      pages[pagesSettled] = getPdfPageText(layouts, pagesSettled);
+      indexPage(searchIndex, pagesSettled, pages[pagesSettled]);
+    }
+    publishPages();
+  };
+
+  let pagesDone = 0;
+  await runParserWorker({ type: 'pdf', data: textData }, message => {
+    if (message.type !== 'pdf-page') return;
+    layouts[message.page] = layoutPdfPage(message.items);
+    settlePagesBefore(message.page - HEADER_FOOTER_WINDOW + 1);
+    pagesDone++;
+    options.onProgress?.({ phase: 'text', done: pagesDone, total: numPages });
+  }, options.signal, [textData]);
+  settlePagesBefore(numPages);
+
+  // Scanned pages have no text layer to extract, so their text is recognised locally instead.
+  // The OCR engine is only loaded for books that need it.
+  const scannedPages = pages.map((text, page) => lacksTextLayer(text) ? page : -1).filter(page => page !== -1);
+  const ocrWords: Record<number, OcrWord[]> = {};
+  if (scannedPages.length > 0) {
+    const { recognizePdfPages } = await import('./ocr');
+    let pagesRecognised = 0;
+    options.onProgress?.({ phase: 'ocr', done: 0, total: scannedPages.length });
+    await recognizePdfPages(pdf, id, scannedPages, result => {
+      pages[result.page] = result.text;
+      ocrWords[result.page] = result.words;
+      indexPage(searchIndex, result.page, result.text);
+      publishPages();
+      pagesRecognised++;
+      options.onProgress?.({ phase: 'ocr', done: pagesRecognised, total: scannedPages.length });
+    }, options.signal);
+  }
+
+  // A new object, so anything cached against the partial book is rebuilt
+  const completeBook: Book = {
+    ...book,
+    content: [...pages],
+    ...(scannedPages.length > 0 ? { ocrWords } : {}),
+  };
+  registerBookIndex(completeBook, searchIndex);
+  return completeBook;
+};
+
+// The reading direction from the document's viewer preferences, if it sets one
+const extractPdfPageDirection = async (pdf: any): Promise<'ltr' | 'rtl' | undefined> => {
+  try {
+    const preferences = await pdf.getViewerPreferences();
+    if (preferences?.Direction === 'R2L') return 'rtl';
+    if (preferences?.Direction === 'L2R') return 'ltr';
+  } catch (e) {
+    console.warn("Could not read PDF viewer preferences", e);
   }
+  return undefined;
+};
 
-  // Extract Table of Contents
+const extractPdfOutline = async (pdf: any): Promise<TocItem[]> => {
   const toc: TocItem[] = [];
   const outline = await pdf.getOutline();
   
@@ -89,63 +280,362 @@ const parsePdf = async (file: File): Promise<Book> => {
     };
     await processOutline(outline);
   }
+  return toc;
+};
+
+// PDF dates look like "D:20210314093000+01'00'"
+const formatPdfDate = (value?: string) => {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return value;
+  return [match[1], match[2], match[3]].filter(Boolean).join('-');
+};
+
+const renderPdfThumbnail = async (pdf: any): Promise<string | undefined> => {
+  try {
+    const page = await pdf.getPage(1);
+    const unscaled = page.getViewport({ scale: 1.0 });
+    const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / unscaled.width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (e) {
+    console.warn("Could not render PDF thumbnail", e);
+    return undefined;
+  }
+};
+
+// Combines the Info dictionary with XMP metadata, preferring XMP where both exist
+const extractPdfMetadata = async (pdf: any): Promise<BookMetadata & { title?: string }> => {
+  let info: any = {};
+  let xmp: any = null;
+  try {
+    const result = await pdf.getMetadata();
+    info = result.info || {};
+    xmp = result.metadata;
+  } catch (e) {
+    console.warn("Could not read PDF metadata", e);
+  }
+
+  const fromXmp = (name: string): string | undefined => {
+    const value = xmp?.get(name);
+    if (Array.isArray(value)) return value.join(', ');
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const identifier = fromXmp('dc:identifier') || '';
+  const isbn = identifier.match(ISBN_PATTERN)?.[1];
+  const uuid = identifier.match(UUID_PATTERN)?.[1] || fromXmp('xmpMM:DocumentID')?.match(/([0-9a-f-]{36})$/i)?.[1];
+
+  const metadata = compactMetadata({
+    author: fromXmp('dc:creator') || info.Author,
+    language: fromXmp('dc:language') || info.Language,
+    publisher: fromXmp('dc:publisher'),
+    publishedDate: formatPdfDate(fromXmp('xmp:createdate') || info.CreationDate),
+    description: fromXmp('dc:description') || info.Subject,
+    isbn,
+    uuid,
+  });
+  const title = (fromXmp('dc:title') || info.Title || '').trim();
 
   return {
-    title: file.name.replace('.pdf', ''),
-    fileType: 'pdf',
-    content: pages,
-    renderData: renderData,
-    totalPages: pages.length,
-    fileName: file.name,
-    toc: toc,
+    ...metadata,
+    ...(title ? { title } : {}),
+    coverImage: await renderPdfThumbnail(pdf),
   };
 };
 
-const parseEpub = async (file: File): Promise<Book> => {
-  if (!window.JSZip) {
-    throw new Error('JSZip library not loaded');
+// --- EPUB ---
+
+interface EpubManifestItem {
+  id: string;
+  path: string; // Absolute path within the zip
+  mediaType: string;
+  properties: string[];
+}
+
+interface EpubPackage {
+  opfPath: string;
+  manifest: Map<string, EpubManifestItem>;
+  spine: EpubManifestItem[];
+  navPath?: string; // EPUB3 navigation document
+  ncxPath?: string; // EPUB2 toc.ncx
+  coverPath?: string;
+  title?: string;
+  metadata: BookMetadata;
+}
+
+const EPUB_OPS_NS = 'http://www.idpf.org/2007/ops';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+
+const LINK_PLACEHOLDER = '#epub-link:';
+const LINK_PLACEHOLDER_PATTERN = /href="#epub-link:([^":]*):([^"]*)"/g;
+
+// Resolve a relative href against the file it appears in (zip paths, no leading slash)
+const resolvePath = (base: string, relative: string) => {
+  const stack = base.split("/");
+  stack.pop(); // remove current filename
+  const parts = relative.split("/");
+  for (let part of parts) {
+    if (part === "." || part === "") continue;
+    if (part === "..") stack.pop();
+    else stack.push(part);
   }
+  return stack.join("/");
+};
 
-  const zip = new window.JSZip();
-  const content = await zip.loadAsync(file);
-  
-  const files = Object.keys(content.files).filter(fileName => 
-    fileName.endsWith('.html') || fileName.endsWith('.xhtml') || fileName.endsWith('.htm')
-  );
-  
-  // Basic sorting to try and respect order (not perfect without OPF parsing but sufficient for simple reader)
-  files.sort();
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
 
-  const textPages: string[] = [];
-  const htmlPages: string[] = [];
+const getMimeType = (path: string) => {
+  const filename = path.toLowerCase();
+  if (filename.endsWith('.jpg') || filename.endsWith('.jpeg')) return 'image/jpeg';
+  if (filename.endsWith('.png')) return 'image/png';
+  if (filename.endsWith('.gif')) return 'image/gif';
+  if (filename.endsWith('.svg')) return 'image/svg+xml';
+  if (filename.endsWith('.webp')) return 'image/webp';
+  if (filename.endsWith('.avif')) return 'image/avif';
+  if (filename.endsWith('.bmp')) return 'image/bmp';
+  if (filename.endsWith('.otf')) return 'font/otf';
+  if (filename.endsWith('.ttf')) return 'font/ttf';
+  if (filename.endsWith('.woff')) return 'font/woff';
+  if (filename.endsWith('.woff2')) return 'font/woff2';
+  return 'application/octet-stream';
+};
+
+const isHtmlPath = (fileName: string) =>
+  fileName.endsWith('.html') || fileName.endsWith('.xhtml') || fileName.endsWith('.htm');
+
+// Zip entries may or may not be URL-encoded depending on the tool that built the EPUB
+const getEpubFile = (files: Record<string, string>, path: string): string | undefined =>
+  files[path] ?? files[safeDecode(path)];
+
+const readXml = (files: ArchiveFiles, path: string, mimeType: DOMParserSupportedType = 'application/xml'): Document | null => {
+  const text = getEpubFile(files.textFiles, path);
+  if (text === undefined) return null;
+  const doc = new DOMParser().parseFromString(text, mimeType);
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  return doc;
+};
+
+const childElements = (parent: Element, localName: string) =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+// Reads META-INF/container.xml and the OPF it points to. Returns null for EPUBs without a usable package document.
+const loadEpubPackage = (files: ArchiveFiles): EpubPackage | null => {
+  const container = readXml(files, 'META-INF/container.xml');
+  const rootfile = container?.getElementsByTagNameNS('*', 'rootfile')[0];
+  const opfPath = rootfile?.getAttribute('full-path');
+  if (!opfPath) return null;
+
+  const opf = readXml(files, opfPath);
+  if (!opf) return null;
+
+  const manifest = new Map<string, EpubManifestItem>();
+  Array.from(opf.getElementsByTagNameNS('*', 'item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      id,
+      path: resolvePath(opfPath, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+    });
+  });
+
+  const spineElement = opf.getElementsByTagNameNS('*', 'spine')[0];
+  const spine: EpubManifestItem[] = [];
+  if (spineElement) {
+    childElements(spineElement, 'itemref').forEach(itemref => {
+      const item = manifest.get(itemref.getAttribute('idref') || '');
+      if (item) spine.push(item);
+    });
+  }
+
+  const items = Array.from(manifest.values());
+  const navItem = items.find(item => item.properties.includes('nav'));
+  const ncxItem = manifest.get(spineElement?.getAttribute('toc') || '')
+    || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+
+  // EPUB3 marks the cover with properties="cover-image", EPUB2 with <meta name="cover" content="item-id">
+  const coverMeta = Array.from(opf.getElementsByTagNameNS('*', 'meta'))
+    .find(meta => meta.getAttribute('name') === 'cover');
+  const coverItem = items.find(item => item.properties.includes('cover-image'))
+    || manifest.get(coverMeta?.getAttribute('content') || '')
+    || items.find(item => item.mediaType.startsWith('image/') && /cover/i.test(item.id + item.path));
+
+  return {
+    opfPath,
+    manifest,
+    spine,
+    navPath: navItem?.path,
+    ncxPath: ncxItem?.path,
+    coverPath: coverItem?.mediaType.startsWith('image/') ? coverItem.path : undefined,
+    title: readDublinCore(opf, 'title')[0],
+    metadata: parseOpfMetadata(opf),
+  };
+};
+
+const readDublinCore = (opf: Document, name: string) =>
+  Array.from(opf.getElementsByTagNameNS(DC_NS, name))
+    .map(element => element.textContent?.replace(/\s+/g, ' ').trim() || '')
+    .filter(Boolean);
+
+const parseOpfMetadata = (opf: Document): BookMetadata => {
+  let isbn: string | undefined;
+  let uuid: string | undefined;
+  Array.from(opf.getElementsByTagNameNS(DC_NS, 'identifier')).forEach(element => {
+    const value = element.textContent?.trim() || '';
+    // EPUB2 declares the scheme as opf:scheme="ISBN"; EPUB3 relies on URN prefixes
+    const scheme = (element.getAttribute('opf:scheme') || element.getAttributeNS(OPF_NS, 'scheme') || '').toLowerCase();
+    const isbnMatch = value.match(ISBN_PATTERN);
+    const uuidMatch = value.match(UUID_PATTERN);
+    if (!isbn && (isbnMatch || scheme === 'isbn')) isbn = isbnMatch?.[1] || value;
+    else if (!uuid && uuidMatch) uuid = uuidMatch[1];
+  });
+
+  return compactMetadata({
+    author: readDublinCore(opf, 'creator').join(', '),
+    language: readDublinCore(opf, 'language')[0],
+    publisher: readDublinCore(opf, 'publisher')[0],
+    publishedDate: readDublinCore(opf, 'date')[0],
+    description: readDublinCore(opf, 'description')[0]?.replace(/<[^>]+>/g, ''),
+    isbn,
+    uuid,
+  });
+};
+
+type HrefResolver = (basePath: string, href: string) => { page: number; anchor?: string } | null;
+
+// EPUB3: <nav epub:type="toc"> with nested <ol><li><a/></li></ol>
+const parseNavToc = (doc: Document, navPath: string, resolveHref: HrefResolver): TocItem[] => {
+  const toc: TocItem[] = [];
+  const navs = Array.from(doc.getElementsByTagNameNS('*', 'nav'));
+  const tocNav = navs.find(nav => {
+    const type = nav.getAttributeNS(EPUB_OPS_NS, 'type') || nav.getAttribute('epub:type') || '';
+    return type.split(/\s+/).includes('toc');
+  }) || navs[0];
+  if (!tocNav) return toc;
+
+  const walk = (list: Element, level: number) => {
+    for (const li of childElements(list, 'li')) {
+      const label = childElements(li, 'a')[0] || childElements(li, 'span')[0];
+      const title = label?.textContent?.replace(/\s+/g, ' ').trim();
+      const href = label?.getAttribute('href');
+      if (title && href) {
+        const target = resolveHref(navPath, href);
+        if (target) toc.push({ title, level, ...target });
+      }
+      const nested = childElements(li, 'ol')[0];
+      if (nested) walk(nested, level + 1);
+    }
+  };
+
+  const rootList = tocNav.getElementsByTagNameNS('*', 'ol')[0];
+  if (rootList) walk(rootList, 0);
+  return toc;
+};
+
+// EPUB2: <navMap> with nested <navPoint><navLabel><text/></navLabel><content src/></navPoint>
+const parseNcxToc = (doc: Document, ncxPath: string, resolveHref: HrefResolver): TocItem[] => {
   const toc: TocItem[] = [];
+  const navMap = doc.getElementsByTagNameNS('*', 'navMap')[0];
+  if (!navMap) return toc;
 
-  // Helper to resolve relative paths for images
-  const resolvePath = (base: string, relative: string) => {
-    const stack = base.split("/");
-    stack.pop(); // remove current filename
-    const parts = relative.split("/");
-    for (let part of parts) {
-      if (part === ".") continue;
-      if (part === "..") stack.pop();
-      else stack.push(part);
+  const walk = (parent: Element, level: number) => {
+    for (const navPoint of childElements(parent, 'navPoint')) {
+      const label = navPoint.getElementsByTagNameNS('*', 'text')[0];
+      const title = label?.textContent?.replace(/\s+/g, ' ').trim();
+      const src = childElements(navPoint, 'content')[0]?.getAttribute('src');
+      if (title && src) {
+        const target = resolveHref(ncxPath, src);
+        if (target) toc.push({ title, level, ...target });
+      }
+      walk(navPoint, level + 1);
     }
-    return stack.join("/");
   };
 
-  const getMimeType = (filename: string) => {
-    if (filename.endsWith('.jpg') || filename.endsWith('.jpeg')) return 'image/jpeg';
-    if (filename.endsWith('.png')) return 'image/png';
-    if (filename.endsWith('.gif')) return 'image/gif';
-    if (filename.endsWith('.svg')) return 'image/svg+xml';
-    return 'application/octet-stream';
+  walk(navMap, 0);
+  return toc;
+};
+
+// Unzipping and encoding images happens in the worker; only the DOM work is left for this thread
+const unzipArchive = async (file: File, options: ParseOptions): Promise<ArchiveFiles> => {
+  let files: ArchiveFiles = { textFiles: {}, binaryFiles: {} };
+  await runParserWorker({ type: 'unzip', file }, message => {
+    if (message.type === 'progress') options.onProgress?.(message.progress);
+    else if (message.type === 'archive-files') files = message.files;
+  }, options.signal);
+  return files;
+};
+
+const parseEpub = async (file: File, id: string, options: ParseOptions): Promise<Book> => {
+  options.onProgress?.({ phase: 'loading', done: 0, total: 1 });
+  const files = await unzipArchive(file, options);
+
+  const pkg = loadEpubPackage(files);
+
+  // Reading order comes from the OPF spine. Only fall back to alphabetical order for
+  // broken EPUBs that have no package document.
+  let chapterPaths: string[];
+  if (pkg && pkg.spine.length > 0) {
+    chapterPaths = pkg.spine
+      .filter(item => item.mediaType === 'application/xhtml+xml' || item.mediaType === 'text/html' || isHtmlPath(item.path))
+      // The nav document is rendered as our own TOC drawer, not as a page
+      .filter(item => item.path !== pkg.navPath)
+      .map(item => item.path);
+  } else {
+    chapterPaths = Object.keys(files.textFiles).filter(isHtmlPath).sort();
+  }
+
+  const textPages: string[] = [];
+  const htmlPages: string[] = [];
+  const searchIndex = createRetrievalIndex();
+  const fallbackToc: TocItem[] = [];
+  // Maps chapter paths to page indices. Chapters skipped for being empty point at the next page.
+  const pageIndexByPath = new Map<string, number>();
+  let skippedPaths: string[] = [];
+  // The book's CSS, scoped, in the order chapters first use it. All chapters share one stylesheet,
+  // which is how nearly every EPUB is built anyway.
+  const stylesheets: string[] = [];
+  const seenStylesheets = new Set<string>();
+  const resources: Record<string, BookResource> = {};
+
+  // Fonts and images referenced from CSS are kept as files and loaded as blob URLs when shown
+  const resolveStylesheetUrl = (basePath: string): StylesheetUrlResolver => url => {
+    if (/^data:(image|font)\//i.test(url)) return url;
+    const path = resolvePath(basePath, url.split(/[?#]/)[0]);
+    const data = getEpubFile(files.binaryFiles, path);
+    if (data === undefined) return null;
+    resources[path] = { mimeType: getMimeType(path), data };
+    return toResourceUrl(path);
   };
 
-  for (let i = 0; i < files.length; i++) {
-    const fileName = files[i];
-    const fileData = await content.files[fileName].async('string');
+  for (let i = 0; i < chapterPaths.length; i++) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ phase: 'chapters', done: i, total: chapterPaths.length });
+    await yieldToBrowser();
+
+    const fileName = chapterPaths[i];
+    const fileData = getEpubFile(files.textFiles, fileName);
+    if (fileData === undefined) continue;
+
     const parser = new DOMParser();
-    const doc = parser.parseFromString(fileData, 'application/xhtml+xml');
+    let doc = parser.parseFromString(fileData, 'application/xhtml+xml');
+    // Plenty of EPUBs ship HTML that isn't well-formed XML; retry with the lenient parser
+    if (!doc.body || doc.getElementsByTagName('parsererror').length > 0) {
+      doc = parser.parseFromString(fileData, 'text/html');
+    }
 
     // Process Images
     const images = doc.getElementsByTagName('img');
@@ -155,11 +645,9 @@ const parseEpub = async (file: File): Promise<Book> => {
       if (src) {
         // Resolve path within zip
         const absolutePath = resolvePath(fileName, src);
-        // Try to find file in zip (handle potential URL encoding)
-        const zipFile = content.files[absolutePath] || content.files[decodeURIComponent(absolutePath)];
+        const blob = getEpubFile(files.binaryFiles, absolutePath);
         
-        if (zipFile) {
-          const blob = await zipFile.async('base64');
+        if (blob !== undefined) {
           const mime = getMimeType(absolutePath);
           img.setAttribute('src', `data:${mime};base64,${blob}`);
           img.style.maxWidth = '100%'; // Ensure images fit
@@ -168,36 +656,275 @@ const parseEpub = async (file: File): Promise<Book> => {
       }
     }
 
-    const text = doc.body.textContent || "";
+    // SVG <image> elements, typically full-page covers
+    const svgImages = doc.getElementsByTagNameNS('*', 'image');
+    for (let j = 0; j < svgImages.length; j++) {
+      const image = svgImages[j];
+      const hrefAttribute = image.hasAttribute('href') ? 'href' : 'xlink:href';
+      const href = image.getAttribute(hrefAttribute);
+      const blob = href ? getEpubFile(files.binaryFiles, resolvePath(fileName, href)) : undefined;
+      if (href && blob !== undefined) {
+        image.setAttribute(hrefAttribute, `data:${getMimeType(resolvePath(fileName, href))};base64,${blob}`);
+      }
+    }
+
+    // Stylesheets have to be read before sanitizing removes <link> and <style>
+    doc.querySelectorAll('link[rel~="stylesheet" i][href], style').forEach(element => {
+      const href = element.getAttribute('href');
+      const basePath = href ? resolvePath(fileName, href.split(/[?#]/)[0]) : fileName;
+      const css = href ? getEpubFile(files.textFiles, basePath) : element.textContent;
+      const key = href ? basePath : `style:${css}`;
+      if (!css || seenStylesheets.has(key)) return;
+      seenStylesheets.add(key);
+      stylesheets.push(scopeStylesheet(css, resolveStylesheetUrl(basePath)));
+    });
+
+    markNoteReferences(doc.body);
+
+    // Links to other chapters can only be given a page once every chapter has one. Until then
+    // they point at a placeholder holding the chapter path and the original href.
+    const links = doc.getElementsByTagName('a');
+    for (let j = 0; j < links.length; j++) {
+      const href = links[j].getAttribute('href');
+      if (!href || href.startsWith('#') || isExternalLink(href)) continue;
+      links[j].setAttribute('href', `${LINK_PLACEHOLDER}${encodeURIComponent(fileName)}:${encodeURIComponent(href)}`);
+    }
+
+    // Scripts, event handlers and remote resources go before anything is read from or kept of the chapter
+    sanitizeChapter(doc.body);
+
+    const text = doc.body?.textContent || "";
     // Only add page if it has content (text or images)
-    if (text.trim().length > 0 || images.length > 0) {
+    if (text.trim().length > 0 || images.length > 0 || svgImages.length > 0) {
       const pageIndex = textPages.length;
       textPages.push(text.replace(/\s+/g, ' ').trim());
+      indexPage(searchIndex, pageIndex, textPages[pageIndex]);
       // Serialize back to HTML string for the reader
       htmlPages.push(doc.body.innerHTML);
 
-      // Add to TOC
+      pageIndexByPath.set(fileName, pageIndex);
+      skippedPaths.forEach(path => pageIndexByPath.set(path, pageIndex));
+      skippedPaths = [];
+
       // Use <title> tag if available, else filename
       let title = doc.querySelector('title')?.textContent?.trim();
       if (!title) {
         title = fileName.split('/').pop()?.replace(/\.[^/.]+$/, "") || `Chapter ${pageIndex + 1}`;
       }
       
-      toc.push({
+      fallbackToc.push({
         title: title,
         page: pageIndex,
         level: 0
       });
+    } else {
+      skippedPaths.push(fileName);
     }
   }
+  // Trailing empty chapters resolve to the last page
+  skippedPaths.forEach(path => pageIndexByPath.set(path, Math.max(textPages.length - 1, 0)));
 
-  return {
-    title: file.name.replace('.epub', ''),
+  const resolveHref: HrefResolver = (basePath, href) => {
+    const [pathPart, fragment] = href.split('#');
+    const path = pathPart ? resolvePath(basePath, pathPart) : basePath;
+    const page = pageIndexByPath.get(path) ?? pageIndexByPath.get(safeDecode(path));
+    // Links to files outside the spine (cover images, the nav itself) have no page
+    if (page === undefined) return null;
+    return fragment ? { page, anchor: safeDecode(fragment) } : { page };
+  };
+
+  const renderPages = htmlPages.map(html => html.replace(LINK_PLACEHOLDER_PATTERN, (match, basePath, href) => {
+    const target = resolveHref(safeDecode(basePath), safeDecode(href));
+    return target ? `href="${buildInternalHref(target.page, target.anchor)}"` : '';
+  }));
+
+  let toc: TocItem[] = [];
+  if (pkg?.navPath) {
+    const navDoc = readXml(files, pkg.navPath, 'application/xhtml+xml');
+    if (navDoc) toc = parseNavToc(navDoc, pkg.navPath, resolveHref);
+  }
+  if (toc.length === 0 && pkg?.ncxPath) {
+    const ncxDoc = readXml(files, pkg.ncxPath);
+    if (ncxDoc) toc = parseNcxToc(ncxDoc, pkg.ncxPath, resolveHref);
+  }
+  if (toc.length === 0) {
+    toc = fallbackToc;
+  }
+
+  const metadata: BookMetadata = { ...pkg?.metadata };
+  const cover = pkg?.coverPath && getEpubFile(files.binaryFiles, pkg.coverPath);
+  if (cover) {
+    metadata.coverImage = `data:${getMimeType(pkg!.coverPath!)};base64,${cover}`;
+  }
+
+  const book: Book = {
+    id,
+    title: pkg?.title || file.name.replace(/\.epub$/i, ''),
     fileType: 'epub',
     content: textPages.length > 0 ? textPages : ["No text content found."],
-    renderData: htmlPages.length > 0 ? htmlPages : ["<p>No content found.</p>"],
+    renderData: renderPages.length > 0 ? renderPages : ["<p>No content found.</p>"],
     totalPages: htmlPages.length > 0 ? htmlPages.length : 1,
     fileName: file.name,
     toc: toc,
+    metadata,
+  };
+  const stylesheet = stylesheets.filter(Boolean).join('\n');
+  if (stylesheet) {
+    book.stylesheet = stylesheet;
+    book.resources = resources;
+  }
+  if (textPages.length > 0) registerBookIndex(book, searchIndex);
+  return book;
+};
+
+// Plain text, Markdown, HTML and FB2: converted to one HTML document, then cut into chapter pages
+const parseTextDocument = async (file: File, id: string, format: TextFormat, options: ParseOptions): Promise<Book> => {
+  options.onProgress?.({ phase: 'loading', done: 0, total: 1 });
+  const buffer = await file.arrayBuffer();
+  options.signal?.throwIfAborted();
+
+  // Markup may declare its own encoding; plain text and Markdown have to be detected
+  const source = decodeText(buffer, format === 'html' || format === 'fb2');
+  const converted = format === 'txt' ? textToDocument(source)
+    : format === 'md' ? await markdownToDocument(source)
+    : format === 'html' ? htmlToDocument(source)
+    : fb2ToDocument(source);
+  options.signal?.throwIfAborted();
+  options.onProgress?.({ phase: 'chapters', done: 0, total: 1 });
+
+  sanitizeChapter(converted.body);
+  markNoteReferences(converted.body);
+  const { pages, toc } = splitIntoPages(converted.body, file.name);
+
+  const textPages: string[] = [];
+  const searchIndex = createRetrievalIndex();
+  pages.forEach((page, index) => {
+    textPages.push((page.textContent || '').replace(/\s+/g, ' ').trim());
+    indexPage(searchIndex, index, textPages[index]);
+  });
+
+  const book: Book = {
+    id,
+    title: converted.title || file.name.replace(/\.[^/.]+$/, ''),
+    fileType: format,
+    content: textPages.length > 0 ? textPages : ["No text content found."],
+    renderData: pages.length > 0 ? pages.map(page => page.innerHTML) : ["<p>No content found.</p>"],
+    totalPages: pages.length > 0 ? pages.length : 1,
+    fileName: file.name,
+    toc,
+    metadata: compactMetadata(converted.metadata),
   };
-};
\ No newline at end of file
+  if (textPages.length > 0) registerBookIndex(book, searchIndex);
+  return book;
+};
+
+// --- Comics (CBZ archives and folders of images) ---
+
+const COMIC_IMAGE_PATTERN = /\.(jpe?g|png|gif|webp|avif|bmp)$/i;
+
+export const isComicImage = (file: File) => COMIC_IMAGE_PATTERN.test(file.name);
+
+// Metadata and bookmarks from ComicInfo.xml (the ComicRack format most tools write).
+// Page indices refer to the images in reading order.
+const readComicInfo = (doc: Document, pageCount: number) => {
+  const text = (name: string) => doc.getElementsByTagName(name)[0]?.textContent?.trim() || undefined;
+  const series = text('Series');
+  const number = text('Number');
+  const seriesTitle = series && (number ? `${series} #${number}` : series);
+  const date = [text('Year'), text('Month'), text('Day')].filter(Boolean).map(part => part!.padStart(2, '0'));
+
+  const toc: TocItem[] = [];
+  let coverPage: number | undefined;
+  Array.from(doc.getElementsByTagName('Page')).forEach(page => {
+    const index = Number(page.getAttribute('Image'));
+    if (!Number.isInteger(index) || index < 0 || index >= pageCount) return;
+    const bookmark = page.getAttribute('Bookmark')?.trim();
+    if (bookmark) toc.push({ title: bookmark, page: index, level: 0 });
+    if (page.getAttribute('Type') === 'FrontCover' && coverPage === undefined) coverPage = index;
+  });
+
+  const title = text('Title');
+  const metadata: BookMetadata = {
+    author: text('Writer') || text('Penciller'),
+    publisher: text('Publisher'),
+    publishedDate: date.length > 0 ? date.join('-') : undefined,
+    language: text('LanguageISO'),
+    description: text('Summary'),
+  };
+  return {
+    title: title && seriesTitle ? `${seriesTitle}: ${title}` : title || seriesTitle,
+    metadata,
+    toc: toc.sort((a, b) => a.page - b.page),
+    coverPage,
+    // Manga is read right to left
+    rightToLeft: text('Manga') === 'YesAndRightToLeft',
+  };
+};
+
+// Each image is one page, in natural file name order ("page2" before "page10")
+const buildComicBook = async (files: ArchiveFiles, id: string, fileName: string, options: ParseOptions): Promise<Book> => {
+  const imagePaths = Object.keys(files.binaryFiles)
+    .filter(path => COMIC_IMAGE_PATTERN.test(path) && !/(^|\/)(__MACOSX|\.)/.test(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+  if (imagePaths.length === 0) {
+    throw new Error('No page images were found in this comic.');
+  }
+  options.onProgress?.({ phase: 'chapters', done: 0, total: 1 });
+
+  const infoPath = Object.keys(files.textFiles).find(path => /(^|\/)comicinfo\.xml$/i.test(path));
+  const infoDoc = infoPath ? readXml(files, infoPath) : null;
+  const info = infoDoc ? readComicInfo(infoDoc, imagePaths.length) : null;
+
+  const pages = imagePaths.map(path => `data:${getMimeType(path)};base64,${files.binaryFiles[path]}`);
+  const metadata: BookMetadata = { ...info?.metadata };
+  try {
+    metadata.coverImage = await downscaleImage(pages[info?.coverPage ?? 0], THUMBNAIL_WIDTH, THUMBNAIL_WIDTH * 2);
+  } catch (e) {
+    console.warn("Could not create comic thumbnail", e);
+  }
+
+  return {
+    id,
+    title: info?.title || fileName.replace(/\.[^/.]+$/, ''),
+    fileType: 'cbz',
+    // Comics have no text; the assistant is shown the page images instead
+    content: pages.map(() => ''),
+    renderData: pages,
+    totalPages: pages.length,
+    fileName,
+    toc: info?.toc || [],
+    metadata: compactMetadata(metadata),
+    ...(info?.rightToLeft ? { pageDirection: 'rtl' as const } : {}),
+  };
+};
+
+const parseComicArchive = async (file: File, id: string, options: ParseOptions): Promise<Book> => {
+  options.onProgress?.({ phase: 'loading', done: 0, total: 1 });
+  const files = await unzipArchive(file, options);
+  return buildComicBook(files, id, file.name, options);
+};
+
+const readAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).replace(/^data:[^,]*,/, ''));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// A folder of page images (with an optional ComicInfo.xml) read as one comic.
+// `name` is the folder name, used for the title and the library entry.
+export const parseImageFolder = async (
+  folderFiles: File[], id: string, name: string, options: ParseOptions = {}
+): Promise<Book> => {
+  const files: ArchiveFiles = { textFiles: {}, binaryFiles: {} };
+  const relevant = folderFiles.filter(file => isComicImage(file) || /^comicinfo\.xml$/i.test(file.name));
+  for (let i = 0; i < relevant.length; i++) {
+    options.signal?.throwIfAborted();
+    const file = relevant[i];
+    const path = file.webkitRelativePath || file.name;
+    if (isComicImage(file)) files.binaryFiles[path] = await readAsBase64(file);
+    else files.textFiles[path] = await file.text();
+    options.onProgress?.({ phase: 'unpacking', done: i + 1, total: relevant.length });
+  }
+  return buildComicBook(files, id, name, options);
+};
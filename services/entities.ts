@@ -0,0 +1,263 @@
+import { Book, BookEntity, EntityIndex, EntityKind, LlmSettings, ReadingPosition } from '../types';
+import { completeChat } from './llmProviders';
+import { INITIAL_BOUNDARY, extendBoundary, getPageLabel, getReadPages } from './readingPosition';
+import { getEntityIndex, saveEntityIndex } from './libraryStore';
+import { searchBook } from './bookSearch';
+import { removeSpoilers } from './spoilerGuard';
+
+// The dramatis personae of a book: its people, places and organisations, and what is known of them
+// so far. Each update sends the model the text read since the last one along with the list as it
+// stands, and it replies with the entries that are new or changed. Only text within the read
+// boundary is ever sent, and a name that can't be found in that text is dropped, so the list can't
+// get ahead of the reader even when the model knows the book.
+
+export interface EntityProgress {
+  done: number;
+  total: number;
+  label: string; // What is being read, e.g. "Page 12 to Page 20"
+}
+
+interface EntityUpdateOptions {
+  signal?: AbortSignal;
+  force?: boolean; // Update even when little has been read since the last update
+  onProgress?: (progress: EntityProgress) => void;
+  onUpdate?: (index: EntityIndex) => void; // After each request, as the list is saved
+}
+
+// A run of newly read text, sent to the model in one request
+interface TextRun {
+  text: string;
+  first: number; // 0-based pages
+  last: number;
+  end: ReadingPosition; // Where the run stops
+}
+
+// What the model replies with for each entry, before it is checked
+interface EntityUpdate {
+  name: string;
+  kind?: unknown;
+  aliases?: unknown;
+  description?: unknown;
+  relations?: unknown;
+}
+
+// Background updates wait until this much has been read, rather than asking after every page
+const MIN_NEW_CHARS = 4000;
+const MAX_INPUT_CHARS = 30000;
+const ENTITY_KINDS: EntityKind[] = ['character', 'place', 'organisation'];
+const TRACKING_SETTING_KEY = 'track_entities';
+
+export const isEntityTrackingEnabled = () => localStorage.getItem(TRACKING_SETTING_KEY) !== 'false';
+
+export const setEntityTrackingEnabled = (enabled: boolean) => {
+  localStorage.setItem(TRACKING_SETTING_KEY, String(enabled));
+};
+
+const isPast = (position: ReadingPosition, boundary: ReadingPosition) => extendBoundary(boundary, position) !== boundary;
+
+const formatRunLabel = (book: Book, run: TextRun) =>
+  run.first === run.last ? getPageLabel(book, run.first) : `${getPageLabel(book, run.first)} to ${getPageLabel(book, run.last)}`;
+
+// The text read after `from` up to `to`, cut into runs that fit in one request. A page too long
+// for one request is cut at a space, and the run ends part way through it.
+const getNewText = (book: Book, from: ReadingPosition, to: ReadingPosition): TextRun[] => {
+  const before = getReadPages(book, from);
+  const after = getReadPages(book, to);
+  const runs: TextRun[] = [];
+  let run: TextRun | null = null;
+
+  for (let page = from.page; page < after.length; page++) {
+    let start = page === from.page ? before[page]?.length ?? 0 : 0;
+    const pageText = after[page];
+    while (pageText.slice(start).trim()) {
+      const room = MAX_INPUT_CHARS - (run ? run.text.length : 0);
+      let end = pageText.length;
+      if (end - start > room) {
+        // Start a new run rather than cut the page, unless the page alone is too long
+        if (run) {
+          runs.push(run);
+          run = null;
+          continue;
+        }
+        end = pageText.lastIndexOf(' ', start + room);
+        if (end <= start) end = start + room;
+      }
+      const text = pageText.slice(start, end).trim();
+      run = run
+        ? { ...run, text: `${run.text}\n\n${text}`, last: page }
+        : { text, first: page, last: page, end: to };
+      run.end = end < pageText.length ? { page, charOffset: end } : page === to.page ? to : { page };
+      start = end;
+    }
+  }
+  if (run) runs.push(run);
+  return runs;
+};
+
+const getBookLabel = (book: Book) =>
+  book.metadata.author ? `"${book.title}" by ${book.metadata.author}` : `"${book.title}"`;
+
+const formatEntitiesForPrompt = (entities: BookEntity[]) => {
+  const names = new Map(entities.map(entity => [entity.id, entity.name]));
+  return JSON.stringify(entities.map(entity => ({
+    name: entity.name,
+    kind: entity.kind,
+    aliases: entity.aliases,
+    description: entity.description,
+    relations: entity.relations.map(relation => ({ name: names.get(relation.entityId), relation: relation.label })),
+  })));
+};
+
+const parseEntityUpdates = (answer: string): EntityUpdate[] => {
+  // Models often wrap JSON in a code block or a sentence
+  const start = answer.indexOf('[');
+  const end = answer.lastIndexOf(']');
+  const parsed: unknown = start !== -1 && end > start ? JSON.parse(answer.slice(start, end + 1)) : null;
+  if (!Array.isArray(parsed)) throw new Error('The model did not reply with a list of entities');
+  return parsed.filter((item): item is EntityUpdate => typeof item?.name === 'string' && !!item.name.trim());
+};
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim()) : [];
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const findEntity = (entities: BookEntity[], names: string[]) => {
+  const wanted = new Set(names.map(normalizeName));
+  return entities.find(entity => [entity.name, ...entity.aliases].some(name => wanted.has(normalizeName(name))));
+};
+
+const createEntityId = (name: string, entities: BookEntity[]) => {
+  const base = normalizeName(name).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'entity';
+  let id = base;
+  for (let n = 2; entities.some(entity => entity.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Merges the model's reply into the list. Names, aliases and relations are kept only if the text
+// read up to `boundary` mentions them; descriptions lose any sentence that names something unread.
+const mergeEntityUpdates = (book: Book, entities: BookEntity[], updates: EntityUpdate[], boundary: ReadingPosition) => {
+  const merged = entities.map(entity => ({ ...entity, aliases: [...entity.aliases], relations: [...entity.relations] }));
+  const pendingRelations: { entity: BookEntity; name: string; label: string }[] = [];
+
+  // The page of the first whole-word mention, or -1 for a name the reader hasn't come across
+  const firstMentions = new Map<string, number>();
+  const findFirstMention = (name: string) => {
+    let page = firstMentions.get(name);
+    if (page === undefined) {
+      const hit = searchBook(book, name, { boundary }).hits[0];
+      page = hit && hit.score === 2 ? hit.page : -1;
+      firstMentions.set(name, page);
+    }
+    return page;
+  };
+
+  updates.forEach(update => {
+    const names = [update.name.trim(), ...toStrings(update.aliases)].filter(name => findFirstMention(name) !== -1);
+    if (names.length === 0) return;
+
+    let entity = findEntity(merged, names);
+    if (!entity) {
+      entity = {
+        id: createEntityId(names[0], merged),
+        name: names[0],
+        kind: 'character',
+        aliases: [],
+        description: '',
+        firstPage: Math.min(...names.map(findFirstMention)),
+        relations: [],
+      };
+      merged.push(entity);
+    }
+    const known = new Set([entity.name, ...entity.aliases].map(normalizeName));
+    names.forEach(name => {
+      if (!known.has(normalizeName(name))) {
+        entity!.aliases.push(name);
+        known.add(normalizeName(name));
+      }
+    });
+    entity.firstPage = Math.min(entity.firstPage, ...names.map(findFirstMention));
+    if (ENTITY_KINDS.includes(update.kind as EntityKind)) entity.kind = update.kind as EntityKind;
+    const description = typeof update.description === 'string' ? removeSpoilers(update.description, book, boundary) : '';
+    if (description) entity.description = description;
+
+    if (Array.isArray(update.relations)) {
+      update.relations.forEach(relation => {
+        if (typeof relation?.name === 'string' && typeof relation.relation === 'string') {
+          pendingRelations.push({ entity: entity!, name: relation.name, label: relation.relation });
+        }
+      });
+    }
+  });
+
+  // Relations are resolved once every entry in the reply is in the list
+  pendingRelations.forEach(({ entity, name, label }) => {
+    const target = findEntity(merged, [name]);
+    const text = removeSpoilers(label, book, boundary);
+    if (!target || target === entity || !text) return;
+    entity.relations = [...entity.relations.filter(relation => relation.entityId !== target.id), { entityId: target.id, label: text }];
+  });
+
+  return merged;
+};
+
+// Updates for the same book run one after another, so the panel and the background don't both
+// send the same pages
+const bookQueues = new Map<string, Promise<unknown>>();
+
+const enqueue = <T>(bookId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = bookQueues.get(bookId) || Promise.resolve();
+  const run = previous.catch(() => {}).then(task);
+  bookQueues.set(bookId, run);
+  run.catch(() => {}).finally(() => {
+    if (bookQueues.get(bookId) === run) bookQueues.delete(bookId);
+  });
+  return run;
+};
+
+// The list as kept in the library, if it doesn't reach past the boundary
+export const getTrackedEntities = async (book: Book, boundary: ReadingPosition): Promise<EntityIndex | null> => {
+  const index = await getEntityIndex(book.id);
+  return index && !isPast(index.through, boundary) ? index : null;
+};
+
+// Brings the list up to the boundary, from the text read since the last update
+export const updateEntities = (
+  book: Book,
+  boundary: ReadingPosition,
+  settings: LlmSettings,
+  options: EntityUpdateOptions = {}
+): Promise<EntityIndex> => enqueue(book.id, async () => {
+  const { signal, force, onProgress, onUpdate } = options;
+  // A list that reaches past the boundary (after it was moved back) can't be trimmed, so it is rebuilt
+  let index = await getTrackedEntities(book, boundary)
+    || { bookId: book.id, through: INITIAL_BOUNDARY, entities: [], updatedAt: Date.now() };
+
+  const runs = getNewText(book, index.through, boundary);
+  const newChars = runs.reduce((total, run) => total + run.text.length, 0);
+  if (runs.length === 0 || (!force && newChars < MIN_NEW_CHARS)) return index;
+
+  const systemInstruction = `
+    You keep a list of the characters, places and organisations in ${getBookLabel(book)} for a reader, updating it from the passage they have just read.
+    Reply with ONLY a JSON array of the entries that are new or that the passage changes, in this form:
+    [{"name": "Name as used in the text", "kind": "character" | "place" | "organisation", "aliases": ["other names and titles used in the text"], "description": "one or two sentences on who or what this is, as things now stand", "relations": [{"name": "name of another entry", "relation": "what this entry is to it, e.g. sister of"}]}]
+    For an entry already on the list, use its listed name, give its whole description as it now stands, and only the relations that are new or have changed.
+    Include only named entities that matter to the story. Reply with [] if nothing is new.
+    Use ONLY the passage and the list. Do NOT use outside knowledge of the book, and never hint at what happens later.`;
+
+  for (let i = 0; i < runs.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.({ done: i, total: runs.length, label: formatRunLabel(book, runs[i]) });
+    const content = `The list so far:\n${formatEntitiesForPrompt(index.entities)}\n\nThe passage:\n"""\n${runs[i].text}\n"""`;
+    const answer = await completeChat({ systemInstruction, turns: [{ role: 'user', content }], signal }, settings);
+    index = {
+      ...index,
+      through: runs[i].end,
+      entities: mergeEntityUpdates(book, index.entities, parseEntityUpdates(answer), runs[i].end),
+      updatedAt: Date.now(),
+    };
+    await saveEntityIndex(index);
+    onUpdate?.(index);
+  }
+  return index;
+});
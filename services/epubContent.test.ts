@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildInternalHref, parseInternalHref, scopeSelector } from './epubContent';
+
+describe('scopeSelector', () => {
+  it.each([
+    ['p', '[data-chapter] p'],
+    ['.first', '[data-chapter] .epub-first'],
+    ['body', '[data-chapter]'],
+    ['body.dark p', '[data-chapter].epub-dark p'],
+    ['html > body > p', '[data-chapter] > p'],
+    [':root h1, body h2', '[data-chapter] h1, [data-chapter] h2'],
+  ])('scopes %s inside the chapter container', (selector, scoped) => {
+    expect(scopeSelector(selector)).toBe(scoped);
+  });
+
+  it.each(['body ~ div', 'body + *', ':root ~ *', 'html + body', 'html > body ~ nav'])(
+    'drops %s, which would reach the app around the chapter',
+    selector => expect(scopeSelector(selector)).toBe('')
+  );
+
+  it('keeps the rest of a list when one selector is dropped', () => {
+    expect(scopeSelector('body ~ div, p')).toBe('[data-chapter] p');
+  });
+});
+
+describe('parseInternalHref', () => {
+  it('reads links to other chapters', () => {
+    expect(parseInternalHref(buildInternalHref(3, 'note 1'), 0)).toEqual({ page: 3, anchor: 'note 1' });
+    expect(parseInternalHref('#top', 2)).toEqual({ page: 2, anchor: 'top' });
+    expect(parseInternalHref('chapter2.html', 2)).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import { Book } from '../types';
+import { BOOK_CLASS_PREFIX, isSafeStyleDeclaration } from './htmlSanitizer';
+
+// Presentation carried over from EPUBs: the book's stylesheets (scoped to the chapter container),
+// the fonts and images they reference, and links between chapters.
+
+// Attribute on the element a chapter is rendered into; book CSS only ever applies inside it
+export const CHAPTER_SCOPE = '[data-chapter]';
+
+// Stylesheets are stored with placeholders for files from the EPUB, swapped for blob URLs when shown
+const RESOURCE_PREFIX = 'epub-resource:';
+
+const INTERNAL_LINK_PREFIX = '#go:';
+
+// Applied when the reader's own font, size and spacing should win over the book's
+export const TYPOGRAPHY_OVERRIDE_CSS = `
+  ${CHAPTER_SCOPE}[data-override] { font-family: inherit !important; font-size: inherit !important; line-height: inherit !important; }
+  ${CHAPTER_SCOPE}[data-override] * { font-family: inherit !important; line-height: inherit !important; }
+  ${CHAPTER_SCOPE}[data-override] :is(p, div, span, li, blockquote, td, th, dd, dt, a) { font-size: inherit !important; }
+`;
+
+// Maps a url() found in a stylesheet to the URL to use instead, or null to drop the declaration
+export type StylesheetUrlResolver = (url: string) => string | null;
+
+const URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/g;
+
+const rewriteUrls = (value: string, resolveUrl: StylesheetUrlResolver): string | null => {
+  let failed = false;
+  const result = value.replace(URL_PATTERN, (match, quote, url) => {
+    const resolved = resolveUrl(url);
+    if (!resolved) failed = true;
+    return `url("${resolved}")`;
+  });
+  return failed ? null : result;
+};
+
+export const toResourceUrl = (path: string) => RESOURCE_PREFIX + encodeURIComponent(path);
+
+// Splits "a, b:is(c, d)" into ["a", "b:is(c, d)"]
+const splitSelectorList = (selectorText: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of selectorText) {
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Book class names are prefixed by the sanitizer, so selectors have to follow
+const prefixClasses = (selector: string) => {
+  let result = '';
+  let bracketDepth = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '[') bracketDepth++;
+    else if (char === ']') bracketDepth--;
+    result += char;
+    if (char === '.' && bracketDepth === 0 && /[-_a-zA-Z\u00a0-\uffff\\]/.test(selector[i + 1] || '')) {
+      result += BOOK_CLASS_PREFIX;
+    }
+  }
+  return result;
+};
+
+// The book's html and body are the chapter container; everything else is nested inside it
+const ROOT_SELECTOR = /^(?:(?::root|html)(?![\w-])\s*>?\s*)?(?:body(?![\w-]))?/i;
+
+// Selectors for the book's html and body become selectors for the chapter container. Their siblings
+// ("body ~ div") would be the app's own interface around the container, so those are dropped; an
+// empty result means nothing in the list is left.
+export const scopeSelector = (selectorText: string) =>
+  splitSelectorList(selectorText)
+    .map(part => {
+      const selector = prefixClasses(part);
+      const root = selector.match(ROOT_SELECTOR)?.[0] || '';
+      if (!root) return `${CHAPTER_SCOPE} ${selector}`;
+      const rest = selector.slice(root.length);
+      if (/^\s*[+~]/.test(rest)) return '';
+      return CHAPTER_SCOPE + (rest && !/^[\s>.:#[]/.test(rest) ? ' ' : '') + rest;
+    })
+    .filter(Boolean)
+    .join(', ');
+
+// Declarations are held to the same rules as style attributes, so a book can't lay anything over the app
+const scopeDeclarations = (style: CSSStyleDeclaration, resolveUrl: StylesheetUrlResolver) =>
+  Array.from(style)
+    .map(property => {
+      let value: string | null = style.getPropertyValue(property);
+      if (!isSafeStyleDeclaration(`${property}: ${value}`, { allowUrls: true })) return '';
+      if (value.includes('url(')) value = rewriteUrls(value, resolveUrl);
+      if (!value) return '';
+      return `${property}: ${value}${style.getPropertyPriority(property) ? ' !important' : ''};`;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+const scopeRules = (rules: CSSRuleList, resolveUrl: StylesheetUrlResolver): string[] => {
+  const output: string[] = [];
+  Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      const selector = scopeSelector(rule.selectorText);
+      const declarations = selector && scopeDeclarations(rule.style, resolveUrl);
+      if (declarations) output.push(`${selector} { ${declarations} }`);
+    } else if (rule instanceof CSSMediaRule) {
+      output.push(`@media ${rule.conditionText} { ${scopeRules(rule.cssRules, resolveUrl).join('\n')} }`);
+    } else if (rule instanceof CSSSupportsRule) {
+      output.push(`@supports ${rule.conditionText} { ${scopeRules(rule.cssRules, resolveUrl).join('\n')} }`);
+    } else if (rule instanceof CSSFontFaceRule) {
+      const text = rewriteUrls(rule.cssText, resolveUrl);
+      if (text) output.push(text);
+    }
+    // @import, @page, @namespace and anything else is dropped
+  });
+  return output;
+};
+
+// Rewrites a book stylesheet so it only applies inside the chapter container, with every url()
+// passed through `resolveUrl`. Parsing with CSSOM drops anything the browser doesn't understand.
+export const scopeStylesheet = (css: string, resolveUrl: StylesheetUrlResolver): string => {
+  const sheet = new CSSStyleSheet();
+  try {
+    sheet.replaceSync(css);
+  } catch (e) {
+    console.warn("Could not parse book stylesheet", e);
+    return '';
+  }
+  return scopeRules(sheet.cssRules, resolveUrl).join('\n');
+};
+
+// Removes unsafe declarations from an already scoped stylesheet, e.g. one stored before they were checked
+const dropUnsafeDeclarations = (rules: CSSRuleList) => {
+  Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      Array.from(rule.style)
+        .filter(property => !isSafeStyleDeclaration(`${property}: ${rule.style.getPropertyValue(property)}`, { allowUrls: true }))
+        .forEach(property => rule.style.removeProperty(property));
+    } else if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+      dropUnsafeDeclarations(rule.cssRules);
+    }
+  });
+};
+
+const recheckStylesheet = (css: string): string => {
+  const sheet = new CSSStyleSheet();
+  try {
+    sheet.replaceSync(css);
+  } catch (e) {
+    console.warn("Could not parse book stylesheet", e);
+    return '';
+  }
+  dropUnsafeDeclarations(sheet.cssRules);
+  return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+};
+
+const base64ToBlob = (data: string, mimeType: string) =>
+  new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: mimeType });
+
+// The book's stylesheet with its fonts and images loaded as blob URLs. Call `revoke` when done with it.
+export const createBookStylesheet = (book: Book): { css: string; revoke: () => void } => {
+  const urls = new Map<string, string>();
+  const css = recheckStylesheet(book.stylesheet || '').replace(/epub-resource:([^")\s]+)/g, (match, encodedPath) => {
+    const path = decodeURIComponent(encodedPath);
+    let url = urls.get(path);
+    if (!url) {
+      const resource = book.resources?.[path];
+      if (!resource) return 'about:invalid';
+      url = URL.createObjectURL(base64ToBlob(resource.data, resource.mimeType));
+      urls.set(path, url);
+    }
+    return url;
+  });
+  return { css, revoke: () => urls.forEach(url => URL.revokeObjectURL(url)) };
+};
+
+// Links to other chapters are stored as "#go:<page>" or "#go:<page>:<anchor>"
+export const buildInternalHref = (page: number, anchor?: string) =>
+  `${INTERNAL_LINK_PREFIX}${page}${anchor ? `:${encodeURIComponent(anchor)}` : ''}`;
+
+// Where a fragment link inside a chapter points; plain "#id" links stay on the current page
+export const parseInternalHref = (href: string, currentPage: number): { page: number; anchor?: string } | null => {
+  if (!href.startsWith('#')) return null;
+  const match = href.match(/^#go:(\d+)(?::(.*))?$/);
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+  if (match) return { page: Number(match[1]), anchor: match[2] ? decode(match[2]) : undefined };
+  return href.length > 1 ? { page: currentPage, anchor: decode(href.slice(1)) } : { page: currentPage };
+};
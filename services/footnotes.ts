@@ -0,0 +1,70 @@
+import { parseInternalHref } from './epubContent';
+
+// Footnote and endnote references in EPUB chapters. References are marked with role="doc-noteref"
+// when a book is parsed, and the Reader shows the note they point to in a popover instead of
+// following the link, so looking up a note never changes the page or the spoiler boundary.
+
+const NOTE_REFERENCE_SELECTOR = '[role~="doc-noteref"]';
+
+// Link text that looks like a note marker: "12", "[3]", "(4a)", "*", "†"
+const NOTE_MARKER_PATTERN = /^(?:[[(]?\d{1,3}[a-z]?[\])]?|[*†‡§¶]{1,3})$/i;
+
+const NOTE_HINT_PATTERN = /note|fn|ftn|ref/i;
+
+const hasEpubType = (element: Element, type: string) =>
+  (element.getAttribute('epub:type') || element.getAttributeNS('http://www.idpf.org/2007/ops', 'type') || '')
+    .split(/\s+/)
+    .includes(type);
+
+const isSuperscripted = (link: Element) =>
+  !!link.closest('sup')
+  || (link.children.length === 1 && link.children[0].localName.toLowerCase() === 'sup');
+
+const looksLikeNoteReference = (link: Element) => {
+  const href = link.getAttribute('href') || '';
+  if (!href.includes('#')) return false;
+  if (!NOTE_MARKER_PATTERN.test((link.textContent || '').trim())) return false;
+  const hints = `${link.getAttribute('class') || ''} ${link.getAttribute('id') || ''} ${href}`;
+  return isSuperscripted(link) || NOTE_HINT_PATTERN.test(hints);
+};
+
+// Marks the note references in a parsed chapter: epub:type="noteref", role="doc-noteref", or a short
+// marker like "12" or "*" linking to a fragment, either superscripted or with a note-like class or id
+export const markNoteReferences = (root: Element) => {
+  const links = root.getElementsByTagName('a');
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i];
+    if (link.matches(NOTE_REFERENCE_SELECTOR)) continue;
+    if (hasEpubType(link, 'noteref') || looksLikeNoteReference(link)) {
+      link.setAttribute('role', 'doc-noteref');
+    }
+  }
+};
+
+// Books stored before references were marked still have their epub:type
+export const isNoteReference = (element: Element) =>
+  element.matches(NOTE_REFERENCE_SELECTOR) || hasEpubType(element, 'noteref');
+
+// Elements that hold a whole note, for targets that are just an anchor inside one
+const NOTE_CONTAINER_SELECTOR = 'aside, li, p, dd, div, blockquote, section';
+
+// Pulls the note with the given id out of a chapter's HTML, without the link back to the reference.
+// Returns null when the chapter has no such element or it holds nothing to show.
+export const extractNote = (chapterHtml: string, noteId: string, referenceId?: string | null): string | null => {
+  const doc = new DOMParser().parseFromString(chapterHtml, 'text/html');
+  const target = doc.getElementById(noteId);
+  if (!target) return null;
+
+  const note = target.matches(NOTE_CONTAINER_SELECTOR) ? target : target.closest(NOTE_CONTAINER_SELECTOR) || target;
+  note.querySelectorAll('[role~="doc-backlink"]').forEach(link => link.remove());
+  note.querySelectorAll('a[href]').forEach(link => {
+    if (hasEpubType(link, 'backlink')) {
+      link.remove();
+    } else if (referenceId && parseInternalHref(link.getAttribute('href') || '', -1)?.anchor === referenceId) {
+      // Often the note's own number, so keep the text and drop the link
+      link.replaceWith(...Array.from(link.childNodes));
+    }
+  });
+
+  return note.textContent?.trim() ? note.innerHTML : null;
+};
@@ -0,0 +1,62 @@
+import { Book, Highlight, ReadingPosition } from '../types';
+import { getPageLabel } from './readingPosition';
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink'] as const;
+
+// Highlights the assistant may see: only those entirely inside the read boundary
+export const getReadHighlights = (highlights: Highlight[], boundary: ReadingPosition): Highlight[] =>
+  highlights.filter(highlight =>
+    highlight.page < boundary.page
+    || (highlight.page === boundary.page && (boundary.charOffset === undefined || highlight.end <= boundary.charOffset))
+  );
+
+// Prompt section describing the user's own annotations
+export const formatHighlightsForPrompt = (highlights: Highlight[]): string =>
+  highlights
+    .map(highlight => {
+      const note = highlight.note ? ` — Note: ${highlight.note}` : '';
+      return `- [Page ${highlight.page + 1}] "${highlight.quote}"${note}`;
+    })
+    .join('\n');
+
+export const exportHighlightsMarkdown = (book: Book, highlights: Highlight[]): string => {
+  const lines: string[] = [`# ${book.title}`];
+  if (book.metadata.author) lines.push('', `_${book.metadata.author}_`);
+
+  let lastPage = -1;
+  highlights.forEach(highlight => {
+    if (highlight.page !== lastPage) {
+      lines.push('', `## ${getPageLabel(book, highlight.page)}`);
+      lastPage = highlight.page;
+    }
+    lines.push('', `> ${highlight.quote}`);
+    if (highlight.note) lines.push('', highlight.note);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const exportHighlightsJson = (book: Book, highlights: Highlight[]): string =>
+  JSON.stringify({
+    book: {
+      id: book.id,
+      title: book.title,
+      author: book.metadata.author,
+      fileName: book.fileName,
+    },
+    exportedAt: new Date().toISOString(),
+    highlights: highlights.map(({ bookId, ...highlight }) => ({
+      ...highlight,
+      pageLabel: getPageLabel(book, highlight.page),
+    })),
+  }, null, 2);
+
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers only start reading the file after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
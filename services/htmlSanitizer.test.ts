@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeStyleDeclaration, sanitizeHtml } from './htmlSanitizer';
+
+// Chapter markup that must come out harmless, with what must not survive sanitizing
+const UNSAFE_FIXTURES: { name: string; html: string; removed: string[] }[] = [
+  { name: 'script elements', html: '<p>Text<script>alert(1)</script></p>', removed: ['<script', 'alert'] },
+  { name: 'SVG script elements', html: '<svg><script>alert(1)</script><rect width="1"/></svg>', removed: ['<script', 'alert'] },
+  { name: 'event handlers', html: '<p onclick="alert(1)">Text</p><img src="data:image/png;base64,AAAA" onerror="alert(1)">', removed: ['onclick', 'onerror'] },
+  { name: 'SVG event handlers', html: '<svg onload="alert(1)"><rect onmouseover="alert(1)"/></svg>', removed: ['onload', 'onmouseover'] },
+  { name: 'javascript: links', html: '<a href="javascript:alert(1)">x</a>', removed: ['javascript'] },
+  { name: 'javascript: links with whitespace in the scheme', html: '<a href="java&#9;script:alert(1)">x</a><a href=" JAVASCRIPT:alert(1)">y</a>', removed: ['href'] },
+  { name: 'vbscript: links', html: '<a href="vbscript:msgbox(1)">x</a>', removed: ['vbscript'] },
+  { name: 'data:text/html links', html: '<a href="data:text/html,&lt;script&gt;alert(1)&lt;/script&gt;">x</a>', removed: ['data:', 'href'] },
+  { name: 'srcset', html: '<img src="data:image/png;base64,AAAA" srcset="https://example.com/x.png 2x">', removed: ['srcset', 'example.com'] },
+  { name: 'remote images', html: '<img src="https://example.com/x.png" alt="A map">', removed: ['<img', 'example.com'] },
+  { name: 'remote SVG images', html: '<svg><image href="https://example.com/x.png"/><image xlink:href="https://example.com/y.png"/></svg>', removed: ['<image', 'example.com'] },
+  { name: 'stylesheet links', html: '<div><link rel="stylesheet" href="https://example.com/x.css"></div>', removed: ['<link', 'example.com'] },
+  { name: 'style elements', html: '<div><style>body { background: url(https://example.com/x.png) }</style></div>', removed: ['<style', 'example.com'] },
+  { name: 'url() in styles', html: '<p style="background: url(https://example.com/x.png)">x</p>', removed: ['url', 'example.com'] },
+  { name: 'image-set() in styles', html: '<p style="background-image: image-set(&quot;x.png&quot; 1x)">x</p>', removed: ['image-set'] },
+  { name: 'escaped url() in styles', html: '<p style="background: u\\72l(https://example.com/x.png)">x</p>', removed: ['example.com'] },
+  { name: 'escaped characters in styles', html: '<p style="background: \\u\\r\\l(https://example.com/x.png)">x</p>', removed: ['example.com'] },
+  { name: 'comments inside style keywords', html: '<p style="background: ur/**/l(https://example.com/x.png)">x</p>', removed: ['example.com'] },
+  { name: 'fixed positioning', html: '<div style="position: fixed; inset: 0">x</div>', removed: ['fixed'] },
+  { name: 'escaped fixed positioning', html: '<div style="position: \\66ixed; z\\-index: 9">x</div>', removed: ['ixed', 'index'] },
+  { name: 'SVG links', html: '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>', removed: ['javascript'] },
+  { name: 'SVG <use>', html: '<svg><use xlink:href="https://example.com/sprite.svg#icon"/><use href="#local"/></svg>', removed: ['<use', 'example.com'] },
+  { name: 'meta refresh', html: '<div><meta http-equiv="refresh" content="0; url=https://example.com/"></div>', removed: ['<meta', 'refresh'] },
+  { name: 'frames and objects', html: '<iframe src="https://example.com/"></iframe><object data="x.swf"></object><embed src="x.swf">', removed: ['<iframe', '<object', '<embed'] },
+  { name: 'forms', html: '<form action="https://example.com/"><input name="q"><button>Go</button></form>', removed: ['<form', '<input', '<button'] },
+];
+
+describe('sanitizeHtml', () => {
+  it.each(UNSAFE_FIXTURES)('removes $name', ({ html, removed }) => {
+    const clean = sanitizeHtml(html).toLowerCase();
+    removed.forEach(text => expect(clean).not.toContain(text));
+  });
+
+  it('keeps ordinary chapter markup', () => {
+    const html = '<h1 id="chapter-1">One</h1><p class="first">It was <em>late</em>.</p>';
+    expect(sanitizeHtml(html)).toBe('<h1 id="chapter-1">One</h1><p class="epub-first">It was <em>late</em>.</p>');
+  });
+
+  it('keeps safe styles next to unsafe ones', () => {
+    const clean = sanitizeHtml('<p style="color: red; position: fixed; font-style: italic">x</p>');
+    expect(clean).toContain('color: red');
+    expect(clean).toContain('font-style: italic');
+    expect(clean).not.toContain('position');
+  });
+
+  it('keeps links to other chapters and opens web links in a new tab', () => {
+    const clean = sanitizeHtml('<a href="chapter2.xhtml#note-1">1</a><a href="https://example.com/">site</a>');
+    expect(clean).toContain('href="chapter2.xhtml#note-1"');
+    expect(clean).toContain('target="_blank"');
+    expect(clean).toContain('rel="noopener noreferrer"');
+  });
+
+  it('keeps inlined images and replaces remote ones with their description', () => {
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA" alt="Cover">')).toContain('src="data:image/png;base64,AAAA"');
+    expect(sanitizeHtml('<p><img src="https://example.com/x.png" alt="A map"></p>')).toBe('<p>A map</p>');
+  });
+
+  it('removes ids that would shadow document properties', () => {
+    const clean = sanitizeHtml('<p id="cookie">x</p><a name="getElementById">y</a>');
+    expect(clean).not.toContain('cookie');
+    expect(clean).not.toContain('getElementById');
+  });
+});
+
+describe('isSafeStyleDeclaration', () => {
+  it('allows url() only where asked to', () => {
+    expect(isSafeStyleDeclaration('background: url(images/bg.png)')).toBe(false);
+    expect(isSafeStyleDeclaration('background: url(images/bg.png)', { allowUrls: true })).toBe(true);
+    expect(isSafeStyleDeclaration('background: u\\72l(images/bg.png)')).toBe(false);
+  });
+
+  it('rejects what is unsafe even in book stylesheets', () => {
+    ['position: fixed', 'position: absolute', 'position:sticky', 'z-index: 10', 'p\\osition: fixed',
+      'behavior: url(x.htc)', 'width: expression(alert(1))', 'background: image-set("x.png" 1x)']
+      .forEach(declaration => expect(isSafeStyleDeclaration(declaration, { allowUrls: true })).toBe(false));
+  });
+
+  it('allows ordinary declarations', () => {
+    ['color: #333', 'font-family: "Georgia", serif', 'position: relative', 'content: "\\201C"']
+      .forEach(declaration => expect(isSafeStyleDeclaration(declaration)).toBe(true));
+  });
+});
@@ -0,0 +1,163 @@
+// Allowlist-based cleaning of EPUB chapter markup. Chapters come from untrusted files but are rendered
+// in the app's own origin (next to the Gemini key), so anything that can run script, navigate the app
+// or load remote resources is removed before a chapter is stored or shown.
+
+// Removed together with their content
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'link', 'meta', 'base', 'title', 'head', 'noscript', 'template',
+  'xmp', 'noembed', 'noframes', 'plaintext',
+  'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'portal',
+  'form', 'input', 'button', 'select', 'option', 'textarea',
+  'audio', 'video', 'source', 'track', 'picture', 'canvas', 'foreignobject', 'use', 'animate', 'set',
+]);
+
+// Kept as they are. Anything not listed here or above is unwrapped, leaving its (cleaned) children.
+const ALLOWED_ELEMENTS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo', 'big', 'blockquote', 'br', 'caption',
+  'center', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em',
+  'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'i',
+  'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol', 'p', 'pre', 'q', 'rb', 'rp', 'rt', 'ruby', 's',
+  'samp', 'section', 'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'time', 'tr', 'tt', 'u', 'ul', 'var', 'wbr',
+  // Static SVG, as used for cover pages and simple figures
+  'svg', 'g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan',
+  'image', 'defs', 'desc',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'id', 'name', 'class', 'title', 'lang', 'xml:lang', 'dir', 'role', 'epub:type', 'style',
+  'alt', 'width', 'height', 'colspan', 'rowspan', 'span', 'align', 'valign', 'start', 'type', 'reversed',
+  'value', 'datetime', 'href', 'src', 'xlink:href',
+  'viewbox', 'preserveaspectratio', 'version', 'd', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r',
+  'rx', 'ry', 'points', 'fill', 'fill-opacity', 'stroke', 'stroke-width', 'opacity', 'transform',
+  'font-size', 'font-family', 'text-anchor',
+]);
+
+const SAFE_LINK_SCHEMES = ['http', 'https', 'mailto'];
+
+// Only images already inlined by the parser may load; anything else would be a remote request
+const SAFE_IMAGE_PATTERN = /^data:image\/(png|jpe?g|gif|webp|bmp|avif|svg\+xml);base64,/i;
+
+// CSS that can load resources or run script, or lift content out of the page over the app's own UI
+const UNSAFE_STYLE_PATTERN = /image-set\s*\(|expression\s*\(|@import|behavior\s*:|-moz-binding|javascript:|position\s*:\s*(fixed|sticky|absolute)|z-index\s*:/i;
+// Resources named in CSS. Book stylesheets may use them, as their url()s are resolved to files from the EPUB.
+const STYLE_URL_PATTERN = /url\s*\(/i;
+
+// Book class names are prefixed so they can't pick up the app's utility classes (e.g. "fixed inset-0")
+export const BOOK_CLASS_PREFIX = 'epub-';
+
+// Browsers ignore whitespace and control characters inside schemes ("java\tscript:"), so compare without them
+const normalizeUrl = (value: string) => value.replace(/[\u0000- \u007f-\u009f]/g, '');
+
+const getScheme = (url: string) => url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+
+// Relative links (other chapters, fragments) are kept; absolute ones only with a safe scheme
+export const isSafeLink = (href: string) => {
+  const scheme = getScheme(normalizeUrl(href));
+  return !scheme || SAFE_LINK_SCHEMES.includes(scheme);
+};
+
+export const isExternalLink = (href: string) => {
+  const scheme = getScheme(normalizeUrl(href));
+  return scheme === 'http' || scheme === 'https' || scheme === 'mailto';
+};
+
+// CSS is checked as the browser reads it: escapes decoded ("u\\72l(" is "url(") and comments removed
+const decodeCss = (css: string) =>
+  css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\\([0-9a-f]{1,6})[ \t\n\r\f]?/gi, (_, hex: string) => {
+      const codePoint = parseInt(hex, 16);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+    })
+    .replace(/\\([\s\S])/g, '$1');
+
+// Checks one "property: value" declaration, from a style attribute or a book stylesheet
+export const isSafeStyleDeclaration = (declaration: string, options: { allowUrls?: boolean } = {}) => {
+  const normalized = normalizeUrl(decodeCss(declaration));
+  return !UNSAFE_STYLE_PATTERN.test(normalized) && (!!options.allowUrls || !STYLE_URL_PATTERN.test(normalized));
+};
+
+const sanitizeStyle = (style: string) =>
+  style
+    .split(';')
+    .filter(declaration => declaration.trim() && isSafeStyleDeclaration(declaration))
+    .join(';');
+
+const sanitizeAttributes = (element: Element, name: string) => {
+  Array.from(element.attributes).forEach(attribute => {
+    const attributeName = attribute.name.toLowerCase();
+    const value = attribute.value;
+
+    if (!ALLOWED_ATTRIBUTES.has(attributeName) && !attributeName.startsWith('aria-')) {
+      element.removeAttribute(attribute.name);
+    } else if ((attributeName === 'id' || attributeName === 'name') && value in document) {
+      // e.g. id="cookie" or name="getElementById" would shadow document properties the app relies on
+      element.removeAttribute(attribute.name);
+    } else if (attributeName === 'class') {
+      const classes = value.split(/\s+/).filter(Boolean)
+        .map(token => token.startsWith(BOOK_CLASS_PREFIX) ? token : BOOK_CLASS_PREFIX + token);
+      element.setAttribute(attribute.name, classes.join(' '));
+    } else if (attributeName === 'style') {
+      const style = sanitizeStyle(value);
+      if (style) element.setAttribute(attribute.name, style);
+      else element.removeAttribute(attribute.name);
+    } else if (attributeName === 'src' || attributeName === 'href' || attributeName === 'xlink:href') {
+      const isImage = name === 'img' || name === 'image';
+      const isSafe = isImage ? SAFE_IMAGE_PATTERN.test(value.trim()) : name === 'a' && isSafeLink(value);
+      if (!isSafe) element.removeAttribute(attribute.name);
+    }
+  });
+
+  if (name === 'a' && isExternalLink(element.getAttribute('href') || '')) {
+    element.setAttribute('target', '_blank');
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+};
+
+const sanitizeChildren = (parent: Element) => {
+  Array.from(parent.childNodes).forEach(node => {
+    // Comments, processing instructions and the like carry nothing worth rendering
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      if (node.nodeType !== Node.TEXT_NODE && node.nodeType !== Node.CDATA_SECTION_NODE) node.remove();
+      return;
+    }
+
+    const element = node as Element;
+    const name = element.localName.toLowerCase();
+    if (DROPPED_ELEMENTS.has(name)) {
+      element.remove();
+      return;
+    }
+
+    sanitizeChildren(element);
+
+    if (!ALLOWED_ELEMENTS.has(name)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    sanitizeAttributes(element, name);
+
+    // An image with nothing safe to show keeps its description instead
+    if ((name === 'img' || name === 'image') && !element.hasAttribute('src')
+      && !element.hasAttribute('href') && !element.hasAttribute('xlink:href')) {
+      const alt = element.getAttribute('alt');
+      if (alt) element.replaceWith(element.ownerDocument.createTextNode(alt));
+      else element.remove();
+    }
+  });
+};
+
+// Cleans a parsed chapter in place
+export const sanitizeChapter = (root: Element) => {
+  sanitizeChildren(root);
+};
+
+// Cleans serialized chapter HTML, e.g. books stored before sanitizing was added.
+// DOMParser documents are inert: nothing in them runs or loads while they are being cleaned.
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeChapter(doc.body);
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,26 @@
+// Re-encodes an image as a JPEG data URL no larger than the given box, for cover thumbnails and for
+// page images sent to the assistant. Smaller images are re-encoded at their own size.
+export const downscaleImage = async (src: string, maxWidth: number, maxHeight: number, quality = 0.8): Promise<string> => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+
+  const scale = Math.min(maxWidth / image.naturalWidth, maxHeight / image.naturalHeight, 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(Math.round(image.naturalWidth * scale), 1);
+  canvas.height = Math.max(Math.round(image.naturalHeight * scale), 1);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  // JPEG has no transparency; give transparent PNGs a white page rather than a black one
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Splits a base64 data URL into its parts
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
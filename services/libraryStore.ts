@@ -0,0 +1,261 @@
+import { Book, EntityIndex, Highlight, LibraryEntry, OcrPage, ReadingPosition, RecapSummary } from '../types';
+import { INITIAL_BOUNDARY, getBookProgress } from './readingPosition';
+
+// Parsed books live in IndexedDB keyed by a hash of the original file, so they reopen without
+// re-uploading or re-parsing. Shelf entries are stored separately from the (large) book data
+// so the library can be listed cheaply.
+
+const DB_NAME = 'storysofar';
+const DB_VERSION = 5;
+const BOOKS_STORE = 'books';
+const ENTRIES_STORE = 'entries';
+const HIGHLIGHTS_STORE = 'highlights';
+const OCR_STORE = 'ocr';
+const RECAPS_STORE = 'recaps';
+const ENTITIES_STORE = 'entities';
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BOOKS_STORE)) db.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        // v2: highlights and notes, looked up per book
+        if (!db.objectStoreNames.contains(HIGHLIGHTS_STORE)) {
+          db.createObjectStore(HIGHLIGHTS_STORE, { keyPath: 'id' }).createIndex('bookId', 'bookId');
+        }
+        // v3: text recognised on scanned PDF pages, per book and page
+        if (!db.objectStoreNames.contains(OCR_STORE)) {
+          db.createObjectStore(OCR_STORE, { keyPath: ['bookId', 'page'] }).createIndex('bookId', 'bookId');
+        }
+        // v4: summaries of the parts of a book that have been read, for recaps
+        if (!db.objectStoreNames.contains(RECAPS_STORE)) {
+          db.createObjectStore(RECAPS_STORE, { keyPath: ['bookId', 'key'] }).createIndex('bookId', 'bookId');
+        }
+        // v5: people, places and organisations found in the pages read
+        if (!db.objectStoreNames.contains(ENTITIES_STORE)) {
+          db.createObjectStore(ENTITIES_STORE, { keyPath: 'bookId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Before the library existed, progress was kept in localStorage keyed by file name.
+// Picks it up once for a newly added book and removes the old keys.
+const migrateLegacyProgress = (book: Book): { currentPage: number; boundary: ReadingPosition; progress: number } => {
+  const lastPage = book.totalPages - 1;
+  const progressKey = `progress_${book.fileName}`;
+  const boundaryKey = `boundary_${book.fileName}`;
+
+  const savedPage = parseInt(localStorage.getItem(progressKey) || '', 10);
+  const currentPage = isNaN(savedPage) ? 0 : Math.min(Math.max(savedPage, 0), lastPage);
+
+  let boundary: ReadingPosition = isNaN(savedPage) ? INITIAL_BOUNDARY : { page: currentPage };
+  try {
+    const savedBoundary = JSON.parse(localStorage.getItem(boundaryKey) || 'null');
+    if (typeof savedBoundary?.page === 'number') {
+      boundary = { page: Math.min(savedBoundary.page, lastPage), charOffset: savedBoundary.charOffset };
+    }
+  } catch (e) {
+    console.warn("Could not read legacy boundary", e);
+  }
+
+  localStorage.removeItem(progressKey);
+  localStorage.removeItem(boundaryKey);
+  return { currentPage, boundary, progress: getBookProgress(book, boundary) };
+};
+
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const db = await openDb();
+  const entries = await requestToPromise<LibraryEntry[]>(
+    db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll()
+  );
+  return entries.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+export const getStoredBook = async (id: string): Promise<Book | null> => {
+  const db = await openDb();
+  const book = await requestToPromise<Book | undefined>(
+    db.transaction(BOOKS_STORE).objectStore(BOOKS_STORE).get(id)
+  );
+  return book || null;
+};
+
+// Stores the book if it is new and marks it as opened. Returns its shelf entry with saved progress,
+// and when it was last opened before now (unset for a new book).
+export const saveBookToLibrary = async (book: Book): Promise<{ entry: LibraryEntry; previousOpenedAt?: number }> => {
+  const db = await openDb();
+  const existing = await requestToPromise<LibraryEntry | undefined>(
+    db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).get(book.id)
+  );
+
+  const now = Date.now();
+  const entry: LibraryEntry = existing
+    ? { ...existing, lastOpenedAt: now }
+    : {
+        id: book.id,
+        title: book.title,
+        author: book.metadata.author,
+        coverImage: book.metadata.coverImage,
+        fileType: book.fileType,
+        fileName: book.fileName,
+        totalPages: book.totalPages,
+        ...migrateLegacyProgress(book),
+        addedAt: now,
+        lastOpenedAt: now,
+      };
+
+  const transaction = db.transaction([BOOKS_STORE, ENTRIES_STORE], 'readwrite');
+  if (!existing) transaction.objectStore(BOOKS_STORE).put(book);
+  transaction.objectStore(ENTRIES_STORE).put(entry);
+  await transactionDone(transaction);
+
+  if (!existing) requestPersistentStorage();
+  return { entry, previousOpenedAt: existing?.lastOpenedAt };
+};
+
+export const updateLibraryEntry = async (id: string, changes: Partial<Omit<LibraryEntry, 'id'>>) => {
+  const db = await openDb();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = transaction.objectStore(ENTRIES_STORE);
+  const entry = await requestToPromise<LibraryEntry | undefined>(store.get(id));
+  if (entry) store.put({ ...entry, ...changes });
+  await transactionDone(transaction);
+};
+
+export const deleteFromLibrary = async (id: string) => {
+  const db = await openDb();
+  const transaction = db.transaction(
+    [BOOKS_STORE, ENTRIES_STORE, HIGHLIGHTS_STORE, OCR_STORE, RECAPS_STORE, ENTITIES_STORE],
+    'readwrite'
+  );
+  transaction.objectStore(BOOKS_STORE).delete(id);
+  transaction.objectStore(ENTRIES_STORE).delete(id);
+  transaction.objectStore(ENTITIES_STORE).delete(id);
+  for (const storeName of [HIGHLIGHTS_STORE, OCR_STORE, RECAPS_STORE]) {
+    const store = transaction.objectStore(storeName);
+    const keys = await requestToPromise(store.index('bookId').getAllKeys(id));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(transaction);
+};
+
+export const listHighlights = async (bookId: string): Promise<Highlight[]> => {
+  const db = await openDb();
+  const highlights = await requestToPromise<Highlight[]>(
+    db.transaction(HIGHLIGHTS_STORE).objectStore(HIGHLIGHTS_STORE).index('bookId').getAll(bookId)
+  );
+  return highlights.sort((a, b) => a.page - b.page || a.start - b.start);
+};
+
+export const saveHighlight = async (highlight: Highlight) => {
+  const db = await openDb();
+  const transaction = db.transaction(HIGHLIGHTS_STORE, 'readwrite');
+  transaction.objectStore(HIGHLIGHTS_STORE).put(highlight);
+  await transactionDone(transaction);
+};
+
+export const deleteHighlight = async (id: string) => {
+  const db = await openDb();
+  const transaction = db.transaction(HIGHLIGHTS_STORE, 'readwrite');
+  transaction.objectStore(HIGHLIGHTS_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const getOcrPage = async (bookId: string, page: number): Promise<OcrPage | null> => {
+  const db = await openDb();
+  const result = await requestToPromise<OcrPage | undefined>(
+    db.transaction(OCR_STORE).objectStore(OCR_STORE).get([bookId, page])
+  );
+  return result || null;
+};
+
+export const saveOcrPage = async (ocrPage: OcrPage) => {
+  const db = await openDb();
+  const transaction = db.transaction(OCR_STORE, 'readwrite');
+  transaction.objectStore(OCR_STORE).put(ocrPage);
+  await transactionDone(transaction);
+};
+
+export const listRecaps = async (bookId: string): Promise<RecapSummary[]> => {
+  const db = await openDb();
+  return requestToPromise<RecapSummary[]>(
+    db.transaction(RECAPS_STORE).objectStore(RECAPS_STORE).index('bookId').getAll(bookId)
+  );
+};
+
+export const saveRecap = async (recap: RecapSummary) => {
+  const db = await openDb();
+  const transaction = db.transaction(RECAPS_STORE, 'readwrite');
+  transaction.objectStore(RECAPS_STORE).put(recap);
+  await transactionDone(transaction);
+};
+
+export const getEntityIndex = async (bookId: string): Promise<EntityIndex | null> => {
+  const db = await openDb();
+  const index = await requestToPromise<EntityIndex | undefined>(
+    db.transaction(ENTITIES_STORE).objectStore(ENTITIES_STORE).get(bookId)
+  );
+  return index || null;
+};
+
+export const saveEntityIndex = async (index: EntityIndex) => {
+  const db = await openDb();
+  const transaction = db.transaction(ENTITIES_STORE, 'readwrite');
+  transaction.objectStore(ENTITIES_STORE).put(index);
+  await transactionDone(transaction);
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Asks the browser not to evict the library under storage pressure. Best effort.
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (e) {
+    console.warn("Persistent storage request failed", e);
+  }
+};
@@ -0,0 +1,269 @@
+import { GoogleGenAI } from "@google/genai";
+import { ChatTurn, LlmProviderId, LlmSettings } from '../types';
+
+export interface ChatRequest {
+  systemInstruction: string;
+  turns: ChatTurn[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  // Yields text deltas as they arrive. Stops early (without throwing) when the signal aborts.
+  streamChat: (request: ChatRequest, settings: LlmSettings) => AsyncGenerator<string>;
+  listModels: (settings: LlmSettings) => Promise<string[]>;
+  supportsImages: (settings: LlmSettings) => boolean;
+}
+
+const SETTINGS_KEY = 'llm_settings';
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1',
+  mock: 'mock-echo',
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  temperature: 0.3, // Lower temperature for more factual responses based on context
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+  imageInput: false,
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("Could not read assistant settings", e);
+  }
+  return DEFAULT_LLM_SETTINGS;
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// --- Gemini ---
+
+const getGeminiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    console.error("API Key is missing!");
+    throw new Error("API Key is missing");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  async *streamChat(request, settings) {
+    const ai = getGeminiClient();
+    try {
+      const responseStream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: request.turns.map(turn => ({
+          role: turn.role === 'assistant' ? 'model' : 'user',
+          parts: [
+            ...(turn.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+            { text: turn.content },
+          ]
+        })),
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: settings.temperature,
+          abortSignal: request.signal,
+        }
+      });
+
+      for await (const chunk of responseStream) {
+        if (request.signal?.aborted) return;
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      if (request.signal?.aborted || isAbortError(error)) return;
+      throw error;
+    }
+  },
+
+  async listModels() {
+    const ai = getGeminiClient();
+    const models: string[] = [];
+    const pager = await ai.models.list();
+    for await (const model of pager) {
+      if (model.name && model.supportedActions?.includes('generateContent')) {
+        models.push(model.name.replace(/^models\//, ''));
+      }
+    }
+    return models;
+  },
+
+  supportsImages: () => true,
+};
+
+// --- OpenAI-compatible (/v1/chat/completions: Ollama, llama.cpp server, vLLM, ...) ---
+
+const openAiHeaders = (settings: LlmSettings): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+});
+
+const openAiUrl = (settings: LlmSettings, path: string) => `${settings.endpoint.replace(/\/+$/, '')}${path}`;
+
+// Turns with images use the content-parts form, with each image inlined as a data URL
+const toOpenAiMessage = ({ role, content, images }: ChatTurn) => images?.length
+  ? {
+    role,
+    content: [
+      { type: 'text', text: content },
+      ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+    ],
+  }
+  : { role, content };
+
+const openAiProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+
+  async *streamChat(request, settings) {
+    let response: Response;
+    try {
+      response = await fetch(openAiUrl(settings, '/chat/completions'), {
+        method: 'POST',
+        headers: openAiHeaders(settings),
+        signal: request.signal,
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: settings.temperature,
+          stream: true,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...request.turns.map(toOpenAiMessage),
+          ],
+        }),
+      });
+    } catch (error) {
+      if (request.signal?.aborted || isAbortError(error)) return;
+      throw error;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Chat completion failed: ${response.status} ${response.statusText}`);
+    }
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!data || data.startsWith(':')) continue;
+          if (data === '[DONE]') return;
+          try {
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          } catch {
+            console.warn("Skipping malformed stream line", data);
+          }
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted || isAbortError(error)) return;
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  },
+
+  async listModels(settings) {
+    const response = await fetch(openAiUrl(settings, '/models'), { headers: openAiHeaders(settings) });
+    if (!response.ok) {
+      throw new Error(`Could not list models: ${response.status} ${response.statusText}`);
+    }
+    const json = await response.json();
+    return (json.data || []).map((model: any) => model.id).filter(Boolean);
+  },
+
+  // Servers don't say which models are multimodal, so this is a setting
+  supportsImages: settings => settings.imageInput,
+};
+
+// --- Mock (deterministic, offline; for tests and UI work) ---
+
+// A mock model that fails half way through its answer, for trying out how failed answers are shown
+export const MOCK_FAILING_MODEL = 'mock-fail';
+
+const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+
+  async *streamChat(request, settings) {
+    const question = request.turns[request.turns.length - 1]?.content.trim() || '';
+    const pages = Array.from(new Set(request.systemInstruction.match(/\[Page \d+\]/g) || []));
+    const imageCount = request.turns.reduce((count, turn) => count + (turn.images?.length || 0), 0);
+    // Cites the opening words of the first passage given, so citations can be tried out offline
+    const firstPassage = request.systemInstruction.match(/\[Page (\d+)\]: …?([^"\s]+(?: [^"\s]+){0,5})/);
+    const answer = `Mock answer to "${question}". ` +
+      `I was given ${request.systemInstruction.length} characters of instructions` +
+      (pages.length > 0 ? ` covering ${pages.length} page${pages.length > 1 ? 's' : ''} (${pages[0]} to ${pages[pages.length - 1]})` : '') +
+      (imageCount > 0 ? ` and ${imageCount} image${imageCount > 1 ? 's' : ''}.` : '.') +
+      (firstPassage ? ` It starts with "${firstPassage[2]}" [[Page ${firstPassage[1]}: "${firstPassage[2]}"]].` : '');
+
+    const words = answer.split(/(?<= )/);
+    for (let i = 0; i < words.length; i++) {
+      if (request.signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      if (settings.model === MOCK_FAILING_MODEL && i === Math.floor(words.length / 2)) {
+        throw new Error('The mock model failed on purpose.');
+      }
+      yield words[i];
+    }
+  },
+
+  async listModels() {
+    return [DEFAULT_MODELS.mock, MOCK_FAILING_MODEL];
+  },
+
+  supportsImages: () => true,
+};
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (settings: LlmSettings): LlmProvider =>
+  LLM_PROVIDERS[settings.provider] || geminiProvider;
+
+// Runs a request to the end and returns the whole answer, passing the text so far to `onChunk`.
+// Throws when aborted, so that an answer cut off part way is never taken for a whole one.
+export const completeChat = async (
+  request: ChatRequest,
+  settings: LlmSettings,
+  onChunk?: (text: string) => void
+): Promise<string> => {
+  let text = '';
+  for await (const chunk of getProvider(settings).streamChat(request, settings)) {
+    text += chunk;
+    onChunk?.(text);
+  }
+  request.signal?.throwIfAborted();
+  return text;
+};
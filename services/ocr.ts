@@ -0,0 +1,122 @@
+import { OEM, createWorker } from 'tesseract.js';
+import type { Page as TesseractPage, Worker as TesseractWorker } from 'tesseract.js';
+import { simd } from 'wasm-feature-detect';
+// The engine, its WebAssembly core and the English model are bundled with the app, so recognising
+// a scanned book never sends it (or anything else) over the network. The core comes in a faster
+// SIMD build and a plain one for browsers without WebAssembly SIMD; only the one used is loaded.
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractSimdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import englishModelUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { OcrPage, OcrWord } from '../types';
+import { getOcrPage, saveOcrPage } from './libraryStore';
+
+// Scanned text is rendered at about 216 dpi for recognition, but no larger than this on either side
+const OCR_RENDER_SCALE = 3;
+const OCR_MAX_IMAGE_SIDE = 4000;
+// Words recognised with less confidence than this are usually specks and scratches
+const MIN_WORD_CONFIDENCE = 30;
+
+const createOcrWorker = async (): Promise<TesseractWorker> => {
+  const response = await fetch(englishModelUrl);
+  if (!response.ok) throw new Error(`Could not load the OCR model: ${response.status}`);
+  const englishModel = new Uint8Array(await response.arrayBuffer());
+  return createWorker([{ code: 'eng', data: englishModel }], OEM.LSTM_ONLY, {
+    workerPath: tesseractWorkerUrl,
+    corePath: await simd() ? tesseractSimdCoreUrl : tesseractCoreUrl,
+    workerBlobURL: false,
+    cacheMethod: 'none', // Results are cached per page instead
+  });
+};
+
+// Rendering a page image holds up this thread, so each one waits until the browser is idle (or
+// has waited long enough), letting the pages being read paint and respond in between
+const waitForIdle = () => new Promise<void>(resolve => {
+  if (typeof requestIdleCallback === 'function') requestIdleCallback(() => resolve(), { timeout: 1000 });
+  else setTimeout(resolve, 0);
+});
+
+const renderPageImage = async (pdf: any, pageIndex: number) => {
+  const page = await pdf.getPage(pageIndex + 1);
+  const unscaled = page.getViewport({ scale: 1 });
+  const scale = Math.min(OCR_RENDER_SCALE, OCR_MAX_IMAGE_SIDE / Math.max(unscaled.width, unscaled.height));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  // Scans with transparency would otherwise be recognised against black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+  return { canvas, scale };
+};
+
+// Page text with a blank line between paragraphs, and the words in unscaled page coordinates.
+// The text is the words joined by spaces, so it lines up with a text layer built from them.
+const toOcrPage = (bookId: string, page: number, result: TesseractPage, scale: number): OcrPage => {
+  const words: OcrWord[] = [];
+  const paragraphs: string[] = [];
+  (result.blocks || []).forEach(block => block.paragraphs.forEach(paragraph => {
+    const paragraphWords = paragraph.lines
+      .flatMap(line => line.words)
+      .filter(word => word.text.trim() && word.confidence >= MIN_WORD_CONFIDENCE);
+    if (paragraphWords.length === 0) return;
+    paragraphWords.forEach(({ text, bbox }) => words.push({
+      text: text.trim(),
+      x0: bbox.x0 / scale,
+      y0: bbox.y0 / scale,
+      x1: bbox.x1 / scale,
+      y1: bbox.y1 / scale,
+    }));
+    paragraphs.push(paragraphWords.map(word => word.text.trim()).join(' '));
+  }));
+  return { bookId, page, text: paragraphs.join('\n\n'), words };
+};
+
+// Recognises the given pages of an open PDF.js document in order, calling `onPage` with each one.
+// Pages recognised before (in an earlier, interrupted run) come from the cache. Recognition runs
+// in Tesseract's own worker; only rendering the page image happens on this thread, one page at a
+// time between other work.
+export const recognizePdfPages = async (
+  pdf: any,
+  bookId: string,
+  pages: number[],
+  onPage: (result: OcrPage) => void,
+  signal?: AbortSignal
+) => {
+  let worker: TesseractWorker | null = null;
+  // A terminated Tesseract worker leaves its job pending forever, so aborting settles things here
+  let handleAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    handleAbort = () => {
+      worker?.terminate();
+      reject(signal?.reason);
+    };
+  });
+  aborted.catch(() => {});
+  signal?.addEventListener('abort', handleAbort);
+  try {
+    for (const page of pages) {
+      signal?.throwIfAborted();
+      let result = await getOcrPage(bookId, page).catch(() => null);
+      if (!result) {
+        worker ??= await createOcrWorker();
+        await waitForIdle();
+        signal?.throwIfAborted();
+        const { canvas, scale } = await renderPageImage(pdf, page);
+        signal?.throwIfAborted();
+        const { data } = await Promise.race([worker.recognize(canvas, {}, { blocks: true }), aborted]);
+        result = toOcrPage(bookId, page, data, scale);
+        saveOcrPage(result).catch(e => console.warn("Could not cache OCR result", e));
+      }
+      onPage(result);
+    }
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    await worker?.terminate();
+  }
+};
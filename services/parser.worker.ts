@@ -0,0 +1,78 @@
+// Parsing work that would otherwise block the page: unzipping EPUBs and comic archives (including
+// base64-encoding their images) and extracting positioned PDF text. This runs as a classic worker
+// so the CDN builds of JSZip and PDF.js can be loaded with importScripts, which means imports here
+// must stay type-only.
+import type { ArchiveFiles, ParserWorkerMessage, ParserWorkerRequest, PdfTextItem } from '../types';
+
+declare const importScripts: (...urls: string[]) => void;
+declare const JSZip: any;
+declare const pdfjsLib: any;
+
+const JSZIP_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/jszip/3.10.1/jszip.min.js';
+const PDFJS_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+// Entries read as strings; everything else is passed back base64-encoded
+const TEXT_FILE_PATTERN = /\.(x?html?|xml|opf|ncx|css)$/i;
+
+const post = (message: ParserWorkerMessage) => self.postMessage(message);
+
+const unpackArchive = async (file: File) => {
+  importScripts(JSZIP_SRC);
+  const zip = await new JSZip().loadAsync(file);
+  const entries = Object.values(zip.files).filter((entry: any) => !entry.dir) as any[];
+  const files: ArchiveFiles = { textFiles: {}, binaryFiles: {} };
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (TEXT_FILE_PATTERN.test(entry.name)) {
+      files.textFiles[entry.name] = await entry.async('string');
+    } else {
+      files.binaryFiles[entry.name] = await entry.async('base64');
+    }
+    post({ type: 'progress', progress: { phase: 'unpacking', done: i + 1, total: entries.length } });
+  }
+
+  post({ type: 'archive-files', files });
+};
+
+const extractPdfText = async (data: ArrayBuffer) => {
+  // With pdf.worker loaded into this scope, PDF.js parses in-thread instead of starting another worker
+  importScripts(PDFJS_SRC, PDFJS_WORKER_SRC);
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    // Positions go back with the text so the page layout can be rebuilt (see pdfLayout.ts)
+    const items: PdfTextItem[] = textContent.items
+      .filter((item: any) => typeof item.str === 'string')
+      .map((item: any) => {
+        const [a, b, c, d, x, y] = item.transform;
+        return {
+          text: item.str,
+          x,
+          y,
+          width: item.width,
+          size: Math.hypot(c, d) || item.height,
+          angle: Math.atan2(b, a),
+          hasEOL: !!item.hasEOL,
+        };
+      });
+    post({ type: 'pdf-page', page: i - 1, items });
+    page.cleanup();
+  }
+
+  await pdf.destroy();
+};
+
+self.onmessage = async (event: MessageEvent<ParserWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'unzip') await unpackArchive(request.file);
+    else await extractPdfText(request.data);
+    post({ type: 'done' });
+  } catch (e: any) {
+    post({ type: 'error', message: e?.message || 'Failed to parse file.' });
+  }
+};
@@ -0,0 +1,259 @@
+import { PageSize } from '../types';
+import { HEADER_FOOTER_WINDOW, PdfPageLayout, PdfPageText, getPdfPageTextWithOrigins, layoutPdfPage, toPdfTextItems } from './pdfLayout';
+
+// One PDF.js document per book, shared by the parser, OCR and the Reader, with rendered pages kept
+// as bitmaps so turning back and forth (or to a page rendered ahead of time) needs no re-rendering.
+
+const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+// Rendered pages kept per document, by memory rather than count since scanned pages are large
+const BITMAP_CACHE_BYTES = 256 * 1024 * 1024;
+// A released document stays open this long, so the parser can hand it over to the Reader
+// (and a book closed by mistake reopens instantly)
+const IDLE_DOCUMENT_MS = 10000;
+
+interface PendingRender {
+  promise: Promise<ImageBitmap>;
+  cancel: () => void;
+  waiters: number;
+}
+
+interface OpenDocument {
+  loading: Promise<any>;
+  users: number;
+  closed: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  // Least recently used first; Map keeps insertion order, so a hit is moved to the end
+  bitmaps: Map<string, ImageBitmap>;
+  bitmapBytes: number;
+  pending: Map<string, PendingRender>;
+  textContent: Map<number, Promise<any>>;
+  layouts: Map<number, Promise<PdfPageLayout>>;
+  sizes: Map<number, Promise<PageSize>>;
+}
+
+// Keyed by Book.renderData, which stays the same object for the life of a loaded book
+const openDocuments = new WeakMap<ArrayBuffer, OpenDocument>();
+// The same records, by the PDF.js document they hold
+const documentRecords = new WeakMap<object, OpenDocument>();
+
+const getRecord = (pdf: any): OpenDocument => {
+  const record = documentRecords.get(pdf);
+  if (!record) throw new Error('This PDF document is not open');
+  return record;
+};
+
+const renderKey = (pageIndex: number, pixelScale: number) => `${pageIndex}@${pixelScale.toFixed(3)}`;
+
+const closeDocument = (data: ArrayBuffer, record: OpenDocument) => {
+  openDocuments.delete(data);
+  record.closed = true;
+  record.pending.forEach(render => render.cancel());
+  record.bitmaps.forEach(bitmap => bitmap.close());
+  record.bitmaps.clear();
+  record.textContent.clear();
+  record.layouts.clear();
+  record.sizes.clear();
+  record.loading.then(pdf => pdf.destroy(), () => {});
+};
+
+// Opens the PDF held in `data`, or shares the copy already open. Each call must be paired with
+// releasePdfDocument once the caller is done with it.
+export const acquirePdfDocument = (data: ArrayBuffer): Promise<any> => {
+  let record = openDocuments.get(data);
+  if (!record) {
+    if (!window.pdfjsLib) return Promise.reject(new Error('PDF.js library not loaded'));
+    window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
+    // PDF.js takes ownership of the buffer it is given, so it gets a copy and the book keeps its own
+    const loading: Promise<any> = window.pdfjsLib.getDocument({ data: data.slice(0) }).promise;
+    const newRecord: OpenDocument = {
+      loading,
+      users: 0,
+      closed: false,
+      bitmaps: new Map(),
+      bitmapBytes: 0,
+      pending: new Map(),
+      textContent: new Map(),
+      layouts: new Map(),
+      sizes: new Map(),
+    };
+    loading.then(pdf => documentRecords.set(pdf, newRecord), () => openDocuments.delete(data));
+    openDocuments.set(data, newRecord);
+    record = newRecord;
+  }
+  clearTimeout(record.idleTimer);
+  record.users++;
+  return record.loading;
+};
+
+export const releasePdfDocument = (data: ArrayBuffer) => {
+  const record = openDocuments.get(data);
+  if (!record || --record.users > 0) return;
+  record.idleTimer = setTimeout(() => {
+    if (record.users === 0) closeDocument(data, record);
+  }, IDLE_DOCUMENT_MS);
+};
+
+// Text items of a page, fetched from the PDF.js worker once
+export const getPdfTextContent = (pdf: any, pageIndex: number): Promise<any> => {
+  const record = getRecord(pdf);
+  let textContent = record.textContent.get(pageIndex);
+  if (!textContent) {
+    textContent = pdf.getPage(pageIndex + 1).then((page: any) => page.getTextContent());
+    textContent.catch(() => record.textContent.delete(pageIndex));
+    record.textContent.set(pageIndex, textContent);
+  }
+  return textContent;
+};
+
+const getPdfPageLayout = (pdf: any, record: OpenDocument, pageIndex: number): Promise<PdfPageLayout> => {
+  let layout = record.layouts.get(pageIndex);
+  if (!layout) {
+    layout = getPdfTextContent(pdf, pageIndex).then(textContent => layoutPdfPage(toPdfTextItems(textContent.items)));
+    layout.catch(() => record.layouts.delete(pageIndex));
+    record.layouts.set(pageIndex, layout);
+  }
+  return layout;
+};
+
+// A page's text rebuilt as the parser builds Book.content, with where each character sits among the
+// page's text items. The pages either side are laid out as well, to leave out running headers.
+export const loadPdfPageText = async (pdf: any, pageIndex: number): Promise<PdfPageText> => {
+  const record = getRecord(pdf);
+  const layouts: PdfPageLayout[] = [];
+  const first = Math.max(pageIndex - HEADER_FOOTER_WINDOW, 0);
+  const last = Math.min(pageIndex + HEADER_FOOTER_WINDOW, pdf.numPages - 1);
+  await Promise.all(Array.from({ length: last - first + 1 }, async (_, i) => {
+    layouts[first + i] = await getPdfPageLayout(pdf, record, first + i);
+  }));
+  return getPdfPageTextWithOrigins(layouts, pageIndex);
+};
+
+// Unscaled size of a page, in PDF points
+export const getPdfPageSize = (pdf: any, pageIndex: number): Promise<PageSize> => {
+  const record = getRecord(pdf);
+  let size = record.sizes.get(pageIndex);
+  if (!size) {
+    size = pdf.getPage(pageIndex + 1).then((page: any) => {
+      const { width, height } = page.getViewport({ scale: 1 });
+      return { width, height };
+    });
+    size.catch(() => record.sizes.delete(pageIndex));
+    record.sizes.set(pageIndex, size);
+  }
+  return size;
+};
+
+// The page already rendered at this scale, if it is cached
+export const getCachedPdfPage = (pdf: any, pageIndex: number, pixelScale: number): ImageBitmap | null => {
+  const record = getRecord(pdf);
+  const key = renderKey(pageIndex, pixelScale);
+  const bitmap = record.bitmaps.get(key);
+  if (!bitmap) return null;
+  record.bitmaps.delete(key);
+  record.bitmaps.set(key, bitmap);
+  return bitmap;
+};
+
+const cacheBitmap = (record: OpenDocument, key: string, bitmap: ImageBitmap) => {
+  record.bitmaps.set(key, bitmap);
+  record.bitmapBytes += bitmap.width * bitmap.height * 4;
+  for (const [oldKey, oldBitmap] of record.bitmaps) {
+    if (record.bitmapBytes <= BITMAP_CACHE_BYTES || oldKey === key) break;
+    record.bitmaps.delete(oldKey);
+    record.bitmapBytes -= oldBitmap.width * oldBitmap.height * 4;
+    oldBitmap.close();
+  }
+};
+
+const startRender = (pdf: any, record: OpenDocument, pageIndex: number, pixelScale: number, key: string): PendingRender => {
+  let renderTask: any = null;
+  let cancelled = false;
+  const promise = (async () => {
+    const page = await pdf.getPage(pageIndex + 1);
+    if (cancelled) throw new DOMException('Render cancelled', 'AbortError');
+    const viewport = page.getViewport({ scale: pixelScale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    renderTask = page.render({ canvasContext: context, viewport });
+    try {
+      await renderTask.promise;
+    } finally {
+      // The page's decoded images are no longer needed once it is a bitmap
+      page.cleanup();
+    }
+    const bitmap = await createImageBitmap(canvas);
+    // The document may have closed while this page rendered
+    if (record.closed) {
+      bitmap.close();
+      throw new DOMException('Render cancelled', 'AbortError');
+    }
+    cacheBitmap(record, key, bitmap);
+    return bitmap;
+  })();
+  const render: PendingRender = {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      renderTask?.cancel();
+      forget();
+    },
+    waiters: 0,
+  };
+  // A cancelled render is forgotten straight away, so asking for the page again starts afresh
+  const forget = () => {
+    if (record.pending.get(key) === render) record.pending.delete(key);
+  };
+  promise.then(forget, forget);
+  return render;
+};
+
+// Renders a page at `pixelScale` (the CSS scale times the device pixel ratio) into a bitmap.
+// Pages come from the cache when possible, and a page already being rendered is waited for rather
+// than rendered twice. Aborting stops waiting; the render itself is cancelled once nobody wants it.
+export const renderPdfPage = (pdf: any, pageIndex: number, pixelScale: number, signal?: AbortSignal): Promise<ImageBitmap> => {
+  const cached = getCachedPdfPage(pdf, pageIndex, pixelScale);
+  if (cached) return Promise.resolve(cached);
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const record = getRecord(pdf);
+  const key = renderKey(pageIndex, pixelScale);
+  let render = record.pending.get(key);
+  if (!render) {
+    render = startRender(pdf, record, pageIndex, pixelScale, key);
+    record.pending.set(key, render);
+  }
+  const pendingRender = render;
+  pendingRender.waiters++;
+
+  return new Promise<ImageBitmap>((resolve, reject) => {
+    const handleAbort = () => {
+      if (--pendingRender.waiters === 0) pendingRender.cancel();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    pendingRender.promise.then(resolve, reject).finally(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      if (!signal?.aborted) pendingRender.waiters--;
+    });
+  });
+};
+
+// Renders pages ahead of time, one after another so they don't slow the pages being read
+export const prerenderPdfPages = async (
+  pdf: any,
+  pages: { pageIndex: number; pixelScale: number }[],
+  signal: AbortSignal
+) => {
+  for (const { pageIndex, pixelScale } of pages) {
+    if (signal.aborted) return;
+    try {
+      await renderPdfPage(pdf, pageIndex, pixelScale, signal);
+    } catch (e) {
+      if (!signal.aborted) console.warn(`Could not render page ${pageIndex + 1} ahead of time`, e);
+    }
+  }
+};
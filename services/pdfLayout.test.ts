@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { PdfTextItem } from '../types';
+import { ITEM_ORIGIN_STRIDE, getPdfPageText, getPdfPageTextWithOrigins, layoutPdfPage } from './pdfLayout';
+import { buildPdfTextMap, buildTextMap, createAnchor, offsetsToRanges, resolveAnchor } from './textAnchors';
+
+const LEFT_COLUMN = [
+  'The river ran high that spring, and the',
+  'ferry could not cross for a week. The vil-',
+  'lagers waited on the bank with their carts',
+  'and their goods, and the price of bread',
+];
+const RIGHT_COLUMN = [
+  'rose every day they waited. Nobody in the',
+  'town could remember a flood like it, and',
+  'some began to say the bridge should be re-',
+  'built before another winter came.',
+];
+
+// A two-column page whose content stream runs across both columns line by line, as some
+// typesetters write it, with a word hyphenated in each column
+const createTwoColumnPage = (): PdfTextItem[] => LEFT_COLUMN.flatMap((left, row) => {
+  const y = 700 - row * 12;
+  const right = RIGHT_COLUMN[row];
+  return [
+    { text: left, x: 50, y, width: 200, size: 10, angle: 0, hasEOL: true },
+    { text: right, x: 300, y, width: row === RIGHT_COLUMN.length - 1 ? 150 : 200, size: 10, angle: 0, hasEOL: true },
+  ];
+});
+
+// A text layer as PdfPageView builds it: one span per item, in content order
+const createTextLayer = (items: PdfTextItem[]) => {
+  const container = document.createElement('div');
+  items.forEach((item, index) => {
+    const span = document.createElement('span');
+    span.textContent = item.text;
+    span.dataset.item = String(index);
+    container.appendChild(span);
+    if (item.hasEOL) container.appendChild(document.createElement('br'));
+  });
+  return container;
+};
+
+describe('getPdfPageText', () => {
+  it('reads columns in order and mends hyphenated words', () => {
+    const text = getPdfPageText([layoutPdfPage(createTwoColumnPage())], 0);
+    expect(text).toBe(
+      'The river ran high that spring, and the ferry could not cross for a week. The villagers waited on the bank '
+      + 'with their carts and their goods, and the price of bread rose every day they waited. Nobody in the town '
+      + 'could remember a flood like it, and some began to say the bridge should be rebuilt before another winter came.'
+    );
+  });
+
+  it('knows where each character came from', () => {
+    const items = createTwoColumnPage();
+    const { text, origins } = getPdfPageTextWithOrigins([layoutPdfPage(items)], 0);
+    expect(origins).toHaveLength(text.length);
+    const start = text.indexOf('villagers');
+    const itemOf = (origin: number) => Math.floor(origin / ITEM_ORIGIN_STRIDE);
+    // "vil" ends the third item (the left column's second line) and "lagers" starts the fifth
+    expect(origins.slice(start, start + 3).map(itemOf)).toEqual([2, 2, 2]);
+    expect(origins[start + 3]).toBe(4 * ITEM_ORIGIN_STRIDE);
+  });
+});
+
+describe('buildPdfTextMap', () => {
+  const items = createTwoColumnPage();
+  const pageText = getPdfPageTextWithOrigins([layoutPdfPage(items)], 0);
+
+  it('reads the text layer as the page text', () => {
+    const container = createTextLayer(items);
+    expect(buildTextMap(container, true).text).not.toContain('villagers');
+    expect(buildPdfTextMap(container, pageText).text).toBe(pageText.text);
+  });
+
+  it.each([
+    ['a mended hyphen', 'The villagers waited', ['The vil', 'lagers waited']],
+    ['a column break', 'price of bread rose every day', ['price of bread', 'rose every day']],
+    ['a hyphen at the end of a column', 'should be rebuilt before', ['should be re', 'built before']],
+  ])('finds quotes across %s on the text layer', (_, quote, marked) => {
+    const container = createTextLayer(items);
+    const map = buildPdfTextMap(container, pageText);
+    const start = pageText.text.indexOf(quote);
+    const resolved = resolveAnchor(map.text, createAnchor(pageText.text, start, start + quote.length));
+    expect(resolved).toEqual({ start, end: start + quote.length });
+
+    // Only the quoted characters are covered, though the lines between them in the DOM belong to
+    // the other column
+    expect(offsetsToRanges(map, resolved!.start, resolved!.end).map(range => range.toString())).toEqual(marked);
+  });
+
+  it('still maps the layer once marks have split its text', () => {
+    const container = createTextLayer(items);
+    const map = buildPdfTextMap(container, pageText);
+    const start = pageText.text.indexOf('ferry');
+    offsetsToRanges(map, start, start + 5).forEach(range => range.surroundContents(document.createElement('mark')));
+
+    const remapped = buildPdfTextMap(container, pageText);
+    const quoteStart = pageText.text.indexOf('cross for a week');
+    const covered = offsetsToRanges(remapped, quoteStart, quoteStart + 16).map(range => range.toString());
+    expect(covered).toEqual(['cross for a week']);
+  });
+});
@@ -0,0 +1,370 @@
+import { PdfTextItem } from '../types';
+
+// Rebuilds readable text from the positioned runs PDF.js reports for a page. Runs are grouped into
+// lines by baseline, lines into columns at vertical gutters, and columns into paragraphs by spacing
+// and indentation; words hyphenated across lines are joined back up. Running headers, footers and
+// page numbers are recognised by repeating at the same edge of nearby pages, and left out.
+// Each character of the rebuilt text remembers which text item it came from, so offsets into the
+// text can be found again on the page's text layer.
+
+interface LayoutLine {
+  text: string;
+  origins: number[]; // One per character of text, as in PdfPageText
+  x0: number;
+  x1: number;
+  y: number; // Baseline, growing upwards
+  size: number;
+  startsParagraph: boolean;
+}
+
+export interface PdfPageLayout {
+  lines: LayoutLine[]; // In reading order
+  edgeLines: { line: LayoutLine; edge: 'top' | 'bottom' }[]; // Possible headers and footers
+}
+
+// A page's text with where each character came from: the index of its text item times
+// ITEM_ORIGIN_STRIDE plus its offset within the item, or -1 for a space or break the layout put in
+export interface PdfPageText {
+  text: string;
+  origins: number[];
+}
+
+export const ITEM_ORIGIN_STRIDE = 1 << 20;
+
+type IndexedItem = PdfTextItem & { index: number };
+
+// Pages either side compared when looking for running headers and footers
+export const HEADER_FOOTER_WINDOW = 4;
+// How many lines at each edge of a page can be a header or footer
+const EDGE_LINES = 2;
+// Pages with less text than this are taken to be scans (a stray page number doesn't count)
+const MIN_TEXT_LAYER_CHARS = 10;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Text at a quarter turn or more from the page's main direction (margin stamps, watermarks, rotated
+// table headings) is left out rather than interleaved with the body.
+const MAX_ANGLE_DEVIATION = 0.1;
+
+// Rotates items into the page's main reading direction, so rotated pages lay out like upright ones
+const toReadingFrame = (items: IndexedItem[]): IndexedItem[] => {
+  const weightByQuadrant = new Map<number, number>();
+  items.forEach(item => {
+    const quadrant = Math.round(item.angle / (Math.PI / 2));
+    weightByQuadrant.set(quadrant, (weightByQuadrant.get(quadrant) || 0) + item.text.length);
+  });
+  const quadrant = Array.from(weightByQuadrant.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+  const angle = quadrant * (Math.PI / 2);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return items
+    .filter(item => Math.abs(Math.atan2(Math.sin(item.angle - angle), Math.cos(item.angle - angle))) <= MAX_ANGLE_DEVIATION)
+    .map(item => ({ ...item, x: item.x * cos + item.y * sin, y: item.y * cos - item.x * sin }));
+};
+
+// Appends one by one, as spreading a long array into push() can overflow the stack
+const appendOrigins = (origins: number[], added: number[]) => {
+  added.forEach(origin => origins.push(origin));
+};
+
+const getItemOrigins = (item: IndexedItem) =>
+  Array.from({ length: item.text.length }, (_, i) => item.index * ITEM_ORIGIN_STRIDE + i);
+
+// Collapses runs of whitespace to one space and trims the ends, keeping each character's origin
+const collapseWhitespace = (text: string, origins: number[]) => {
+  let collapsed = '';
+  const kept: number[] = [];
+  let space: number | null = null;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (collapsed && space === null) space = origins[i];
+      continue;
+    }
+    if (space !== null) {
+      collapsed += ' ';
+      kept.push(space);
+      space = null;
+    }
+    collapsed += text[i];
+    kept.push(origins[i]);
+  }
+  return { text: collapsed, origins: kept };
+};
+
+// Groups runs into lines, in content order. A line also ends at a wide horizontal gap, so text
+// from two columns that happens to share a baseline stays apart.
+const buildLines = (items: IndexedItem[]): LayoutLine[] => {
+  const lines: LayoutLine[] = [];
+  let current: LayoutLine | null = null;
+  let lineEnded = false;
+
+  items.forEach(item => {
+    const size = item.size || 1;
+    if (!item.text.trim()) {
+      if (item.hasEOL) lineEnded = true;
+      return;
+    }
+
+    const startsNewLine = !current
+      || lineEnded
+      || Math.abs(item.y - current.y) > Math.max(size, current.size) * 0.5
+      || item.x < current.x1 - Math.max(size, current.size)
+      || item.x - current.x1 > Math.max(size, current.size) * 3;
+
+    if (startsNewLine) {
+      current = {
+        text: item.text, origins: getItemOrigins(item), x0: item.x, x1: item.x + item.width, y: item.y, size, startsParagraph: false
+      };
+      lines.push(current);
+    } else if (current) {
+      const gap = item.x - current.x1;
+      const needsSpace = gap > Math.max(size, current.size) * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.text);
+      if (needsSpace) {
+        current.text += ' ';
+        current.origins.push(-1);
+      }
+      current.text += item.text;
+      appendOrigins(current.origins, getItemOrigins(item));
+      current.x0 = Math.min(current.x0, item.x);
+      current.x1 = Math.max(current.x1, item.x + item.width);
+      // Keep the body text's baseline and size rather than a superscript's
+      if (size > current.size) {
+        current.size = size;
+        current.y = item.y;
+      }
+    }
+    lineEnded = item.hasEOL;
+  });
+
+  return lines
+    .map(line => ({ ...line, ...collapseWhitespace(line.text, line.origins) }))
+    .filter(line => line.text);
+};
+
+// X positions of the gaps between text columns. A gutter is a vertical strip that only lines
+// spanning all columns (titles, figures) cross, with lines on both sides that fill their column;
+// the last condition keeps table columns from being read as text columns.
+const findGutters = (lines: LayoutLine[], fontSize: number): number[] => {
+  if (lines.length < 6) return [];
+  const left = Math.min(...lines.map(line => line.x0));
+  const right = Math.max(...lines.map(line => line.x1));
+  const span = right - left;
+  if (span <= 0) return [];
+
+  const step = Math.max(fontSize / 2, 1);
+  const maxCrossing = Math.max(2, lines.length * 0.25);
+  const candidates: number[] = [];
+  let runStart: number | null = null;
+  for (let x = left + span * 0.15; x <= right - span * 0.15; x += step) {
+    const crossing = lines.filter(line => line.x0 < x && line.x1 > x).length;
+    if (crossing <= maxCrossing) {
+      if (runStart === null) runStart = x;
+    } else if (runStart !== null) {
+      if (x - runStart >= fontSize) candidates.push((runStart + x) / 2);
+      runStart = null;
+    }
+  }
+  if (runStart !== null && right - span * 0.15 - runStart >= fontSize) {
+    candidates.push((runStart + right - span * 0.15) / 2);
+  }
+
+  const bounds = [left, ...candidates, right];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const columnWidth = bounds[i + 1] - bounds[i];
+    const columnLines = lines.filter(line => line.x0 >= bounds[i] - step && line.x1 <= bounds[i + 1] + step);
+    if (columnLines.length < 3) return [];
+    if (median(columnLines.map(line => line.x1 - line.x0)) < columnWidth * 0.5) return [];
+  }
+  return candidates;
+};
+
+interface LineBlock {
+  lines: LayoutLine[];
+  spansColumns: boolean;
+}
+
+// Orders lines top to bottom, reading each run of columns left to right. Lines that cross a
+// gutter split the page into bands, each read column by column.
+const orderLines = (lines: LayoutLine[], gutters: number[], fontSize: number): LineBlock[] => {
+  const byHeight = [...lines].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  if (gutters.length === 0) return [{ lines: byHeight, spansColumns: false }];
+
+  const tolerance = fontSize / 2;
+  const columnOf = (line: LayoutLine) => {
+    const index = gutters.findIndex(gutter => line.x0 < gutter - tolerance && line.x1 > gutter + tolerance);
+    if (index !== -1) return -1; // Spans columns
+    return gutters.filter(gutter => line.x0 >= gutter - tolerance).length;
+  };
+
+  const blocks: LineBlock[] = [];
+  let band: LayoutLine[][] = gutters.map(() => []).concat([[]]);
+  const flushBand = () => {
+    band.filter(column => column.length > 0).forEach(column => blocks.push({ lines: column, spansColumns: false }));
+    band = gutters.map(() => []).concat([[]]);
+  };
+
+  byHeight.forEach(line => {
+    const column = columnOf(line);
+    if (column === -1) {
+      flushBand();
+      blocks.push({ lines: [line], spansColumns: true });
+    } else {
+      band[column].push(line);
+    }
+  });
+  flushBand();
+  return blocks;
+};
+
+const SENTENCE_END_PATTERN = /[.!?:;"”’)\]]$/;
+
+// Flags the lines that begin a paragraph within a block of lines from one column. The first line
+// of a block only starts one if it looks like it, since paragraphs carry on across columns.
+const markParagraphs = (block: LayoutLine[]) => {
+  // Typical margins, so a stray line (a page number, a figure label) doesn't skew them
+  const left = median(block.map(line => line.x0));
+  const right = median(block.map(line => line.x1));
+  const gaps = block.slice(1).map((line, i) => block[i].y - line.y).filter(gap => gap > 0);
+  const lineGap = median(gaps);
+
+  block.forEach((line, i) => {
+    const previous = block[i - 1];
+    const indented = line.x0 - left > line.size * 0.8 && (!previous || line.x0 - previous.x0 > line.size * 0.8);
+    if (!previous) {
+      line.startsParagraph = indented;
+      return;
+    }
+    const gap = previous.y - line.y;
+    // Further along the same baseline, e.g. the next cell of a table row
+    if (Math.abs(gap) < line.size * 0.5) {
+      line.startsParagraph = false;
+      return;
+    }
+    const sizeChanged = Math.abs(line.size - previous.size) > previous.size * 0.15;
+    const previousEndedShort = previous.x1 < right - (right - left) * 0.15 && SENTENCE_END_PATTERN.test(previous.text);
+    line.startsParagraph = indented
+      || sizeChanged
+      || previousEndedShort
+      || (lineGap > 0 && gap > lineGap * 1.4);
+  });
+};
+
+export const layoutPdfPage = (items: PdfTextItem[]): PdfPageLayout => {
+  const lines = buildLines(toReadingFrame(items.map((item, index) => ({ ...item, index }))));
+  const fontSize = median(lines.map(line => line.size)) || 10;
+  const blocks = orderLines(lines, findGutters(lines, fontSize), fontSize);
+  blocks.forEach((block, i) => {
+    markParagraphs(block.lines);
+    // A line across the columns (a title or caption) stands apart from the text around it
+    if (block.spansColumns || blocks[i - 1]?.spansColumns) block.lines[0].startsParagraph = true;
+  });
+
+  // Running headers are set no larger than the body text, unlike chapter headings
+  const byHeight = [...lines].sort((a, b) => b.y - a.y);
+  const isEdgeSized = (line: LayoutLine) => line.size <= fontSize * 1.15;
+  const edgeLines = [
+    ...byHeight.slice(0, EDGE_LINES).filter(isEdgeSized).map(line => ({ line, edge: 'top' as const })),
+    ...byHeight.slice(EDGE_LINES).slice(-EDGE_LINES).filter(isEdgeSized).map(line => ({ line, edge: 'bottom' as const })),
+  ];
+
+  return { lines: blocks.flatMap(block => block.lines), edgeLines };
+};
+
+// Page numbers on their own: "12", "- 12 -", "Page 12", "12 of 300", "xiv"
+const PAGE_NUMBER_PATTERN = /^(?:[Pp]age\s+)?[-–—\s]*(?:\d{1,4}|[ivxlcdm]{1,7})(?:\s*(?:of|\/)\s*\d{1,4})?[-–—\s]*$/;
+
+// Compares header lines with their numbers (and so their page numbers) ignored
+const edgeKey = (text: string) => PAGE_NUMBER_PATTERN.test(text)
+  ? '#'
+  : text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+const isRunningLine = (layouts: (PdfPageLayout | undefined)[], page: number, text: string, edge: 'top' | 'bottom') => {
+  const key = edgeKey(text);
+  let neighbours = 0;
+  let matches = 0;
+  for (let other = page - HEADER_FOOTER_WINDOW; other <= page + HEADER_FOOTER_WINDOW; other++) {
+    const layout = layouts[other];
+    if (other === page || !layout) continue;
+    neighbours++;
+    if (layout.edgeLines.some(candidate => candidate.edge === edge && edgeKey(candidate.line.text) === key)) matches++;
+  }
+  // Alternating headers (author on left pages, title on right) repeat on every other page
+  return neighbours >= 2 && matches >= 2;
+};
+
+export const lacksTextLayer = (pageText: string) => pageText.replace(/\s+/g, '').length < MIN_TEXT_LAYER_CHARS;
+
+// Text items as PDF.js reports them, in the form the parser worker sends them (the worker can't
+// import this module, so the two must be kept alike). Every item is kept, so indexes match.
+export const toPdfTextItems = (items: any[]): PdfTextItem[] => items.map(item => {
+  const [a, b, c, d, x, y] = item.transform || [1, 0, 0, 1, 0, 0];
+  return {
+    text: typeof item.str === 'string' ? item.str : '',
+    x,
+    y,
+    width: item.width || 0,
+    size: Math.hypot(c, d) || item.height,
+    angle: Math.atan2(b, a),
+    hasEOL: !!item.hasEOL,
+  };
+});
+
+const removeLastChar = (paragraph: PdfPageText) => {
+  paragraph.text = paragraph.text.slice(0, -1);
+  paragraph.origins.pop();
+};
+
+// Joins a line onto the paragraph so far, mending words hyphenated across the line break
+const appendLine = (paragraph: PdfPageText, line: LayoutLine) => {
+  if (paragraph.text) {
+    if (/\p{L}[-\u00ad\u2010]$/u.test(paragraph.text) && /^\p{Ll}/u.test(line.text)) {
+      removeLastChar(paragraph);
+    } else {
+      if (paragraph.text.endsWith('\u00ad')) removeLastChar(paragraph);
+      paragraph.text += ' ';
+      paragraph.origins.push(-1);
+    }
+  }
+  paragraph.text += line.text;
+  appendOrigins(paragraph.origins, line.origins);
+};
+
+// The text of one page, with paragraphs separated by blank lines, and where each character came
+// from. Neighbouring pages' layouts (where known) are used to recognise running headers and footers.
+export const getPdfPageTextWithOrigins = (layouts: (PdfPageLayout | undefined)[], page: number): PdfPageText => {
+  const layout = layouts[page];
+  if (!layout) return { text: '', origins: [] };
+
+  const running = new Set(
+    layout.edgeLines
+      .filter(({ line, edge }) => isRunningLine(layouts, page, line.text, edge))
+      .map(({ line }) => line)
+  );
+
+  const paragraphs: PdfPageText[] = [];
+  let paragraph: PdfPageText = { text: '', origins: [] };
+  layout.lines.forEach(line => {
+    if (running.has(line)) return;
+    if (line.startsParagraph && paragraph.text) {
+      paragraphs.push(paragraph);
+      paragraph = { text: '', origins: [] };
+    }
+    appendLine(paragraph, line);
+  });
+  if (paragraph.text) paragraphs.push(paragraph);
+
+  const origins: number[] = [];
+  paragraphs.forEach((item, i) => {
+    if (i > 0) origins.push(-1, -1);
+    appendOrigins(origins, item.origins);
+  });
+  return { text: paragraphs.map(item => item.text).join('\n\n'), origins };
+};
+
+export const getPdfPageText = (layouts: (PdfPageLayout | undefined)[], page: number): string =>
+  getPdfPageTextWithOrigins(layouts, page).text;
@@ -0,0 +1,80 @@
+import { Book, ReadingPosition } from '../types';
+
+// Books rendered as HTML pages that reflow with the reader's typography, as opposed to fixed PDF and
+// comic pages. Their progress within a page is measured as it is scrolled.
+export const isReflowable = (book: Book) => book.fileType !== 'pdf' && book.fileType !== 'cbz';
+
+// EPUB pages are the book's own chapters; other reflowable formats may split chapters into several pages
+export const getPageUnit = (book: Book): 'Chapter' | 'Page' => book.fileType === 'epub' ? 'Chapter' : 'Page';
+
+// Fraction (0-1) of the boundary page that has been read
+export const getPageFraction = (book: Book, position: ReadingPosition): number => {
+  const pageText = book.content[position.page] || '';
+  if (position.charOffset === undefined || pageText.length === 0) return 1;
+  return Math.min(position.charOffset / pageText.length, 1);
+};
+
+// Text of every page up to the boundary, with the last page cut at the read offset.
+// The cut is moved back to a word boundary so the AI never sees half a word of what comes next.
+export const getReadPages = (book: Book, position: ReadingPosition): string[] => {
+  const pages = book.content.slice(0, position.page + 1);
+  const last = pages.length - 1;
+  if (last >= 0 && position.charOffset !== undefined && position.charOffset < pages[last].length) {
+    const cut = pages[last].slice(0, position.charOffset);
+    const wordEnd = cut.lastIndexOf(' ');
+    pages[last] = wordEnd > 0 ? cut.slice(0, wordEnd) : cut;
+  }
+  return pages;
+};
+
+// Share of the whole book (0-1) that lies within `position`
+export const getBookProgress = (book: Book, position: ReadingPosition): number => {
+  const pageFraction = position.charOffset === undefined ? 1 : getPageFraction(book, position);
+  return Math.min((position.page + pageFraction) / book.totalPages, 1);
+};
+
+// "Page 12", or for reflowable books the chapter's TOC title when there is one
+export const getPageLabel = (book: Book, page: number): string => {
+  if (isReflowable(book)) {
+    const tocItem = book.toc.find(item => item.page === page);
+    return tocItem ? tocItem.title : `${getPageUnit(book)} ${page + 1}`;
+  }
+  return `Page ${page + 1}`;
+};
+
+export const formatReadingPosition = (book: Book, position: ReadingPosition): string => {
+  if (isReflowable(book)) {
+    const percent = Math.round(getPageFraction(book, position) * 100);
+    return percent < 100
+      ? `${getPageUnit(book)} ${position.page + 1}, ${percent}%`
+      : `${getPageUnit(book)} ${position.page + 1}`;
+  }
+  return `Page ${position.page + 1}`;
+};
+
+// --- Read boundary (high-water mark) ---
+
+// Where a freshly opened book starts: nothing read yet
+export const INITIAL_BOUNDARY: ReadingPosition = { page: 0, charOffset: 0 };
+
+// A page counts as read once it has been on screen this long. Scales with the amount of text
+// so flicking through pages doesn't count, while image-only pages don't hold the reader up.
+export const getRequiredDwellMs = (book: Book, page: number): number => {
+  const words = (book.content[page] || '').split(' ').filter(Boolean).length;
+  return Math.min(Math.max(words * 40, 800), 6000);
+};
+
+// Pages more than one step beyond the boundary can only be reached by jumping, not by reading.
+// A step is one page, or a whole spread when pages are shown in pairs.
+export const isPeek = (boundary: ReadingPosition, page: number, pagesPerView = 1): boolean =>
+  page > boundary.page + pagesPerView;
+
+// Moves the boundary forward to `position` if it is further along. Never moves it back.
+export const extendBoundary = (boundary: ReadingPosition, position: ReadingPosition): ReadingPosition => {
+  if (position.page < boundary.page) return boundary;
+  if (position.page === boundary.page) {
+    if (boundary.charOffset === undefined) return boundary;
+    if (position.charOffset !== undefined && position.charOffset <= boundary.charOffset) return boundary;
+  }
+  return position;
+};
@@ -0,0 +1,327 @@
+import { Book, LlmSettings, ReadingPosition, RecapSummary } from '../types';
+import { completeChat } from './llmProviders';
+import { getReadPages, getPageUnit } from './readingPosition';
+import { listRecaps, saveRecap } from './libraryStore';
+import { removeSpoilers } from './spoilerGuard';
+
+// "Story so far" recaps, built up as the reader goes instead of re-sending the whole book each time.
+// Each finished section (an EPUB chapter, or a run of pages) is summarised once, every few section
+// summaries are summarised again into a part, and a recap of the whole book so far is written from
+// the parts, the sections since, and the text of the section still being read. Everything is kept
+// in the library, and only ever written from pages within the read boundary.
+
+export interface RecapSection {
+  first: number; // 0-based pages
+  last: number;
+}
+
+export interface RecapProgress {
+  done: number;
+  total: number;
+  label: string; // What is being summarised, e.g. "Pages 11–20"
+}
+
+interface RecapOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: RecapProgress) => void;
+  onSummary?: (summary: RecapSummary) => void; // Each summary as it is saved
+}
+
+const RECAP_SECTION_PAGES = 10; // Pages per section for books without chapters as pages
+const RECAP_FAN_IN = 8; // Section summaries per part summary
+// Text sent to the model at once; longer sections are summarised in pieces first
+const MAX_SUMMARY_INPUT_CHARS = 60000;
+// The part of the current section read so far, sent as text with the whole-book recap
+const MAX_TAIL_CHARS = 20000;
+// Summaries given to the assistant as context, most recent kept when there are more
+const MAX_CONTEXT_CHARS = 12000;
+
+const BOOK_RECAP_KEY = 'book';
+const AUTO_RECAP_SETTING_KEY = 'auto_recaps';
+// A book reopened after this long away starts with a "previously on…" recap
+const RECAP_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const isAutoRecapEnabled = () => localStorage.getItem(AUTO_RECAP_SETTING_KEY) !== 'false';
+
+export const setAutoRecapEnabled = (enabled: boolean) => {
+  localStorage.setItem(AUTO_RECAP_SETTING_KEY, String(enabled));
+};
+
+export const shouldOfferRecap = (previousOpenedAt: number | undefined, boundary: ReadingPosition) =>
+  previousOpenedAt !== undefined &&
+  Date.now() - previousOpenedAt >= RECAP_AFTER_MS &&
+  (boundary.page > 0 || boundary.charOffset !== 0);
+
+// EPUB pages are chapters already; other books are summarised a few pages at a time
+export const getRecapSections = (book: Book): RecapSection[] => {
+  const size = book.fileType === 'epub' ? 1 : RECAP_SECTION_PAGES;
+  const sections: RecapSection[] = [];
+  for (let first = 0; first < book.totalPages; first += size) {
+    sections.push({ first, last: Math.min(first + size, book.totalPages) - 1 });
+  }
+  return sections;
+};
+
+const sectionKey = (section: RecapSection) => `section:${section.first}-${section.last}`;
+const partKey = (part: RecapSection) => `part:${part.first}-${part.last}`;
+
+// A section counts once its last page has been read to the end
+const isSectionRead = (section: RecapSection, boundary: ReadingPosition) =>
+  section.last < boundary.page || (section.last === boundary.page && boundary.charOffset === undefined);
+
+export const formatSectionLabel = (book: Book, section: RecapSection) => {
+  const unit = getPageUnit(book);
+  if (section.first === section.last) return `${unit} ${section.first + 1}`;
+  return `${unit}s ${section.first + 1}–${section.last + 1}`;
+};
+
+const getBookLabel = (book: Book) =>
+  book.metadata.author ? `"${book.title}" by ${book.metadata.author}` : `"${book.title}"`;
+
+const SUMMARY_RULES = `
+    Summarise ONLY the text you are given. Do NOT use outside knowledge of the book, and never hint at what happens later.
+    Name the characters involved, and keep the important events, revelations and changes in relationships, in order.
+    Write plain prose in the past tense, without a heading or preamble.`;
+
+// Runs one request to the model and returns the whole answer
+const complete = async (
+  settings: LlmSettings,
+  systemInstruction: string,
+  content: string,
+  signal?: AbortSignal,
+  onChunk?: (text: string) => void
+): Promise<string> => {
+  const text = await completeChat({ systemInstruction, turns: [{ role: 'user', content }], signal }, settings, onChunk);
+  if (!text.trim()) throw new Error('The model returned an empty summary');
+  return text.trim();
+};
+
+// Splits text at paragraph breaks (or anywhere, for a paragraph that is too long) into pieces the model can take
+const splitText = (text: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let piece = '';
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    if (piece && piece.length + paragraph.length + 2 > maxChars) {
+      pieces.push(piece);
+      piece = '';
+    }
+    for (let i = 0; i < paragraph.length; i += maxChars) {
+      const part = paragraph.slice(i, i + maxChars);
+      if (piece && piece.length + part.length + 2 > maxChars) {
+        pieces.push(piece);
+        piece = '';
+      }
+      piece = piece ? `${piece}\n\n${part}` : part;
+    }
+  });
+  if (piece) pieces.push(piece);
+  return pieces;
+};
+
+const summarizeText = async (book: Book, label: string, text: string, settings: LlmSettings, signal?: AbortSignal) => {
+  const systemInstruction = `
+    You summarise part of ${getBookLabel(book)} for a reader who has just read it, in 100 to 200 words.
+    ${SUMMARY_RULES}`;
+  const pieces = splitText(text, MAX_SUMMARY_INPUT_CHARS);
+  if (pieces.length === 1) return complete(settings, systemInstruction, `${label}:\n"""\n${text}\n"""`, signal);
+
+  // A section too long to send at once is summarised piece by piece, and the pieces combined
+  const pieceSummaries: string[] = [];
+  for (let i = 0; i < pieces.length; i++) {
+    pieceSummaries.push(await complete(settings, systemInstruction, `${label}, part ${i + 1} of ${pieces.length}:\n"""\n${pieces[i]}\n"""`, signal));
+  }
+  return combineSummaries(book, label, pieceSummaries, settings, signal);
+};
+
+const combineSummaries = (book: Book, label: string, summaries: string[], settings: LlmSettings, signal?: AbortSignal) => {
+  const systemInstruction = `
+    You combine consecutive summaries of ${getBookLabel(book)} into one summary of ${label}, in 150 to 300 words.
+    ${SUMMARY_RULES}`;
+  return complete(settings, systemInstruction, summaries.map((summary, i) => `${i + 1}. ${summary}`).join('\n\n'), signal);
+};
+
+// Updates for the same book run one after another, so the panel and the background don't both
+// summarise the same section
+const bookQueues = new Map<string, Promise<unknown>>();
+
+const enqueue = <T>(bookId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = bookQueues.get(bookId) || Promise.resolve();
+  const run = previous.catch(() => {}).then(task);
+  bookQueues.set(bookId, run);
+  run.catch(() => {}).finally(() => {
+    if (bookQueues.get(bookId) === run) bookQueues.delete(bookId);
+  });
+  return run;
+};
+
+// Summarises every section read since the last update, and every part whose sections are all
+// summarised. Returns all summaries kept for the book.
+export const updateRecapSummaries = (
+  book: Book,
+  boundary: ReadingPosition,
+  settings: LlmSettings,
+  options: RecapOptions = {}
+): Promise<RecapSummary[]> => enqueue(book.id, async () => {
+  const { signal, onProgress, onSummary } = options;
+  const stored = new Map((await listRecaps(book.id)).map(summary => [summary.key, summary]));
+  const sections = getRecapSections(book).filter(section => isSectionRead(section, boundary));
+  // Pages without text (comics, scans not recognised yet) have nothing to summarise
+  const hasText = (section: RecapSection) => book.content.slice(section.first, section.last + 1).some(text => text.trim());
+
+  const parts: RecapSection[][] = [];
+  for (let i = 0; i + RECAP_FAN_IN <= sections.length; i += RECAP_FAN_IN) parts.push(sections.slice(i, i + RECAP_FAN_IN));
+
+  const missingSections = sections.filter(section => !stored.has(sectionKey(section)) && hasText(section));
+  const missingParts = parts.filter(part => !stored.has(partKey({ first: part[0].first, last: part[part.length - 1].last })));
+  const total = missingSections.length + missingParts.length;
+  let done = 0;
+
+  const keep = async (summary: RecapSummary) => {
+    await saveRecap(summary);
+    stored.set(summary.key, summary);
+    onSummary?.(summary);
+  };
+
+  for (const section of missingSections) {
+    signal?.throwIfAborted();
+    const label = formatSectionLabel(book, section);
+    onProgress?.({ done, total, label });
+    const text = book.content.slice(section.first, section.last + 1).join('\n\n');
+    const summary = await summarizeText(book, label, text, settings, signal);
+    await keep({
+      bookId: book.id,
+      key: sectionKey(section),
+      ...section,
+      // Anything the model added from memory that names people or things not yet met by the end of
+      // the section is dropped. The summary is kept and reused, so it is checked against the section
+      // rather than against how far the reader happens to be.
+      text: removeSpoilers(summary, book, { page: section.last }),
+      createdAt: Date.now(),
+    });
+    done++;
+  }
+
+  for (const part of missingParts) {
+    signal?.throwIfAborted();
+    const range = { first: part[0].first, last: part[part.length - 1].last };
+    const summaries = part.map(section => stored.get(sectionKey(section))?.text).filter((text): text is string => !!text);
+    if (summaries.length === 0) continue;
+    const label = formatSectionLabel(book, range);
+    onProgress?.({ done, total, label });
+    const summary = await combineSummaries(book, label, summaries, settings, signal);
+    await keep({
+      bookId: book.id,
+      key: partKey(range),
+      ...range,
+      text: removeSpoilers(summary, book, { page: range.last }),
+      createdAt: Date.now(),
+    });
+    done++;
+  }
+
+  return Array.from(stored.values());
+});
+
+// The summaries that together cover the finished sections read so far, oldest first: whole parts
+// where there are any, then the sections after them
+const getCoveringSummaries = (book: Book, boundary: ReadingPosition, summaries: RecapSummary[]) => {
+  const byKey = new Map(summaries.map(summary => [summary.key, summary]));
+  const sections = getRecapSections(book).filter(section => isSectionRead(section, boundary));
+  const covering: RecapSummary[] = [];
+  let i = 0;
+  while (i < sections.length) {
+    const part = sections.slice(i, i + RECAP_FAN_IN);
+    const partSummary = part.length === RECAP_FAN_IN
+      ? byKey.get(partKey({ first: part[0].first, last: part[part.length - 1].last }))
+      : undefined;
+    if (partSummary) {
+      covering.push(partSummary);
+      i += RECAP_FAN_IN;
+      continue;
+    }
+    const sectionSummary = byKey.get(sectionKey(sections[i]));
+    if (sectionSummary) covering.push(sectionSummary);
+    i++;
+  }
+  return covering;
+};
+
+const isSameBoundary = (a?: ReadingPosition, b?: ReadingPosition) =>
+  !!a && !!b && a.page === b.page && a.charOffset === b.charOffset;
+
+// The whole-book recap last written, if the reader hasn't moved on since
+export const getCachedBookRecap = async (book: Book, boundary: ReadingPosition): Promise<RecapSummary | null> => {
+  const recap = (await listRecaps(book.id)).find(summary => summary.key === BOOK_RECAP_KEY);
+  return recap && isSameBoundary(recap.boundary, boundary) ? recap : null;
+};
+
+// Writes the recap of the whole book so far, streaming it to `onChunk`. Sections not summarised
+// yet are summarised first. The result is kept until the boundary moves, unless `refresh` is set.
+export const composeBookRecap = async (
+  book: Book,
+  boundary: ReadingPosition,
+  settings: LlmSettings,
+  options: RecapOptions & { onChunk?: (text: string) => void; refresh?: boolean } = {}
+): Promise<string> => {
+  if (!options.refresh) {
+    const cached = await getCachedBookRecap(book, boundary);
+    if (cached) {
+      options.onChunk?.(cached.text);
+      return cached.text;
+    }
+  }
+
+  const summaries = await updateRecapSummaries(book, boundary, settings, options);
+  const covering = getCoveringSummaries(book, boundary, summaries);
+
+  // The section being read is given as text, up to where the reader stopped
+  const coveredUpTo = covering.length > 0 ? covering[covering.length - 1].last + 1 : 0;
+  const readPages = getReadPages(book, boundary);
+  const tailText = readPages.slice(coveredUpTo).join('\n\n').trim().slice(-MAX_TAIL_CHARS);
+  if (covering.length === 0 && !tailText) return '';
+
+  const sections = covering.map(summary => `[${formatSectionLabel(book, summary)}]\n${summary.text}`);
+  if (tailText) {
+    sections.push(`[${formatSectionLabel(book, { first: coveredUpTo, last: boundary.page })}, as far as the reader has got, in full]\n"""\n${tailText}\n"""`);
+  }
+
+  const systemInstruction = `
+    You write a "story so far" recap of ${getBookLabel(book)} for a reader coming back to it, from summaries of what they have read and the text of the part they are in the middle of.
+    Write 200 to 400 words of flowing prose, with the main characters in bold the first time they appear. End with where things stand at the point the reader stopped.
+    ${SUMMARY_RULES}`;
+  options.onProgress?.({ done: 0, total: 0, label: 'The story so far' });
+  const recap = removeSpoilers(
+    await complete(settings, systemInstruction, sections.join('\n\n'), options.signal,
+      text => options.onChunk?.(removeSpoilers(text, book, boundary))),
+    book,
+    boundary
+  );
+  options.onChunk?.(recap);
+
+  saveRecap({
+    bookId: book.id,
+    key: BOOK_RECAP_KEY,
+    first: 0,
+    last: boundary.page,
+    text: recap,
+    boundary,
+    createdAt: Date.now(),
+  }).catch(e => console.warn("Could not keep the recap", e));
+  return recap;
+};
+
+// Summaries of what has been read, as compact context for the assistant when it is only shown
+// excerpts of a long book. Empty until some sections have been summarised.
+export const getRecapContext = async (book: Book, boundary: ReadingPosition): Promise<string> => {
+  if (book.fileType === 'cbz') return '';
+  const covering = getCoveringSummaries(book, boundary, await listRecaps(book.id));
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = covering.length - 1; i >= 0; i--) {
+    const line = `[Summary of ${formatSectionLabel(book, covering[i])}]: ${covering[i].text}`;
+    if (length + line.length > MAX_CONTEXT_CHARS) break;
+    lines.unshift(line);
+    length += line.length;
+  }
+  return lines.join('\n\n');
+};
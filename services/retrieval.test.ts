@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '../types';
+import { buildReadingContext, tokenize } from './retrieval';
+
+const createBook = (content: string[]): Book => ({
+  id: 'book',
+  title: 'Book',
+  fileType: 'epub',
+  content,
+  renderData: content,
+  totalPages: content.length,
+  fileName: 'book.epub',
+  toc: [],
+  metadata: {},
+});
+
+// A chapter of numbered words, so where a cut falls can be checked
+const createChapter = (chapter: number, words: number) =>
+  Array.from({ length: words }, (_, i) => `c${chapter}w${i}`).join(' ');
+
+describe('buildReadingContext', () => {
+  it('keeps the recent window to the text nearest the boundary', () => {
+    const book = createBook([createChapter(1, 20000), createChapter(2, 20000), createChapter(3, 20000)]);
+    const context = buildReadingContext(book, { page: 2 }, 'anything');
+
+    expect(context.isComplete).toBe(false);
+    expect(context.recentPages).toEqual([2]);
+    expect(context.text.length).toBeLessThan(20000);
+    expect(context.text).toContain('c3w19999');
+    expect(context.text).not.toContain('c3w0 ');
+    // The cut falls between words
+    expect(context.text).toMatch(/\[Page 3\]: …c3w\d+ /);
+  });
+
+  it('sends short recent pages whole', () => {
+    const book = createBook([createChapter(1, 20000), createChapter(2, 100), createChapter(3, 100)]);
+    const context = buildReadingContext(book, { page: 2 }, 'anything');
+
+    expect(context.recentPages).toEqual([0, 1, 2]);
+    expect(context.text).toContain(`[Page 2]: ${createChapter(2, 100)}`);
+    expect(context.text).toContain(`[Page 3]: ${createChapter(3, 100)}`);
+  });
+});
+
+describe('tokenize', () => {
+  it('counts possessives as the word itself', () => {
+    expect(tokenize("Harry's wand and Hermione’s cat")).toEqual(['harry', 'wand', 'hermione', 'cat']);
+  });
+
+  it('keeps other apostrophes within a word', () => {
+    expect(tokenize("At six o'clock d’Artagnan left")).toEqual(['six', "o'clock", "d'artagnan", 'left']);
+  });
+});
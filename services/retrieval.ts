@@ -0,0 +1,220 @@
+import { Book, ReadingPosition } from '../types';
+import { getReadPages } from './readingPosition';
+
+// Local BM25 retrieval over book chunks. Everything runs in the browser; nothing is sent anywhere to build the index.
+
+export interface TextChunk {
+  page: number; // 0-based page index
+  start: number; // Character offsets into Book.content[page]
+  end: number;
+  text: string;
+}
+
+export interface RetrievalIndex {
+  chunks: TextChunk[];
+  chunkLengths: number[]; // Token count per chunk
+  postings: Map<string, Map<number, number>>; // term -> chunk id -> term frequency
+  totalLength: number;
+}
+
+export interface ReadingContext {
+  text: string; // Labelled excerpts for the prompt
+  retrievedPages: number[]; // 0-based pages found by retrieval
+  recentPages: number[]; // 0-based pages the recent window is taken from (the first may be cut short)
+  isComplete: boolean; // Everything read is in the text, rather than excerpts of it
+}
+
+const CHUNK_WORDS = 120;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Books whose read text fits in this budget are sent whole; retrieval only kicks in beyond it
+const FULL_CONTEXT_CHARS = 60000;
+const RECENT_WINDOW_PAGES = 3;
+// A single page can be a whole EPUB chapter, so the window is capped by length as well
+const RECENT_WINDOW_CHARS = 12000;
+const MAX_RETRIEVED_CHUNKS = 10;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'his', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'she', 'so', 'that',
+  'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your', 'how', 'about', 'again', 'been',
+]);
+
+// Apostrophes within a word are kept ("o'clock", "d'Artagnan"), except that possessives count as
+// the word itself, so "Harry's" finds "Harry"
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu) || [])
+    .map(token => token.replace(/’/g, "'").replace(/'s$/, ''))
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+export const createRetrievalIndex = (): RetrievalIndex => ({
+  chunks: [],
+  chunkLengths: [],
+  postings: new Map(),
+  totalLength: 0,
+});
+
+// Splits a page into ~CHUNK_WORDS word chunks and adds them to the index. Call in page order.
+export const indexPage = (index: RetrievalIndex, page: number, text: string) => {
+  const words = Array.from(text.matchAll(/\S+/g));
+  for (let i = 0; i < words.length; i += CHUNK_WORDS) {
+    const first = words[i];
+    const last = words[Math.min(i + CHUNK_WORDS, words.length) - 1];
+    const start = first.index!;
+    const end = last.index! + last[0].length;
+    const chunk: TextChunk = { page, start, end, text: text.slice(start, end) };
+
+    const id = index.chunks.length;
+    const tokens = tokenize(chunk.text);
+    index.chunks.push(chunk);
+    index.chunkLengths.push(tokens.length);
+    index.totalLength += tokens.length;
+
+    tokens.forEach(token => {
+      let posting = index.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        index.postings.set(token, posting);
+      }
+      posting.set(id, (posting.get(id) || 0) + 1);
+    });
+  }
+};
+
+// Indexes are built while parsing and looked up per book. Books that arrive without one
+// (e.g. restored from storage) are indexed on first use.
+const bookIndexes = new WeakMap<Book, RetrievalIndex>();
+
+export const registerBookIndex = (book: Book, index: RetrievalIndex) => {
+  bookIndexes.set(book, index);
+};
+
+export const getBookIndex = (book: Book): RetrievalIndex => {
+  let index = bookIndexes.get(book);
+  if (!index) {
+    index = createRetrievalIndex();
+    book.content.forEach((text, page) => indexPage(index!, page, text));
+    bookIndexes.set(book, index);
+  }
+  return index;
+};
+
+// Chunks are only eligible when they lie entirely within the read boundary
+const isChunkRead = (chunk: TextChunk, boundary: ReadingPosition) =>
+  chunk.page < boundary.page
+  || (chunk.page === boundary.page && (boundary.charOffset === undefined || chunk.end <= boundary.charOffset));
+
+// How many read and unread chunks a (tokenized) term occurs in
+export const getTermPresence = (
+  index: RetrievalIndex,
+  term: string,
+  boundary: ReadingPosition
+): { read: number; unread: number } => {
+  const presence = { read: 0, unread: 0 };
+  index.postings.get(term)?.forEach((_, id) => {
+    if (isChunkRead(index.chunks[id], boundary)) presence.read++;
+    else presence.unread++;
+  });
+  return presence;
+};
+
+export const searchChunks = (
+  index: RetrievalIndex,
+  query: string,
+  boundary: ReadingPosition,
+  options: { limit: number; excludePages?: Set<number> }
+): TextChunk[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || index.chunks.length === 0) return [];
+
+  const chunkCount = index.chunks.length;
+  const averageLength = index.totalLength / chunkCount || 1;
+  const scores = new Map<number, number>();
+
+  terms.forEach(term => {
+    const posting = index.postings.get(term);
+    if (!posting) return;
+    const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+    posting.forEach((tf, id) => {
+      const chunk = index.chunks[id];
+      if (!isChunkRead(chunk, boundary) || options.excludePages?.has(chunk.page)) return;
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (index.chunkLengths[id] / averageLength));
+      scores.set(id, (scores.get(id) || 0) + idf * (tf * (BM25_K1 + 1)) / norm);
+    });
+  });
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, options.limit)
+    .map(([id]) => index.chunks[id]);
+};
+
+interface RecentPage {
+  page: number;
+  text: string;
+  isWhole: boolean;
+}
+
+// The read text just before the boundary: the last few pages, as long as they fit in
+// RECENT_WINDOW_CHARS. A page that doesn't fit keeps only its end, from a word break.
+const getRecentWindow = (pagesRead: string[]): RecentPage[] => {
+  const window: RecentPage[] = [];
+  let room = RECENT_WINDOW_CHARS;
+  for (let page = pagesRead.length - 1; page >= 0 && window.length < RECENT_WINDOW_PAGES && room > 0; page--) {
+    const text = pagesRead[page];
+    if (text.length <= room) {
+      window.unshift({ page, text, isWhole: true });
+      room -= text.length;
+      continue;
+    }
+    let start = text.length - room;
+    const wordBreak = text.slice(start).search(/\s/);
+    if (wordBreak !== -1) start += wordBreak + 1;
+    window.unshift({ page, text: text.slice(start), isWhole: false });
+    break;
+  }
+  return window;
+};
+
+// Picks what the assistant gets to see for a question: everything read if it is small enough,
+// otherwise the most relevant read chunks plus the last few pages before the boundary.
+export const buildReadingContext = (book: Book, boundary: ReadingPosition, query: string): ReadingContext => {
+  const pagesRead = getReadPages(book, boundary);
+  const label = (page: number, text: string) => `[Page ${page + 1}]: ${text}`;
+
+  const totalChars = pagesRead.reduce((sum, text) => sum + text.length, 0);
+  if (totalChars <= FULL_CONTEXT_CHARS) {
+    return {
+      text: pagesRead.map((text, page) => label(page, text)).join("\n\n"),
+      retrievedPages: [],
+      recentPages: pagesRead.map((_, page) => page),
+      isComplete: true,
+    };
+  }
+
+  const recentWindow = getRecentWindow(pagesRead);
+  const recentPages = recentWindow.map(recent => recent.page);
+
+  // The part of a page left out of the window can still be retrieved from
+  const retrieved = searchChunks(getBookIndex(book), query, boundary, {
+    limit: MAX_RETRIEVED_CHUNKS,
+    excludePages: new Set(recentWindow.filter(recent => recent.isWhole).map(recent => recent.page)),
+  }).sort((a, b) => a.page - b.page || a.start - b.start);
+  const retrievedPages = Array.from(new Set(retrieved.map(chunk => chunk.page)));
+
+  const sections: string[] = [];
+  if (retrieved.length > 0) {
+    sections.push(
+      `Excerpts retrieved from earlier pages (${retrievedPages.map(page => page + 1).join(', ')}):\n\n` +
+      retrieved.map(chunk => label(chunk.page, `…${chunk.text}…`)).join("\n\n")
+    );
+  }
+  sections.push(
+    `The text just before where the reader has got to:\n\n` +
+    recentWindow.map(recent => label(recent.page, recent.isWhole ? recent.text : `…${recent.text}`)).join("\n\n")
+  );
+
+  return { text: sections.join("\n\n---\n\n"), retrievedPages, recentPages, isComplete: false };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '../types';
+import { hideSpoilers, removeSpoilers, stripSpoilerLinks } from './spoilerGuard';
+
+const createBook = (content: string[]): Book => ({
+  id: 'book',
+  title: 'Book',
+  fileType: 'epub',
+  content,
+  renderData: content,
+  totalPages: content.length,
+  fileName: 'book.epub',
+  toc: [],
+  metadata: {},
+});
+
+const book = createBook([
+  'The keeper climbed the stairs at dusk and lit the lamp above the rocks.',
+  'A boat came in with letters from the mainland. Later Tobias rowed out to the wreck.',
+  'Marguerite drowned in the winter storm before the relief boat came.',
+]);
+const boundary = { page: 1 };
+
+const hide = (answer: string, question = 'What happens next?', position = boundary) =>
+  hideSpoilers(answer, book, position, question);
+
+describe('hideSpoilers', () => {
+  it('hides sentences naming someone found only in unread pages', () => {
+    expect(hide('The keeper lit the lamp. Marguerite is his sister.')).toEqual({
+      text: 'The keeper lit the lamp. [possible spoiler](#spoiler-0)',
+      spoilers: ['Marguerite is his sister.'],
+    });
+  });
+
+  it('hides sentences made up of words found only in unread pages', () => {
+    expect(hide('Someone drowned in a winter storm.').spoilers).toEqual(['Someone drowned in a winter storm.']);
+  });
+
+  it('keeps sentences about what has been read', () => {
+    const answer = 'A boat brought letters from the mainland, and the keeper lit the lamp.';
+    expect(hide(answer)).toEqual({ text: answer, spoilers: [] });
+  });
+
+  it('keeps names the reader asked about', () => {
+    expect(hide('Marguerite has not come up yet.', 'Who is Marguerite?').spoilers).toEqual([]);
+  });
+
+  it('treats the unread part of the boundary page as unread', () => {
+    const position = { page: 1, charOffset: book.content[1].indexOf('Later') };
+    expect(hide('Tobias rows out.', undefined, position).spoilers).toEqual(['Tobias rows out.']);
+    expect(hide('Tobias rows out.').spoilers).toEqual([]);
+  });
+
+  it('keeps list markers outside a hidden sentence', () => {
+    expect(hide('- The keeper waits.\n- Marguerite drowns.').text)
+      .toBe('- The keeper waits.\n- [possible spoiler](#spoiler-0)');
+  });
+
+  it('hides a sentence still being streamed', () => {
+    expect(hide('The keeper waits. Then Marguerite').text).toBe('The keeper waits. [possible spoiler](#spoiler-0)');
+  });
+
+  it('cannot judge a word still being streamed, which is why answers hold it back', () => {
+    expect(hide('The keeper waits. Then Margu').spoilers).toEqual([]);
+  });
+});
+
+describe('removeSpoilers', () => {
+  it('drops possible spoilers from kept text', () => {
+    expect(removeSpoilers('The keeper lit the lamp. Marguerite drowned.', book, boundary)).toBe('The keeper lit the lamp.');
+  });
+});
+
+describe('stripSpoilerLinks', () => {
+  it('removes hidden sentences from earlier answers', () => {
+    expect(stripSpoilerLinks(hide('Marguerite is his sister. The keeper lit the lamp.').text)).toBe('The keeper lit the lamp.');
+  });
+});
@@ -0,0 +1,92 @@
+import { Book, ReadingPosition } from '../types';
+import { getReadPages } from './readingPosition';
+import { getBookIndex, getTermPresence, tokenize } from './retrieval';
+
+// Checks answers against the book itself. The system instruction asks the model not to use what it
+// knows about the book, but a model that has read a famous novel may still give its ending away.
+// Every sentence of an answer is checked against the text on both sides of the read boundary, and
+// sentences that name people or things found only in unread pages are hidden until the reader
+// chooses to see them. It is a heuristic: it can't catch a spoiler told in words from pages already
+// read, and it may hide a sentence that is harmless.
+
+export const SPOILER_LINK_PREFIX = '#spoiler-';
+
+// A sentence is also hidden when this many of its words occur only in unread pages, and they make
+// up at least this share of its words found in the book
+const MIN_UNREAD_TERMS = 2;
+const MIN_UNREAD_SHARE = 0.3;
+
+// List markers, headings and quote marks at the start of a Markdown line stay outside a hidden sentence
+const LINE_PREFIX_PATTERN = /^\s*(?:[-*+]|\d+[.)]|#{1,6}|>)\s+/;
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["'”’)\]*_]*|$)\s*/g;
+const LINK_PATTERN = /\[([^\]]*)\]\(([^)]*)\)/g;
+// Capitalised words: names of people, places and things. A capitalised word that starts a sentence
+// is checked too; ordinary words are hardly ever found only in unread pages.
+const NAME_PATTERN = /\p{Lu}[\p{L}'’-]*/gu;
+
+type TermCheck = (term: string) => boolean;
+
+// Whether a term only occurs in pages not read yet. Terms the reader used in their question don't count.
+const createUnreadTermCheck = (book: Book, boundary: ReadingPosition, question: string): TermCheck => {
+  const index = getBookIndex(book);
+  // The part of the boundary page read so far shares its chunks with the unread rest, so it is checked on its own
+  const readPages = getReadPages(book, boundary);
+  const boundaryTerms = new Set(tokenize(readPages[readPages.length - 1] || ''));
+  const questionTerms = new Set(tokenize(question));
+  const results = new Map<string, boolean>();
+  return term => {
+    let result = results.get(term);
+    if (result === undefined) {
+      const presence = getTermPresence(index, term, boundary);
+      result = presence.unread > 0 && presence.read === 0 && !boundaryTerms.has(term) && !questionTerms.has(term);
+      results.set(term, result);
+    }
+    return result;
+  };
+};
+
+const isPossibleSpoiler = (sentence: string, isUnreadOnly: TermCheck, isInBook: (term: string) => boolean) => {
+  // Links within the answer (citations) are labelled with page numbers, not words from the book
+  const text = sentence.replace(LINK_PATTERN, (_, label: string, href: string) => href.startsWith('#') ? '' : label);
+  const names = (text.match(NAME_PATTERN) || []).flatMap(name => tokenize(name));
+  if (names.some(isUnreadOnly)) return true;
+
+  const terms = Array.from(new Set(tokenize(text))).filter(isInBook);
+  const unreadTerms = terms.filter(isUnreadOnly);
+  return unreadTerms.length >= MIN_UNREAD_TERMS && unreadTerms.length >= terms.length * MIN_UNREAD_SHARE;
+};
+
+// Replaces each sentence of the answer that may give away unread pages with a link to it, which the
+// chat shows as a "reveal" control. Returns the answer and the hidden sentences, by link index.
+export const hideSpoilers = (
+  answer: string,
+  book: Book,
+  boundary: ReadingPosition,
+  question: string
+): { text: string; spoilers: string[] } => {
+  const index = getBookIndex(book);
+  const isUnreadOnly = createUnreadTermCheck(book, boundary, question);
+  const isInBook = (term: string) => index.postings.has(term);
+  const spoilers: string[] = [];
+
+  const text = answer.split('\n').map(line => {
+    const prefix = line.match(LINE_PREFIX_PATTERN)?.[0] || '';
+    const body = line.slice(prefix.length).replace(SENTENCE_PATTERN, sentence => {
+      if (!sentence.trim() || !isPossibleSpoiler(sentence, isUnreadOnly, isInBook)) return sentence;
+      const trailing = sentence.match(/\s*$/)![0];
+      spoilers.push(sentence.trim());
+      return `[possible spoiler](${SPOILER_LINK_PREFIX}${spoilers.length - 1})${trailing}`;
+    });
+    return prefix + body;
+  }).join('\n');
+
+  return { text, spoilers };
+};
+
+// Earlier answers go back to the model without the sentences that were hidden
+export const stripSpoilerLinks = (text: string) =>
+  text.replace(new RegExp(`\\[[^\\]]*\\]\\(${SPOILER_LINK_PREFIX}\\d+\\)[ \\t]*`, 'g'), '');
+
+// For text kept rather than shown (summaries, notes on characters): possible spoilers are dropped outright
+export const removeSpoilers = (text: string, book: Book, boundary: ReadingPosition) =>
+  stripSpoilerLinks(hideSpoilers(text, book, boundary, '').text).trim();
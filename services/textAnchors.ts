@@ -0,0 +1,242 @@
+// Maps between rendered page DOM and character offsets into Book.content, so annotations can be
+// stored as plain offsets plus quotes and re-attached to whatever DOM the Reader renders later.
+import { ITEM_ORIGIN_STRIDE, PdfPageText } from './pdfLayout';
+
+export interface TextPosition {
+  node: Text;
+  offset: number;
+  virtual?: boolean; // Separator inserted between nodes (PDF text layer spans); has no DOM character
+}
+
+export interface TextMap {
+  text: string; // Whitespace-normalised text, matching how Book.content is built
+  positions: TextPosition[]; // One per character of `text`
+}
+
+export interface TextAnchor {
+  start: number;
+  end: number;
+  quote: string; // Exact text between start and end
+  prefix: string; // Context before and after, used to re-find the quote if offsets drift
+  suffix: string;
+}
+
+const CONTEXT_CHARS = 32;
+
+// Walks the container's text nodes, collapsing whitespace the same way the parsers do.
+// `separateNodes` inserts a space between text nodes, which matches PDF pages built by joining items with spaces.
+export const buildTextMap = (container: HTMLElement, separateNodes = false): TextMap => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const chars: string[] = [];
+  const positions: TextPosition[] = [];
+  let pendingSpace: TextPosition | null = null;
+  let node: Node | null;
+
+  while ((node = walker.nextNode())) {
+    const textNode = node as Text;
+    const value = textNode.data;
+    if (separateNodes && chars.length > 0 && !pendingSpace) {
+      pendingSpace = { node: textNode, offset: 0, virtual: true };
+    }
+    for (let i = 0; i < value.length; i++) {
+      if (/\s/.test(value[i])) {
+        if (chars.length > 0 && !pendingSpace) pendingSpace = { node: textNode, offset: i };
+        continue;
+      }
+      if (pendingSpace) {
+        chars.push(' ');
+        positions.push(pendingSpace);
+        pendingSpace = null;
+      }
+      chars.push(value[i]);
+      positions.push({ node: textNode, offset: i });
+    }
+  }
+
+  return { text: chars.join(''), positions };
+};
+
+// Maps a PDF text layer (one span per text item, marked with data-item) through the page's rebuilt
+// text, so map.text is Book.content[page] itself: hyphens mended, lines joined into paragraphs and
+// columns in reading order. Spaces and breaks the layout put in are virtual.
+export const buildPdfTextMap = (container: HTMLElement, pageText: PdfPageText): TextMap => {
+  const spans = new Map<number, HTMLElement>();
+  container.querySelectorAll<HTMLElement>('[data-item]').forEach(span => spans.set(Number(span.dataset.item), span));
+
+  // A span's text may be split over several nodes by marks wrapped around part of it
+  const spanNodes = new Map<number, { node: Text; start: number }[]>();
+  const getSpanNodes = (item: number) => {
+    let nodes = spanNodes.get(item);
+    if (!nodes) {
+      nodes = [];
+      const span = spans.get(item);
+      if (span) {
+        const walker = document.createTreeWalker(span, NodeFilter.SHOW_TEXT);
+        let start = 0;
+        let node: Node | null;
+        while ((node = walker.nextNode())) {
+          nodes.push({ node: node as Text, start });
+          start += (node as Text).length;
+        }
+      }
+      spanNodes.set(item, nodes);
+    }
+    return nodes;
+  };
+
+  const locate = (origin: number): TextPosition | null => {
+    if (origin < 0) return null;
+    const offset = origin % ITEM_ORIGIN_STRIDE;
+    const found = getSpanNodes(Math.floor(origin / ITEM_ORIGIN_STRIDE))
+      .find(({ node, start }) => offset >= start && offset < start + node.length);
+    return found ? { node: found.node, offset: offset - found.start } : null;
+  };
+
+  const located = pageText.origins.map(locate);
+  const firstFound = located.find(position => position);
+  // A text layer that doesn't match the layout (it changed, or was built some other way) is read as it is
+  if (!firstFound) return buildTextMap(container, true);
+
+  // Characters with no place on the layer borrow the nearest one before them
+  let previous = firstFound;
+  const positions = located.map(position => {
+    if (position) {
+      previous = position;
+      return position;
+    }
+    return { node: previous.node, offset: previous.offset, virtual: true };
+  });
+  return { text: pageText.text, positions };
+};
+
+// Character offsets (into map.text) covered by a DOM range, or null if the range lies outside the map
+export const rangeToOffsets = (map: TextMap, range: Range): { start: number; end: number } | null => {
+  let start = -1;
+  let end = -1;
+  let lastNode: Text | null = null;
+  let nodeIntersects = false;
+
+  map.positions.forEach((position, i) => {
+    if (position.node !== lastNode) {
+      lastNode = position.node;
+      nodeIntersects = range.intersectsNode(position.node);
+    }
+    if (!nodeIntersects || position.virtual) return;
+    // comparePoint is 0 for points inside the range; the character at `offset` is inside if its start is
+    if (range.comparePoint(position.node, position.offset) === 0
+      && !(position.node === range.endContainer && position.offset >= range.endOffset)) {
+      if (start === -1) start = i;
+      end = i + 1;
+    }
+  });
+
+  return start === -1 ? null : { start, end };
+};
+
+// The characters between two offsets as ranges, one per text node. Unlike a single range these
+// follow the map's order, which on a PDF text layer needn't be the order of the DOM.
+export const offsetsToRanges = (map: TextMap, start: number, end: number): Range[] => {
+  const spans = new Map<Text, { start: number; end: number }>();
+  map.positions.slice(Math.max(start, 0), end).forEach(position => {
+    if (position.virtual) return;
+    const span = spans.get(position.node);
+    if (span) {
+      span.start = Math.min(span.start, position.offset);
+      span.end = Math.max(span.end, position.offset + 1);
+    } else {
+      spans.set(position.node, { start: position.offset, end: position.offset + 1 });
+    }
+  });
+
+  return Array.from(spans, ([node, span]) => {
+    const range = document.createRange();
+    range.setStart(node, span.start);
+    range.setEnd(node, span.end);
+    return range;
+  });
+};
+
+export const createAnchor = (text: string, start: number, end: number): TextAnchor => ({
+  start,
+  end,
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(start - CONTEXT_CHARS, 0), start),
+  suffix: text.slice(end, end + CONTEXT_CHARS),
+});
+
+// Length of the common run between two strings, reading from the end (`fromEnd`) or the start
+const overlap = (a: string, b: string, fromEnd: boolean) => {
+  let count = 0;
+  while (count < a.length && count < b.length) {
+    const ca = fromEnd ? a[a.length - 1 - count] : a[count];
+    const cb = fromEnd ? b[b.length - 1 - count] : b[count];
+    if (ca !== cb) break;
+    count++;
+  }
+  return count;
+};
+
+// Finds where an anchor's quote sits in `text` now. Stored offsets win if they still match;
+// otherwise the occurrence with the best matching context (then closest to the old offset) is used.
+export const resolveAnchor = (text: string, anchor: TextAnchor): { start: number; end: number } | null => {
+  if (!anchor.quote) return null;
+  if (text.slice(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  let best: { start: number; score: number } | null = null;
+  let index = text.indexOf(anchor.quote);
+  while (index !== -1) {
+    const contextScore = overlap(text.slice(Math.max(index - CONTEXT_CHARS, 0), index), anchor.prefix, true)
+      + overlap(text.slice(index + anchor.quote.length), anchor.suffix, false);
+    const score = contextScore * 1000 - Math.abs(index - anchor.start);
+    if (!best || score > best.score) best = { start: index, score };
+    index = text.indexOf(anchor.quote, index + 1);
+  }
+
+  return best ? { start: best.start, end: best.start + anchor.quote.length } : null;
+};
+
+// Wraps every text node segment inside `range` in an element from `createWrapper`.
+// Returns the wrappers in document order.
+export const wrapRange = (range: Range, createWrapper: () => HTMLElement): HTMLElement[] => {
+  const root = range.commonAncestorContainer;
+  const textNodes: Text[] = [];
+  if (root.nodeType === Node.TEXT_NODE) {
+    textNodes.push(root as Text);
+  } else {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      if (range.intersectsNode(node)) textNodes.push(node as Text);
+    }
+  }
+
+  const wrappers: HTMLElement[] = [];
+  textNodes.forEach(textNode => {
+    const startOffset = textNode === range.startContainer ? range.startOffset : 0;
+    const endOffset = textNode === range.endContainer ? range.endOffset : textNode.length;
+    if (startOffset >= endOffset || !textNode.data.slice(startOffset, endOffset).trim()) return;
+
+    let target = textNode;
+    if (startOffset > 0) target = target.splitText(startOffset);
+    if (endOffset - startOffset < target.length) target.splitText(endOffset - startOffset);
+
+    const wrapper = createWrapper();
+    target.parentNode?.insertBefore(wrapper, target);
+    wrapper.appendChild(target);
+    wrappers.push(wrapper);
+  });
+  return wrappers;
+};
+
+// Removes wrappers added by wrapRange, restoring the original text nodes
+export const unwrapAll = (container: HTMLElement, selector: string) => {
+  container.querySelectorAll(selector).forEach(wrapper => {
+    const parent = wrapper.parentNode;
+    if (!parent) return;
+    while (wrapper.firstChild) parent.insertBefore(wrapper.firstChild, wrapper);
+    parent.removeChild(wrapper);
+  });
+  container.normalize();
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToDocument, markdownToDocument, splitIntoPages } from './textFormats';
+import { sanitizeChapter } from './htmlSanitizer';
+import { parseInternalHref } from './epubContent';
+
+// Two chapters, the second with a note the first links to
+const createBook = (links: string) => {
+  const { body } = htmlToDocument(`
+    <h1>One</h1><p>It began in the rain. ${links}</p>
+    <h1>Two</h1><p>It ended in the sun.</p><p id="note-1">A note on the weather.</p>
+  `);
+  sanitizeChapter(body);
+  return splitIntoPages(body, 'book.html');
+};
+
+const getLinks = (page: HTMLElement) =>
+  Array.from(page.querySelectorAll('a')).map(link => link.getAttribute('href'));
+
+describe('splitIntoPages', () => {
+  it('cuts chapters at headings', () => {
+    const { pages, toc } = createBook('');
+    expect(pages).toHaveLength(2);
+    expect(toc.map(item => [item.title, item.page])).toEqual([['One', 0], ['Two', 1]]);
+  });
+
+  it('points links into the document at the page they lead to', () => {
+    const { pages } = createBook('<a href="#note-1">1</a> <a href="book.html#note-1">2</a>');
+    const links = getLinks(pages[0]);
+    expect(links).toHaveLength(2);
+    links.forEach(href => expect(parseInternalHref(href!, 0)).toEqual({ page: 1, anchor: 'note-1' }));
+  });
+
+  it('drops relative links to other files, so they cannot navigate the app away', () => {
+    const { pages } = createBook('<a href="chapter2.html">next</a> <a href="notes.md#note-1">note</a>');
+    expect(getLinks(pages[0])).toEqual([null, null]);
+    expect(pages[0].textContent).toContain('next');
+  });
+
+  it('keeps web links', () => {
+    const { pages } = createBook('<a href="https://example.com/">site</a>');
+    expect(getLinks(pages[0])).toEqual(['https://example.com/']);
+  });
+});
+
+describe('markdownToDocument', () => {
+  it('converts Markdown with its front matter', async () => {
+    const { body, title, metadata } = await markdownToDocument(
+      '---\ntitle: "The Lighthouse"\nauthor: A. Keeper\n---\n# One\n\nIt was *late*. <script>alert(1)</script>\n'
+    );
+    expect(title).toBe('The Lighthouse');
+    expect(metadata.author).toBe('A. Keeper');
+    expect(body.innerHTML).toContain('<h1>One</h1>');
+    expect(body.innerHTML).toContain('<em>late</em>');
+    expect(body.innerHTML).not.toContain('script');
+  });
+
+  it('drops links to other Markdown files', async () => {
+    const { body } = await markdownToDocument('# One\n\nSee [the notes](notes.md#x).\n\n# Two\n\nThe end.\n');
+    sanitizeChapter(body);
+    const { pages } = splitIntoPages(body, 'book.md');
+    expect(getLinks(pages[0])).toEqual([null]);
+  });
+});
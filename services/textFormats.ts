@@ -0,0 +1,456 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import { Book, BookMetadata, TocItem } from '../types';
+import { buildInternalHref } from './epubContent';
+import { isExternalLink } from './htmlSanitizer';
+
+// Conversion of plain text, Markdown, HTML and FictionBook files into the same HTML pages an EPUB
+// produces. Each converter returns a document body; splitIntoPages then cuts it into chapters at
+// its headings, and long chapters into virtual pages.
+
+export type TextFormat = Exclude<Book['fileType'], 'pdf' | 'epub' | 'cbz'>;
+
+export interface ConvertedDocument {
+  body: HTMLElement;
+  title?: string;
+  metadata: BookMetadata;
+}
+
+const EXTENSION_FORMATS: Record<string, TextFormat> = {
+  txt: 'txt', text: 'txt', md: 'md', markdown: 'md', html: 'html', htm: 'html', xhtml: 'html', fb2: 'fb2',
+};
+
+const MIME_FORMATS: Record<string, TextFormat> = {
+  'text/plain': 'txt', 'text/markdown': 'md', 'text/x-markdown': 'md', 'text/html': 'html',
+  'application/xhtml+xml': 'html', 'application/x-fictionbook+xml': 'fb2',
+};
+
+export const getTextFormat = (file: File): TextFormat | null =>
+  EXTENSION_FORMATS[file.name.split('.').pop()?.toLowerCase() || ''] || MIME_FORMATS[file.type] || null;
+
+// --- Encodings ---
+
+// A byte order mark, or the zero bytes UTF-16 leaves in every other position of Latin-script text
+const detectUnicodeEncoding = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, i) => {
+    if (byte !== 0) return;
+    if (i % 2) oddZeros++;
+    else evenZeros++;
+  });
+  if (oddZeros > sample.length / 8 && oddZeros > evenZeros * 4) return 'utf-16le';
+  if (evenZeros > sample.length / 8 && evenZeros > oddZeros * 4) return 'utf-16be';
+  return null;
+};
+
+// The encoding named in an XML declaration or an HTML <meta>, e.g. windows-1251 for many FB2 files
+const findDeclaredEncoding = (bytes: Uint8Array): string | undefined => {
+  const head = new TextDecoder('windows-1252').decode(bytes.subarray(0, 1024));
+  return head.match(/<\?xml[^>]*encoding=["']([\w.:-]+)["']/i)?.[1]
+    || head.match(/<meta[^>]*charset=["']?([\w.:-]+)/i)?.[1];
+};
+
+// Decodes a text file: Unicode when marked or detectable, then any declared encoding (for markup),
+// then UTF-8 if the bytes are valid UTF-8, and Windows-1252 for everything older
+export const decodeText = (buffer: ArrayBuffer, readDeclaration = false): string => {
+  const bytes = new Uint8Array(buffer);
+  const unicodeEncoding = detectUnicodeEncoding(bytes);
+  if (unicodeEncoding) return new TextDecoder(unicodeEncoding).decode(bytes);
+
+  const declared = readDeclaration ? findDeclaredEncoding(bytes) : undefined;
+  if (declared && !/^utf-?8$/i.test(declared)) {
+    try {
+      return new TextDecoder(declared).decode(bytes);
+    } catch {
+      // Not an encoding the browser knows; fall back to detection
+    }
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+const normalizeSpace = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+// --- Plain text ---
+
+const GUTENBERG_START = /^\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG[^\n]*$/im;
+const GUTENBERG_END = /^\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG[^\n]*$/im;
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|'
+  + 'sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|'
+  + 'first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last';
+
+// A line on its own that starts a chapter: "CHAPTER XII.", "Chapter Twenty-One: The Ball", "PART ONE",
+// "Prologue", or a bare roman numeral
+const TEXT_HEADING_PATTERN = new RegExp(
+  `^(?:(?:chapter|book|part|volume|act|canto|letter|stave)\\s+(?:\\d+|[ivxlcdm]+|(?:${NUMBER_WORDS})(?:-[a-z]+)?)\\b.*`
+  + '|(?:prologue|epilogue|preface|introduction|foreword|afterword|contents)\\b.*)$',
+  'i'
+);
+const ROMAN_NUMERAL_HEADING_PATTERN = /^[IVXLC]{1,7}\.?$/;
+
+const MAX_HEADING_LENGTH = 80;
+
+// Lines shorter than this keep their breaks (verse, letters); longer ones are hard-wrapped prose
+const VERSE_LINE_LENGTH = 45;
+
+export const textToDocument = (source: string): ConvertedDocument => {
+  let text = source.replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+  const metadata: BookMetadata = {};
+
+  // Project Gutenberg files wrap the book in a licence header and footer; the header has the metadata
+  const start = text.match(GUTENBERG_START);
+  if (start) {
+    const header = text.slice(0, start.index);
+    const field = (name: string) => header.match(new RegExp(`^${name}:\\s*(.+)$`, 'im'))?.[1].trim();
+    title = field('Title');
+    metadata.author = field('Author');
+    metadata.language = field('Language');
+    metadata.publishedDate = field('Release Date')?.replace(/\s*\[.*$/, '');
+    text = text.slice(start.index! + start[0].length);
+    const end = text.match(GUTENBERG_END);
+    if (end) text = text.slice(0, end.index);
+  }
+
+  const doc = document.implementation.createHTMLDocument('');
+  text.split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return;
+
+    const isHeading = lines.length === 1 && lines[0].length <= MAX_HEADING_LENGTH
+      && (TEXT_HEADING_PATTERN.test(lines[0]) || ROMAN_NUMERAL_HEADING_PATTERN.test(lines[0]));
+    if (isHeading) {
+      const heading = doc.createElement('h2');
+      heading.textContent = lines[0];
+      doc.body.append(heading, '\n');
+      return;
+    }
+
+    const paragraph = doc.createElement('p');
+    if (lines.length > 1 && lines.every(line => line.length < VERSE_LINE_LENGTH)) {
+      lines.forEach((line, i) => {
+        if (i > 0) paragraph.append(doc.createElement('br'));
+        paragraph.append(line);
+      });
+    } else {
+      paragraph.textContent = lines.join(' ');
+    }
+    doc.body.append(paragraph, '\n');
+  });
+
+  return { body: doc.body, title, metadata };
+};
+
+// --- Markdown ---
+
+const FRONT_MATTER_PATTERN = /^---\n([\s\S]*?)\n---\n/;
+
+export const markdownToDocument = async (source: string): Promise<ConvertedDocument> => {
+  let markdown = source.replace(/\r\n?/g, '\n');
+  const metadata: BookMetadata = {};
+  let title: string | undefined;
+
+  // YAML front matter, as written by most static site generators and note apps
+  const frontMatter = markdown.match(FRONT_MATTER_PATTERN);
+  if (frontMatter) {
+    const field = (name: string) =>
+      frontMatter[1].match(new RegExp(`^${name}:\\s*(.+)$`, 'im'))?.[1].trim().replace(/^["']|["']$/g, '');
+    title = field('title');
+    metadata.author = field('author');
+    metadata.language = field('lang(?:uage)?');
+    markdown = markdown.slice(frontMatter[0].length);
+  }
+
+  // The same Markdown parser the chat renders answers with; raw HTML in the source is left out
+  const html = String(await unified().use(remarkParse).use(remarkRehype).use(rehypeStringify).process(markdown));
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return { body: doc.body, title: title || normalizeSpace(doc.querySelector('h1')?.textContent) || undefined, metadata };
+};
+
+// --- HTML ---
+
+export const htmlToDocument = (source: string): ConvertedDocument => {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  const meta = (name: string) => doc.querySelector(`meta[name="${name}" i]`)?.getAttribute('content') || undefined;
+  return {
+    body: doc.body,
+    title: normalizeSpace(doc.title) || normalizeSpace(doc.querySelector('h1')?.textContent) || undefined,
+    metadata: {
+      author: meta('author'),
+      description: meta('description'),
+      language: doc.documentElement.lang || undefined,
+    },
+  };
+};
+
+// --- FictionBook ---
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+const FB2_BLOCK_ELEMENTS: Record<string, string> = {
+  p: 'p', epigraph: 'blockquote', cite: 'blockquote', poem: 'div', annotation: 'div', 'text-author': 'p',
+  table: 'table', tr: 'tr', td: 'td', th: 'th',
+};
+
+const FB2_INLINE_ELEMENTS: Record<string, string> = {
+  emphasis: 'em', strong: 'strong', strikethrough: 's', sub: 'sub', sup: 'sup', code: 'code',
+};
+
+const getFb2Href = (element: Element) =>
+  element.getAttributeNS(XLINK_NS, 'href') || element.getAttribute('l:href') || element.getAttribute('href') || '';
+
+const getFb2Child = (parent: Element | Document | undefined, name: string) =>
+  parent?.getElementsByTagNameNS('*', name)[0];
+
+type HtmlNodes = (Node | string)[];
+
+// Maps FB2 markup onto HTML. Section titles become headings by nesting depth, so the top-level
+// sections of the main body are <h1> and split into chapters.
+const convertFb2Children = (source: Element, doc: Document, images: Map<string, string>, depth: number): HtmlNodes =>
+  Array.from(source.childNodes).flatMap(node => convertFb2Node(node, doc, images, depth));
+
+const convertFb2Node = (node: Node, doc: Document, images: Map<string, string>, depth: number): HtmlNodes => {
+  if (node.nodeType === Node.TEXT_NODE) return [node.textContent || ''];
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as Element;
+  const name = element.localName;
+  const create = (tag: string, children: HtmlNodes) => {
+    const result = doc.createElement(tag);
+    result.append(...children);
+    const id = element.getAttribute('id');
+    if (id) result.id = id;
+    return result;
+  };
+
+  switch (name) {
+    case 'section':
+      return [create('section', convertFb2Children(element, doc, images, depth + 1)), '\n'];
+    case 'title': {
+      // Each paragraph of a title is a line of one heading
+      const heading = create(`h${Math.min(Math.max(depth, 1), 6)}`, []);
+      Array.from(element.children).forEach((line, i) => {
+        if (i > 0) heading.append(doc.createElement('br'));
+        heading.append(...convertFb2Children(line, doc, images, depth));
+      });
+      return [heading, '\n'];
+    }
+    case 'subtitle':
+      return [create('p', [create('strong', convertFb2Children(element, doc, images, depth))]), '\n'];
+    case 'empty-line':
+      return [doc.createElement('br')];
+    case 'stanza':
+      return [create('p', convertFb2Children(element, doc, images, depth)), '\n'];
+    case 'v':
+      return [...convertFb2Children(element, doc, images, depth), doc.createElement('br')];
+    case 'image': {
+      const src = images.get(getFb2Href(element).replace(/^#/, ''));
+      if (!src) return [];
+      const image = doc.createElement('img');
+      image.setAttribute('src', src);
+      image.setAttribute('alt', element.getAttribute('alt') || '');
+      return [image];
+    }
+    case 'a': {
+      const link = create('a', convertFb2Children(element, doc, images, depth));
+      link.setAttribute('href', getFb2Href(element));
+      if (element.getAttribute('type') === 'note') link.setAttribute('role', 'doc-noteref');
+      return [link];
+    }
+  }
+
+  if (FB2_BLOCK_ELEMENTS[name]) return [create(FB2_BLOCK_ELEMENTS[name], convertFb2Children(element, doc, images, depth)), '\n'];
+  if (FB2_INLINE_ELEMENTS[name]) return [create(FB2_INLINE_ELEMENTS[name], convertFb2Children(element, doc, images, depth))];
+  return convertFb2Children(element, doc, images, depth);
+};
+
+export const fb2ToDocument = (source: string): ConvertedDocument => {
+  const xml = new DOMParser().parseFromString(source, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('This FB2 file is not valid XML.');
+  }
+
+  // Images are embedded as base64 <binary> elements and referenced by id
+  const images = new Map<string, string>();
+  Array.from(xml.getElementsByTagNameNS('*', 'binary')).forEach(binary => {
+    const type = binary.getAttribute('content-type') || 'image/jpeg';
+    images.set(binary.getAttribute('id') || '', `data:${type};base64,${(binary.textContent || '').replace(/\s+/g, '')}`);
+  });
+
+  const titleInfo = getFb2Child(xml, 'title-info');
+  const publishInfo = getFb2Child(xml, 'publish-info');
+  const text = (parent: Element | undefined, name: string) => normalizeSpace(getFb2Child(parent, name)?.textContent) || undefined;
+  const authors = Array.from(titleInfo?.getElementsByTagNameNS('*', 'author') || [])
+    .map(author => ['first-name', 'middle-name', 'last-name'].map(name => text(author, name)).filter(Boolean).join(' ')
+      || text(author, 'nickname'))
+    .filter(Boolean);
+  const coverHref = getFb2Child(getFb2Child(titleInfo, 'coverpage'), 'image');
+
+  const metadata: BookMetadata = {
+    author: authors.join(', ') || undefined,
+    language: text(titleInfo, 'lang'),
+    description: text(titleInfo, 'annotation'),
+    publisher: text(publishInfo, 'publisher'),
+    publishedDate: text(publishInfo, 'year') || text(titleInfo, 'date'),
+    isbn: text(publishInfo, 'isbn'),
+    coverImage: coverHref ? images.get(getFb2Href(coverHref).replace(/^#/, '')) : undefined,
+  };
+
+  const doc = document.implementation.createHTMLDocument('');
+  const bodies = Array.from(xml.documentElement.children).filter(element => element.localName === 'body');
+  bodies.forEach((body, i) => {
+    const bodyTitle = Array.from(body.children).find(element => element.localName === 'title');
+    const rest = Array.from(body.childNodes).filter(node => node !== bodyTitle);
+    if (i === 0) {
+      // The main body's title repeats the book title and author, so it is a title page, not a chapter
+      if (bodyTitle) {
+        const header = doc.createElement('header');
+        header.append(...convertFb2Children(bodyTitle, doc, images, 0));
+        doc.body.append(header, '\n');
+      }
+      doc.body.append(...rest.flatMap(node => convertFb2Node(node, doc, images, 0)));
+    } else {
+      // Notes and comments become one chapter; their entries sit deep enough not to count as chapters
+      const heading = doc.createElement('h1');
+      heading.textContent = normalizeSpace(bodyTitle?.textContent) || 'Notes';
+      doc.body.append(heading, '\n', ...rest.flatMap(node => convertFb2Node(node, doc, images, 3)));
+    }
+  });
+
+  return { body: doc.body, title: text(titleInfo, 'book-title'), metadata };
+};
+
+// --- Chapters and virtual pages ---
+
+// Chapters longer than this are split into several pages at block boundaries
+const MAX_PAGE_CHARS = 20000;
+
+// The highest heading level that occurs more than once marks the chapters
+const findChapterLevel = (body: HTMLElement): number | null => {
+  for (let level = 1; level <= 3; level++) {
+    if (body.getElementsByTagName(`h${level}`).length >= 2) return level;
+  }
+  return null;
+};
+
+// Moves a chapter into page containers of at most MAX_PAGE_CHARS characters where it can
+const paginate = (chapter: DocumentFragment, doc: Document): HTMLElement[] => {
+  const root = doc.createElement('div');
+  root.append(chapter);
+  if ((root.textContent || '').length <= MAX_PAGE_CHARS) return [root];
+
+  // A chapter wrapped in a single element (<section>, <div>) is split inside the wrapper
+  let parent: Element = root;
+  while (parent.children.length === 1
+    && normalizeSpace(parent.textContent) === normalizeSpace(parent.children[0].textContent)) {
+    parent = parent.children[0];
+  }
+
+  const pages: HTMLElement[] = [];
+  let page = doc.createElement('div');
+  let length = 0;
+  Array.from(parent.childNodes).forEach(node => {
+    const nodeLength = node.textContent?.length || 0;
+    if (length > 0 && length + nodeLength > MAX_PAGE_CHARS) {
+      pages.push(page);
+      page = doc.createElement('div');
+      length = 0;
+    }
+    page.append(node);
+    length += nodeLength;
+  });
+  pages.push(page);
+  return pages;
+};
+
+const decodeAnchor = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Cuts a converted (and sanitized) document into pages: one chapter per heading of the chapter
+// level, long chapters split further. Headings one level down become nested TOC entries, and
+// in-document links to another page are rewritten to Reader links. `fileName` is the file the
+// document came from, which its links may name.
+export const splitIntoPages = (body: HTMLElement, fileName?: string): { pages: HTMLElement[]; toc: TocItem[] } => {
+  const doc = body.ownerDocument;
+  const level = findChapterLevel(body);
+  const headings = level ? Array.from(body.getElementsByTagName(`h${level}`)) : [];
+  const pages: HTMLElement[] = [];
+  const toc: TocItem[] = [];
+  const range = doc.createRange();
+  let previous: DocumentFragment | null = null;
+
+  const addChapter = (content: DocumentFragment, title?: string) => {
+    const firstPage = pages.length;
+    pages.push(...paginate(content, doc));
+    if (!title) return;
+    toc.push({ title, page: firstPage, level: 0 });
+    pages.slice(firstPage).forEach((page, i) => {
+      page.querySelectorAll(`h${(level || 0) + 1}`).forEach(subheading => {
+        const subtitle = normalizeSpace(subheading.textContent);
+        if (subtitle) toc.push({ title: subtitle, page: firstPage + i, level: 1 });
+      });
+    });
+  };
+
+  // Anything before the first heading (a title page, front matter) becomes its own chapter
+  const chapters: { content: DocumentFragment; title?: string }[] = [];
+  for (let i = -1; i < headings.length; i++) {
+    if (i < 0) range.setStart(body, 0);
+    else range.setStartBefore(headings[i]);
+    if (i + 1 < headings.length) range.setEndBefore(headings[i + 1]);
+    else range.setEnd(body, body.childNodes.length);
+    const content = range.cloneContents();
+    const title = i >= 0 ? normalizeSpace(headings[i].textContent) : '';
+
+    // A heading with nothing under it is usually a table of contents entry, so it stays with the
+    // chapter before it instead of becoming a page of its own
+    const hasBody = normalizeSpace(content.textContent).length > title.length || !!content.querySelector('img, svg');
+    if (!hasBody && previous) {
+      previous.append(content);
+    } else if (normalizeSpace(content.textContent) || content.querySelector('img, svg')) {
+      chapters.push({ content, title: title || undefined });
+      previous = content;
+    }
+  }
+  chapters.forEach(chapter => addChapter(chapter.content, chapter.title));
+
+  const pageById = new Map<string, number>();
+  pages.forEach((page, index) => page.querySelectorAll('[id]').forEach(element => {
+    if (!pageById.has(element.id)) pageById.set(element.id, index);
+  }));
+  pages.forEach((page, index) => page.querySelectorAll('a[href]').forEach(link => {
+    const href = link.getAttribute('href') || '';
+    if (isExternalLink(href)) return;
+    // Links to other files (the rest of an HTML book, a Markdown author's other notes) aren't part of
+    // the book; only those back into this file keep somewhere to go
+    const [path, fragment] = href.split('#');
+    const isThisFile = !path || (!!fileName && decodeAnchor(path).split('/').pop() === fileName);
+    const anchor = fragment === undefined ? '' : decodeAnchor(fragment);
+    const target = isThisFile && anchor ? pageById.get(anchor) : undefined;
+    if (target === undefined) {
+      if (!href.startsWith('#')) link.removeAttribute('href');
+    } else if (target !== index || path) {
+      link.setAttribute('href', buildInternalHref(target, anchor));
+    }
+  }));
+
+  return { pages, toc };
+};
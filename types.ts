@@ -2,16 +2,208 @@ export interface TocItem {
   title: string;
   page: number; // 0-based index
   level: number;
+  anchor?: string; // Element id within the page (EPUB fragment identifiers)
+}
+
+export interface BookMetadata {
+  author?: string;
+  language?: string;
+  publisher?: string;
+  publishedDate?: string;
+  description?: string;
+  isbn?: string;
+  uuid?: string;
+  coverImage?: string; // Data URL (EPUB cover image or rendered first PDF page)
 }
 
 export interface Book {
+  id: string; // SHA-256 of the original file, used as the library key
   title: string;
-  fileType: 'pdf' | 'epub';
+  fileType: 'pdf' | 'epub' | 'txt' | 'md' | 'html' | 'fb2' | 'cbz';
   content: string[]; // Text content for AI context
-  renderData: ArrayBuffer | string[]; // ArrayBuffer for PDF, HTML strings for EPUB
+  renderData: ArrayBuffer | string[]; // ArrayBuffer for PDF, image data URLs for CBZ, HTML strings otherwise
   totalPages: number;
   fileName: string;
   toc: TocItem[];
+  metadata: BookMetadata;
+  stylesheet?: string; // EPUB only: the book's CSS, scoped to the chapter container
+  resources?: Record<string, BookResource>; // EPUB only: fonts and images the stylesheet refers to, by path
+  ocrWords?: Record<number, OcrWord[]>; // PDF only: words recognised on scanned pages, by page
+  pageDirection?: 'ltr' | 'rtl'; // PDF and comics: the order pages are read in, when the file says
+}
+
+// A word recognised on a scanned PDF page. The box is in unscaled page coordinates, top-left origin.
+export interface OcrWord {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// OCR results are kept per page as they are produced, so an interrupted run picks up where it stopped
+export interface OcrPage {
+  bookId: string;
+  page: number;
+  text: string;
+  words: OcrWord[];
+}
+
+// Natural size of a fixed-layout page: PDF points, or pixels for comic images
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// How the Reader lays pages out. Spreads only apply to fixed-layout books.
+export type ViewMode = 'single' | 'continuous' | 'spread';
+
+export interface BookResource {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ReadingPosition {
+  page: number; // 0-based index
+  charOffset?: number; // Characters of content[page] read so far; undefined means the whole page
+}
+
+export interface LibraryEntry {
+  id: string; // Same as Book.id
+  title: string;
+  author?: string;
+  coverImage?: string;
+  fileType: Book['fileType'];
+  fileName: string;
+  totalPages: number;
+  currentPage: number;
+  boundary: ReadingPosition;
+  progress: number; // Share of the book within the boundary, 0-1
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+// A summary of part of a book, kept so recaps don't have to send everything read to the model again
+export interface RecapSummary {
+  bookId: string;
+  key: string; // 'section:<first>-<last>', 'part:<first>-<last>' or 'book'
+  first: number; // 0-based pages covered
+  last: number;
+  text: string;
+  boundary?: ReadingPosition; // The whole-book recap: where the reader had got to when it was written
+  createdAt: number;
+}
+
+export type EntityKind = 'character' | 'place' | 'organisation';
+
+export interface EntityRelation {
+  entityId: string;
+  label: string; // How this entity relates to the other, e.g. "sister of"
+}
+
+// A person, place or organisation in a book, as known from the pages read so far
+export interface BookEntity {
+  id: string;
+  name: string;
+  kind: EntityKind;
+  aliases: string[];
+  description: string;
+  firstPage: number; // 0-based page of the first mention
+  relations: EntityRelation[];
+}
+
+// Everything tracked for a book, and how far into it the tracking has got
+export interface EntityIndex {
+  bookId: string;
+  through: ReadingPosition;
+  entities: BookEntity[];
+  updatedAt: number;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export interface Highlight {
+  id: string;
+  bookId: string;
+  page: number; // 0-based index
+  // Anchor into Book.content[page]: offsets plus the quoted text and its surroundings,
+  // so highlights can be re-found if offsets drift
+  start: number;
+  end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SearchHit {
+  page: number; // 0-based index
+  start: number; // Offsets into Book.content[page]
+  end: number;
+  score: number; // Higher for whole-word matches
+  before: string; // Snippet text around the match
+  match: string;
+  after: string;
+}
+
+export interface SearchResults {
+  hits: SearchHit[]; // Ranked best first
+  hiddenCount: number; // Matches past the read boundary that were left out
+  truncated: boolean; // More matches exist than were returned
+}
+
+export type ParsePhase = 'loading' | 'unpacking' | 'chapters' | 'text' | 'ocr';
+
+export interface ParseProgress {
+  phase: ParsePhase;
+  done: number; // Files, chapters or pages processed in this phase
+  total: number;
+}
+
+// A PDF opened while its text is still being extracted: the complete book once it is done, and the
+// controller that stops the extraction
+export interface BookExtraction {
+  completeBook: Promise<Book>;
+  controller: AbortController;
+}
+
+// Contents of a zip (EPUB or CBZ) as unpacked by the parser worker, keyed by path within the zip
+export interface ArchiveFiles {
+  textFiles: Record<string, string>; // Markup, package documents and stylesheets
+  binaryFiles: Record<string, string>; // Everything else, base64-encoded
+}
+
+// A run of text on a PDF page as reported by PDF.js, in unscaled page coordinates (y grows upwards)
+export interface PdfTextItem {
+  text: string;
+  x: number; // Start of the baseline
+  y: number;
+  width: number; // Advance along the baseline
+  size: number; // Font size
+  angle: number; // Baseline direction in radians; 0 for ordinary horizontal text
+  hasEOL: boolean; // PDF.js saw a line break after this run
+}
+
+export type ParserWorkerRequest =
+  | { type: 'unzip'; file: File }
+  | { type: 'pdf'; data: ArrayBuffer };
+
+export type ParserWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'archive-files'; files: ArchiveFiles }
+  | { type: 'pdf-page'; page: number; items: PdfTextItem[] }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// A page an answer rests on, with the passage quoted from it when it could be found
+export interface Citation {
+  page: number; // 0-based index
+  start?: number; // Offsets into Book.content[page]
+  end?: number;
+  quote?: string;
 }
 
 export interface Message {
@@ -20,6 +212,32 @@ export interface Message {
   content: string;
   timestamp: number;
   isStreaming?: boolean;
+  isStopped?: boolean; // The reader stopped the answer before it was finished
+  retrievedPages?: number[]; // 0-based pages looked up to answer this message
+  citations?: Citation[]; // Linked from the content as [N](#citation-i)
+  spoilers?: string[]; // Sentences hidden as possible spoilers, linked from the content as [...](#spoiler-i)
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  temperature: number;
+  endpoint: string; // Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional key for OpenAI-compatible servers; Gemini uses the build-time key
+  imageInput: boolean; // Whether the OpenAI-compatible model accepts images (e.g. llava)
+}
+
+export interface ChatImage {
+  mimeType: string;
+  data: string; // Base64, without the data: prefix
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  images?: ChatImage[]; // Shown to the model before the text; only sent to providers that support images
 }
 
 export enum ReaderState {